@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+
+export type ArraySpec = {
+  rows: number;
+  cols: number;
+  /** Centre-to-centre spacing in mm: real mm on a calibrated sheet, paper mm otherwise */
+  spacingXMm: number;
+  spacingYMm: number;
+};
+
+type Props = {
+  calibrated: boolean;
+  onApply: (spec: ArraySpec) => void;
+  onCancel: () => void;
+};
+
+// Largest array in one go; beyond this it's usually a typo
+const MAX_COPIES = 400;
+
+/** Repeat the selection over a grid of rows and columns. */
+const ArrayDialog: React.FC<Props> = ({ calibrated, onApply, onCancel }) => {
+  const [rows, setRows] = useState("1");
+  const [cols, setCols] = useState("4");
+  const [spacingX, setSpacingX] = useState(calibrated ? "1200" : "20");
+  const [spacingY, setSpacingY] = useState(calibrated ? "1200" : "20");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    const spec = {
+      rows: parseInt(rows, 10),
+      cols: parseInt(cols, 10),
+      spacingXMm: parseFloat(spacingX),
+      spacingYMm: parseFloat(spacingY),
+    };
+    if (!(spec.rows >= 1) || !(spec.cols >= 1)) {
+      setError("Rows and columns must be at least 1.");
+      return;
+    }
+    if (spec.rows * spec.cols < 2 || spec.rows * spec.cols > MAX_COPIES) {
+      setError(`Make between 2 and ${MAX_COPIES} items in total.`);
+      return;
+    }
+    if (!Number.isFinite(spec.spacingXMm) || !Number.isFinite(spec.spacingYMm)) {
+      setError("Enter the spacing in mm.");
+      return;
+    }
+    onApply(spec);
+  };
+
+  const field = (label: string, value: string, set: (v: string) => void) => (
+    <label style={styles.field}>
+      <span style={styles.label}>{label}</span>
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => set(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && apply()}
+        style={styles.input}
+      />
+    </label>
+  );
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onCancel}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.title}>Array</div>
+        <div style={styles.sub}>
+          Repeats the selection; the original is the top-left item. Spacing is in{" "}
+          {calibrated ? "real mm" : "printed mm (calibrate the sheet to use real mm)"}.
+        </div>
+
+        <div style={styles.grid}>
+          {field("Rows", rows, setRows)}
+          {field("Columns", cols, setCols)}
+          {field("Spacing across (mm)", spacingX, setSpacingX)}
+          {field("Spacing down (mm)", spacingY, setSpacingY)}
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={styles.footer}>
+          <div style={{ flex: 1 }} />
+          <button type="button" style={styles.btn} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" style={styles.btnPrimary} onClick={apply}>
+            Place
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: 360,
+    padding: 16,
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+    color: "#e0e0e0",
+  },
+  title: { fontWeight: 700, fontSize: 14, letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "1fr 1fr",
+    gap: 10,
+    marginTop: 14,
+  },
+  field: { display: "flex", flexDirection: "column", gap: 4 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  input: {
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 10px",
+    outline: "none",
+    fontSize: 13,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  error: { fontSize: 12, color: "#ff6b6b", marginTop: 10 },
+  footer: { display: "flex", gap: 8, marginTop: 16 },
+  btn: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+  },
+  btnPrimary: {
+    height: 32,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default ArrayDialog;
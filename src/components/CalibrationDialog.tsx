@@ -0,0 +1,243 @@
+import React, { useState } from "react";
+import {
+  Calibration,
+  calibrationFromPoints,
+  calibrationFromScale,
+  describeCalibration,
+  parseScale,
+} from "./calibration";
+
+type Props = {
+  current: Calibration | null;
+  /** Pixel distance between the two picked points, once picked */
+  measuredPx: number | null;
+  paperMmPerPx: number;
+  onPickPoints: () => void;
+  onApply: (cal: Calibration) => void;
+  onClear: () => void;
+  onCancel: () => void;
+};
+
+const COMMON_SCALES = [20, 50, 100, 200, 500];
+
+/** Set the sheet's real-world scale from two picked points or the printed scale. */
+const CalibrationDialog: React.FC<Props> = ({
+  current,
+  measuredPx,
+  paperMmPerPx,
+  onPickPoints,
+  onApply,
+  onClear,
+  onCancel,
+}) => {
+  const [mode, setMode] = useState<"points" | "scale">(
+    measuredPx != null ? "points" : current?.method ?? "points"
+  );
+  const [distance, setDistance] = useState(current?.refMm ? String(current.refMm) : "");
+  const [scale, setScale] = useState(current?.scale ? `1:${current.scale}` : "1:50");
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    let cal: Calibration | null = null;
+    if (mode === "points") {
+      if (measuredPx == null) {
+        setError("Pick two points on the plan first.");
+        return;
+      }
+      cal = calibrationFromPoints(measuredPx, parseFloat(distance));
+      if (!cal) {
+        setError("Enter the real distance in mm (e.g. 5000).");
+        return;
+      }
+    } else {
+      const n = parseScale(scale);
+      cal = n ? calibrationFromScale(n, paperMmPerPx) : null;
+      if (!cal) {
+        setError("Enter a scale like 1:50.");
+        return;
+      }
+    }
+    onApply(cal);
+  };
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onCancel}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.title}>Calibrate sheet</div>
+        <div style={styles.sub}>Current: {describeCalibration(current)}</div>
+
+        <div style={styles.tabs}>
+          <button
+            type="button"
+            style={{ ...styles.tab, ...(mode === "points" ? styles.tabOn : null) }}
+            onClick={() => setMode("points")}
+          >
+            Two points
+          </button>
+          <button
+            type="button"
+            style={{ ...styles.tab, ...(mode === "scale" ? styles.tabOn : null) }}
+            onClick={() => setMode("scale")}
+          >
+            Printed scale
+          </button>
+        </div>
+
+        {mode === "points" ? (
+          <div style={styles.section}>
+            <div style={styles.row}>
+              <span style={styles.label}>
+                {measuredPx != null
+                  ? `Picked: ${measuredPx.toFixed(1)} px apart`
+                  : "No points picked yet"}
+              </span>
+              <button type="button" style={styles.btn} onClick={onPickPoints}>
+                {measuredPx != null ? "Pick again" : "Pick two points"}
+              </button>
+            </div>
+            <label style={styles.row}>
+              <span style={styles.label}>Real distance (mm)</span>
+              <input
+                autoFocus={measuredPx != null}
+                type="number"
+                min={0}
+                value={distance}
+                onChange={(e) => setDistance(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && apply()}
+                style={styles.input}
+                placeholder="5000"
+              />
+            </label>
+          </div>
+        ) : (
+          <div style={styles.section}>
+            <label style={styles.row}>
+              <span style={styles.label}>Drawing scale</span>
+              <input
+                value={scale}
+                onChange={(e) => setScale(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && apply()}
+                style={styles.input}
+                list="calibration-scales"
+              />
+              <datalist id="calibration-scales">
+                {COMMON_SCALES.map((n) => (
+                  <option key={n} value={`1:${n}`} />
+                ))}
+              </datalist>
+            </label>
+            <div style={styles.hint}>
+              Uses the underlay PDF's original paper size, so the scale printed on the
+              architect's drawing applies as-is.
+            </div>
+          </div>
+        )}
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={styles.footer}>
+          {current && (
+            <button type="button" style={styles.btnDanger} onClick={onClear}>
+              Clear
+            </button>
+          )}
+          <div style={{ flex: 1 }} />
+          <button type="button" style={styles.btn} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" style={styles.btnPrimary} onClick={apply}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: 380,
+    padding: 16,
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+    color: "#e0e0e0",
+  },
+  title: { fontWeight: 700, fontSize: 14, letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  tabs: { display: "flex", gap: 6, margin: "14px 0 10px" },
+  tab: {
+    flex: 1,
+    height: 32,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#a0a0a0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+  },
+  tabOn: { background: "#3d5a80", borderColor: "#4d6a90", color: "#ffffff" },
+  section: { display: "flex", flexDirection: "column", gap: 10 },
+  row: { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  input: {
+    height: 32,
+    width: 140,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 10px",
+    outline: "none",
+    fontSize: 13,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  hint: { fontSize: 11, color: "#888", lineHeight: 1.4 },
+  error: { fontSize: 12, color: "#ff6b6b", marginTop: 10 },
+  footer: { display: "flex", gap: 8, marginTop: 16 },
+  btn: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+  },
+  btnDanger: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #8d4d4d",
+    background: "#3d2d2d",
+    color: "#ff6b6b",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  btnPrimary: {
+    height: 32,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default CalibrationDialog;
@@ -1,17 +1,113 @@
 import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
+  ActiveSelection,
   Canvas,
+  Circle,
   FabricImage,
+  FabricObject,
+  Line,
   Point,
   TMat2D,
   util as fabricUtil,
-  Rect,
 } from "fabric";
-import * as pdfjsLib from "pdfjs-dist";
+import { getOpenedPdfBytes, openPdf, PdfSource, renderPdfPage } from "./pdf";
+import PdfPagePicker from "./PdfPagePicker";
+import SymbolPalette, { SYMBOL_MIME } from "./SymbolPalette";
+import { getSymbol, symbolIdOf } from "./symbols";
+import { createSymbolObject } from "./symbolObjects";
+import { attachLegendUpdater, createLegend, isLegend } from "./legend";
+import CalibrationDialog from "./CalibrationDialog";
+import {
+  Calibration,
+  describeCalibration,
+  getCalibration,
+  mmToWorldPx,
+  paperMmPerPx,
+  setCalibration,
+} from "./calibration";
+import { CanvasHistory, createHistory, HistoryEntry } from "./history";
+import {
+  CABLE_TYPES,
+  CableRun,
+  cableStyle,
+  DEFAULT_CABLE_TYPE,
+  findSnapTarget,
+  getCableType,
+  isCableRun,
+  refreshCableRuns,
+  setWorldPoints,
+  syncCableEnds,
+  updateRunLength,
+} from "./cables";
+import { makeId } from "./document";
+import {
+  attachedTo,
+  createLeader,
+  createNote,
+  createSymbolLabel,
+  DEFAULT_TEXT_STYLE,
+  isAnnotationText,
+  isNote,
+  isSymbolLabel,
+  labelOffsetFor,
+  symbolLabelText,
+  syncLeaders,
+  syncSymbolLabels,
+  TEXT_SIZES_MM,
+  TextStyle,
+  textStyleOf,
+  textStyleProps,
+} from "./annotations";
+import {
+  AlignEdge,
+  alignObjects,
+  distributeObjects,
+  editSelection,
+  getSelectedObjects,
+  isMultiSelectable,
+  rotateObjects,
+  selectObjects,
+  worldMatrices,
+} from "./arrange";
+import {
+  arrayOffsets,
+  ClipboardContent,
+  copyObjects,
+  offsetTo,
+  pasteObjects,
+} from "./clipboard";
+import ArrayDialog, { ArraySpec } from "./ArrayDialog";
+import {
+  CANVAS_BG,
+  createPageRect,
+  DEFAULT_PAPER,
+  DPI,
+  DPI_CHOICES,
+  getPageBounds,
+  mmToPx,
+  Orientation,
+  PAGE_NAME,
+  Paper,
+  PAPER_SIZES,
+  PaperSize,
+  PDF_NAME,
+} from "./page";
+import { applyPaper, fitInto, getPaper } from "./paper";
+import {
+  DEFAULT_GRID,
+  drawGrid,
+  drawGuides,
+  GridSettings,
+  gridPitchPx,
+  Guide,
+  snapMovingObject,
+  snapToGrid,
+} from "./snapping";
 
 declare global {
   interface Window {
     __fabricCanvas?: Canvas | null;
+    __canvasHistory?: CanvasHistory | null;
   }
 }
 
@@ -24,36 +120,225 @@ declare module "fabric" {
   }
 }
 
-pdfjsLib.GlobalWorkerOptions.workerSrc = `${process.env.PUBLIC_URL}/pdf.worker.js`;
-
 const clamp = (v: number, min: number, max: number) =>
   Math.max(min, Math.min(max, v));
 
 // Fixed canvas height; width is measured from the DOM at runtime
 const CANVAS_H = 700;
 
-// A3 landscape at 150 DPI
-const DPI = 150;
-const MM_PER_INCH = 25.4;
-const A3_W_PX = Math.round((420 / MM_PER_INCH) * DPI); // ~2480
-const A3_H_PX = Math.round((297 / MM_PER_INCH) * DPI); // ~1754
 
-const PAGE_NAME = "A3_PAGE";
-const PDF_NAME = "PDF_PAGE";
+// ---- History commands ----
+// Each helper returns an entry that reverses/re-applies one user operation.
+
+const TRANSFORM_KEYS = ["left", "top", "angle", "scaleX", "scaleY", "flipX", "flipY"] as const;
+
+const pickTransform = (obj: any) =>
+  TRANSFORM_KEYS.reduce((acc, k) => {
+    acc[k] = obj[k];
+    return acc;
+  }, {} as Record<string, any>);
+
+const addEntry = (canvas: Canvas, obj: any, label: string): HistoryEntry => ({
+  label,
+  undo: () => {
+    canvas.discardActiveObject();
+    canvas.remove(obj);
+    canvas.requestRenderAll();
+  },
+  redo: () => {
+    canvas.add(obj);
+    canvas.requestRenderAll();
+  },
+});
+
+const removeEntry = (
+  canvas: Canvas,
+  obj: any,
+  index: number,
+  label: string
+): HistoryEntry => ({
+  label,
+  undo: () => {
+    canvas.insertAt(index, obj);
+    canvas.requestRenderAll();
+  },
+  redo: () => {
+    canvas.discardActiveObject();
+    canvas.remove(obj);
+    canvas.requestRenderAll();
+  },
+});
+
+const transformEntry = (
+  canvas: Canvas,
+  obj: any,
+  before: Record<string, any>,
+  after: Record<string, any>,
+  label: string
+): HistoryEntry => {
+  const applyProps = (props: Record<string, any>) => {
+    obj.set(props);
+    obj.setCoords();
+    canvas.requestRenderAll();
+  };
+  return { label, undo: () => applyProps(before), redo: () => applyProps(after) };
+};
+
+/** Restores the whole object list; used where an operation reorders the stack. */
+const objectListEntry = (
+  canvas: Canvas,
+  before: any[],
+  after: any[],
+  label: string
+): HistoryEntry => {
+  const restore = (list: any[]) => {
+    canvas.discardActiveObject();
+    canvas.remove(...canvas.getObjects());
+    canvas.add(...list);
+    canvas.requestRenderAll();
+  };
+  return { label, undo: () => restore(before), redo: () => restore(after) };
+};
+
+/**
+ * Restores world transforms. Used for objects moved as part of an active
+ * selection, whose own left/top are relative to the selection.
+ */
+const placementEntry = (
+  canvas: Canvas,
+  objs: any[],
+  before: TMat2D[],
+  after: TMat2D[],
+  label: string
+): HistoryEntry => {
+  const apply = (matrices: TMat2D[]) => {
+    canvas.discardActiveObject();
+    objs.forEach((obj, i) => {
+      fabricUtil.applyTransformToObject(obj, matrices[i]);
+      obj.setCoords();
+    });
+    canvas.requestRenderAll();
+  };
+  return { label, undo: () => apply(before), redo: () => apply(after) };
+};
+
+/**
+ * Cable ends, symbol labels and leader tails catch up with what they're
+ * attached to; only with `moved` (an object or active selection) when given.
+ */
+function followAttached(canvas: Canvas, moved?: FabricObject) {
+  const objects = moved
+    ? moved instanceof ActiveSelection
+      ? moved.getObjects()
+      : [moved]
+    : undefined;
+  syncCableEnds(canvas, moved instanceof ActiveSelection ? undefined : (moved as any)?.uid);
+  syncSymbolLabels(canvas, objects);
+  syncLeaders(canvas, objects);
+}
+
+/** Canvas interaction mode; "select" is the default pick/drag/rotate behaviour */
+type Tool = "select" | "calibrate" | "cable" | "text" | "leader";
+
+// Longest side of the underlay bitmap; big paper at high DPI would exceed
+// what browsers will allocate for a canvas
+const MAX_UNDERLAY_PX = 8192;
+
+// Temporary on-canvas markers (calibration points etc.), never saved
+const MARKER_NAME = "TOOL_MARKER";
+
+// Screen px within which a cable point snaps onto a symbol
+const CABLE_SNAP_PX = 12;
+
+// Screen px within which a dragged symbol lines up with another
+const ALIGN_SNAP_PX = 6;
+
+const SELECTION_COLOUR = "#5fa3ff";
+
+// Where Ctrl+D puts the copy, and Ctrl+V when the cursor is off the canvas
+const DUPLICATE_OFFSET_MM = 5;
+
+const ALIGN_BUTTONS: { edge: AlignEdge; label: string; title: string }[] = [
+  { edge: "left", label: "⇤", title: "Align left edges" },
+  { edge: "center", label: "⇹", title: "Align centres horizontally" },
+  { edge: "right", label: "⇥", title: "Align right edges" },
+  { edge: "top", label: "⤒", title: "Align top edges" },
+  { edge: "middle", label: "⇕", title: "Align centres vertically" },
+  { edge: "bottom", label: "⤓", title: "Align bottom edges" },
+];
+
+/** Cable run being drawn: clicked vertices and the symbols its ends sit on */
+type CableDraft = { points: Point[]; startRef?: string; endRef?: string };
+
+type Props = {
+  /** Called once the Fabric canvas exists (it is created a tick after mount) */
+  onReady?: (canvas: Canvas) => void;
+  /** Layer new symbols, cable runs and the legend are put on */
+  activeLayerId?: string;
+};
+
+const CanvasComponent: React.FC<Props> = ({ onReady, activeLayerId }) => {
+  const onReadyRef = useRef(onReady);
+  onReadyRef.current = onReady;
+  const activeLayerRef = useRef(activeLayerId);
+  activeLayerRef.current = activeLayerId;
 
-const CanvasComponent: React.FC = () => {
   const fabricHostRef = useRef<HTMLDivElement | null>(null);
   const fabricCanvas = useRef<Canvas | null>(null);
   const isSpaceDownRef = useRef(false);
 
-  const [images] = useState([
-    "/images/ampage.png",
-    "/images/bobble-legs.png",
-    "/images/bobble.png",
-    "/images/fork-bobble.png",
-    "/images/fork1.png",
-    "/images/fork2.png",
-  ]);
+  const pdfInputRef = useRef<HTMLInputElement | null>(null);
+  const [pdfSource, setPdfSource] = useState<PdfSource | null>(null);
+  const [pickerOpen, setPickerOpen] = useState(false);
+  const [underlayInfo, setUnderlayInfo] = useState<{
+    fileName: string;
+    page: number;
+    pageCount: number;
+  } | null>(null);
+
+  const [tool, setTool] = useState<Tool>("select");
+  const toolRef = useRef<Tool>("select");
+
+  const [calibration, setCalibrationState] = useState<Calibration | null>(null);
+  const [calDialogOpen, setCalDialogOpen] = useState(false);
+  const [calMeasuredPx, setCalMeasuredPx] = useState<number | null>(null);
+  const calPointsRef = useRef<Point[]>([]);
+
+  const [paper, setPaperState] = useState<Paper>(DEFAULT_PAPER);
+  // "WxH" of the page the view was last fitted to
+  const framedPageRef = useRef("");
+
+  const [grid, setGrid] = useState<GridSettings>(DEFAULT_GRID);
+  const gridRef = useRef<GridSettings>(DEFAULT_GRID);
+  const guidesRef = useRef<Guide[]>([]);
+
+  const [cableType, setCableType] = useState(DEFAULT_CABLE_TYPE);
+  const cableTypeRef = useRef(DEFAULT_CABLE_TYPE);
+  const cableDraftRef = useRef<CableDraft>({ points: [] });
+  const cablePreviewRef = useRef<CableRun | null>(null);
+
+  const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE);
+  const textStyleRef = useRef<TextStyle>(DEFAULT_TEXT_STYLE);
+  const leaderTipRef = useRef<Point | null>(null);
+  // Note placed by the text tool; history records it once it has text
+  const pendingNoteRef = useRef<{ note: FabricObject; before: FabricObject[] } | null>(null);
+
+  const [selectionCount, setSelectionCount] = useState(0);
+  const [arrayOpen, setArrayOpen] = useState(false);
+  const clipboardRef = useRef<ClipboardContent | null>(null);
+  // Cursor in world coordinates while it is over the canvas
+  const pointerRef = useRef<Point | null>(null);
+
+  const [historyState, setHistoryState] = useState({ canUndo: false, canRedo: false });
+  const historyRef = useRef<CanvasHistory | null>(null);
+  if (!historyRef.current) {
+    const history = createHistory(undefined, () => {
+      setHistoryState({ canUndo: history.canUndo(), canRedo: history.canRedo() });
+      // every edit passes through here, so the editor re-checks for unsaved work
+      window.__fabricCanvas?.fire("history:changed" as any);
+    });
+    historyRef.current = history;
+  }
 
   const [toolbarVisible, setToolbarVisible] = useState(true);
   const [toolbarPos, setToolbarPos] = useState({ x: 12, y: 12 });
@@ -112,42 +397,198 @@ const CanvasComponent: React.FC = () => {
   );
 
   /**
-   * Fit the A3 page so it's fully visible and centered.
+   * Fit the page so it's fully visible and centered.
    * Because we now initialise the canvas at the host div's real clientWidth,
    * canvas.getWidth() is accurate and this calculation is correct.
    */
-  const fitToA3Page = useCallback(() => {
+  const fitToPage = useCallback(() => {
     const canvas = fabricCanvas.current;
-    if (!canvas) return;
+    const page = canvas?.getObjects().find((o: any) => o?.name === PAGE_NAME);
+    if (!canvas || !page) return;
+
+    const { left, top, width, height } = getPageBounds(page);
+    framedPageRef.current = `${width}x${height}`;
 
     const padding = 50;
     const cw = canvas.getWidth() - padding * 2;
     const ch = canvas.getHeight() - padding * 2;
 
     const s = clamp(
-      Math.min(cw / A3_W_PX, ch / A3_H_PX),
+      Math.min(cw / width, ch / height),
       MIN_ZOOM,
       MAX_ZOOM
     );
 
-    const dx = padding + (cw - A3_W_PX * s) / 2;
-    const dy = padding + (ch - A3_H_PX * s) / 2;
+    const dx = padding + (cw - width * s) / 2 - left * s;
+    const dy = padding + (ch - height * s) / 2 - top * s;
 
     canvas.setViewportTransform([s, 0, 0, s, dx, dy]);
     canvas.requestRenderAll();
   }, [MIN_ZOOM, MAX_ZOOM]);
 
-  // Keyboard shortcuts
+  const clearMarkers = useCallback(() => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    canvas.remove(...canvas.getObjects().filter((o: any) => o?.name === MARKER_NAME));
+    canvas.requestRenderAll();
+  }, []);
+
+  const cancelCable = useCallback(() => {
+    cableDraftRef.current = { points: [] };
+    const preview = cablePreviewRef.current;
+    cablePreviewRef.current = null;
+    const canvas = fabricCanvas.current;
+    if (canvas && preview) {
+      canvas.remove(preview);
+      canvas.requestRenderAll();
+    }
+  }, []);
+
+  /** Turn the draft into a cable run; the tool stays active for the next one. */
+  const finishCable = useCallback(() => {
+    const canvas = fabricCanvas.current;
+    const draft = cableDraftRef.current;
+    cancelCable();
+    if (!canvas) return;
+
+    // a double-click lands its last vertex twice
+    const points = draft.points.filter(
+      (p, i, all) => i === 0 || Math.hypot(p.x - all[i - 1].x, p.y - all[i - 1].y) > 0.5
+    );
+    if (points.length < 2) return;
+
+    const type = getCableType(cableTypeRef.current);
+    const run = new CableRun(points, {
+      ...cableStyle(type),
+      cableType: type.id,
+      startRef: draft.startRef,
+      endRef: draft.endRef,
+    });
+    (run as any).layer = activeLayerRef.current;
+    updateRunLength(canvas, run);
+    canvas.add(run);
+    canvas.requestRenderAll();
+    historyRef.current?.push(addEntry(canvas, run, "Add cable run"));
+  }, [cancelCable]);
+
+  // Tools other than select take over clicks: no selection, no target hits
   useEffect(() => {
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (e.code === "Space") {
-        isSpaceDownRef.current = true;
-        return;
-      }
+    toolRef.current = tool;
+    if (tool !== "cable") cancelCable();
+    if (tool !== "leader" && leaderTipRef.current) {
+      leaderTipRef.current = null;
+      clearMarkers();
+    }
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    // a note placed by the text tool is already being typed into
+    if (!(canvas.getActiveObject() as any)?.isEditing) canvas.discardActiveObject();
+    canvas.selection = tool === "select";
+    canvas.skipTargetFind = tool !== "select";
+    canvas.defaultCursor = tool === "select" ? "default" : "crosshair";
+    canvas.requestRenderAll();
+  }, [tool, cancelCable, clearMarkers]);
+
+  useEffect(() => {
+    gridRef.current = grid;
+    fabricCanvas.current?.requestRenderAll();
+  }, [grid]);
+
+  useEffect(() => {
+    textStyleRef.current = textStyle;
+  }, [textStyle]);
+
+  // Entries restore symbols but not the cable ends and labels attached to them
+  const afterHistoryStep = useCallback(() => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    followAttached(canvas);
+    canvas.requestRenderAll();
+  }, []);
 
+  const undo = useCallback(() => {
+    historyRef.current?.undo();
+    afterHistoryStep();
+  }, [afterHistoryStep]);
+
+  const redo = useCallback(() => {
+    historyRef.current?.redo();
+    afterHistoryStep();
+  }, [afterHistoryStep]);
+
+  // Deletes every selected object as one undo step
+  const deleteSelection = useCallback(() => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const selected = getSelectedObjects(canvas).filter(
+      (o: any) => o.name !== PAGE_NAME && o.name !== PDF_NAME
+    );
+    if (selected.length === 0) return;
+    // labels and leaders go with their symbol or note
+    const objects = [...selected, ...attachedTo(canvas, selected)];
+
+    const before = canvas.getObjects().slice();
+    canvas.discardActiveObject();
+    canvas.remove(...objects);
+    canvas.requestRenderAll();
+    historyRef.current?.push(
+      objects.length === 1
+        ? removeEntry(canvas, objects[0], before.indexOf(objects[0]), "Delete")
+        : objectListEntry(canvas, before, canvas.getObjects().slice(), "Delete")
+    );
+  }, []);
+
+  /** Add copies of `clip` at each offset as one undo step and select them */
+  const placeCopies = useCallback(
+    async (
+      clip: ClipboardContent,
+      offsets: { x: number; y: number }[],
+      label: string,
+      keep: FabricObject[] = []
+    ) => {
       const canvas = fabricCanvas.current;
       if (!canvas) return;
+      const before = canvas.getObjects().slice();
+      const added = await pasteObjects(canvas, clip, offsets);
+      if (added.length === 0) return;
+      selectObjects(canvas, [...keep, ...added]);
+      historyRef.current?.push(
+        objectListEntry(canvas, before, canvas.getObjects().slice(), label)
+      );
+    },
+    []
+  );
+
+  const copySelection = useCallback(async () => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const clip = await copyObjects(getSelectedObjects(canvas));
+    if (clip) clipboardRef.current = clip;
+  }, []);
+
+  // Pastes centred on the cursor, or just beside the originals
+  const pasteClipboard = useCallback(async () => {
+    const clip = clipboardRef.current;
+    if (!clip) return;
+    const nudge = mmToPx(DUPLICATE_OFFSET_MM);
+    const at = pointerRef.current ?? { x: clip.centre.x + nudge, y: clip.centre.y + nudge };
+    await placeCopies(clip, [offsetTo(clip, at)], "Paste");
+  }, [placeCopies]);
+
+  // Leaves the clipboard alone
+  const duplicateSelection = useCallback(async () => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const clip = await copyObjects(getSelectedObjects(canvas));
+    if (!clip) return;
+    const nudge = mmToPx(DUPLICATE_OFFSET_MM);
+    await placeCopies(clip, [{ x: nudge, y: nudge }], "Duplicate");
+  }, [placeCopies]);
 
+  // Keyboard shortcuts
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // notes being edited type through a hidden textarea, spaces included
       const tag = (e.target as HTMLElement | null)?.tagName?.toLowerCase();
       const isTyping =
         tag === "input" ||
@@ -155,14 +596,65 @@ const CanvasComponent: React.FC = () => {
         (e.target as any)?.isContentEditable;
       if (isTyping) return;
 
-      if (e.key === "Delete" || e.key === "Backspace") {
-        const active: any = canvas.getActiveObject();
-        if (active && active.name !== PAGE_NAME && active.name !== PDF_NAME) {
-          canvas.remove(active);
-          canvas.discardActiveObject();
-          canvas.requestRenderAll();
+      if (e.code === "Space") {
+        isSpaceDownRef.current = true;
+        return;
+      }
+
+      const canvas = fabricCanvas.current;
+      if (!canvas) return;
+
+      if (e.key === "Escape" && cableDraftRef.current.points.length > 0) {
+        cancelCable();
+        return;
+      }
+
+      if (e.key === "Escape" && toolRef.current !== "select") {
+        calPointsRef.current = [];
+        leaderTipRef.current = null;
+        clearMarkers();
+        setTool("select");
+        return;
+      }
+
+      if (e.key === "Enter" && toolRef.current === "cable") {
+        finishCable();
+        e.preventDefault();
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+        if (e.shiftKey) redo();
+        else undo();
+        e.preventDefault();
+        return;
+      }
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "y") {
+        redo();
+        e.preventDefault();
+        return;
+      }
+
+      if ((e.ctrlKey || e.metaKey) && toolRef.current === "select") {
+        const key = e.key.toLowerCase();
+        const command =
+          key === "c"
+            ? copySelection
+            : key === "v"
+              ? pasteClipboard
+              : key === "d"
+                ? duplicateSelection
+                : null;
+        if (command) {
+          command();
           e.preventDefault();
+          return;
         }
+      }
+
+      if (e.key === "Delete" || e.key === "Backspace") {
+        deleteSelection();
+        e.preventDefault();
         return;
       }
 
@@ -183,7 +675,18 @@ const CanvasComponent: React.FC = () => {
       window.removeEventListener("keydown", onKeyDown);
       window.removeEventListener("keyup", onKeyUp);
     };
-  }, [panBy]);
+  }, [
+    panBy,
+    undo,
+    redo,
+    clearMarkers,
+    cancelCable,
+    finishCable,
+    deleteSelection,
+    copySelection,
+    pasteClipboard,
+    duplicateSelection,
+  ]);
 
   // Init Fabric
   useEffect(() => {
@@ -195,7 +698,7 @@ const CanvasComponent: React.FC = () => {
     // ✅ THE FIX: delay by one tick so the host div has been painted
     // and hostEl.clientWidth reflects the real rendered width.
     // Previously the canvas was hardcoded to 1000px but rendered at ~900px,
-    // so fitToA3Page calculated positions based on wrong dimensions.
+    // so fitToPage calculated positions based on wrong dimensions.
     const initTimer = setTimeout(() => {
       const actualW = hostEl.clientWidth > 0 ? hostEl.clientWidth : 900;
 
@@ -210,35 +713,24 @@ const CanvasComponent: React.FC = () => {
       const canvas = new Canvas(el, {
         width: actualW,
         height: CANVAS_H,
-        backgroundColor: "#e9e9e9",
+        backgroundColor: CANVAS_BG,
         selection: true,
       });
 
       canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
       fabricCanvas.current = canvas;
       (window as any).__fabricCanvas = canvas;
+      (window as any).__canvasHistory = historyRef.current;
+
+      canvas.selectionColor = "rgba(95, 163, 255, 0.12)";
+      canvas.selectionBorderColor = SELECTION_COLOUR;
+      canvas.selectionLineWidth = 1;
 
-      canvas.selectionColor = "rgba(0,0,0,0)";
-      canvas.selectionBorderColor = "rgba(0,0,0,0)";
-      canvas.selectionLineWidth = 0;
-
-      // White A3 page rect
-      const pageRect = new Rect({
-        left: 0,
-        top: 0,
-        width: A3_W_PX,
-        height: A3_H_PX,
-        fill: "#ffffff",
-        stroke: "#c6c6c6",
-        strokeWidth: 2,
-        selectable: false,
-        evented: false,
-      }) as any;
-      pageRect.name = PAGE_NAME;
-      canvas.add(pageRect);
+      // White page rect
+      canvas.add(createPageRect());
 
       // Canvas is properly sized now — fit immediately
-      fitToA3Page();
+      fitToPage();
 
       // ---- Click-to-rotate ----
       const clickState = {
@@ -246,17 +738,18 @@ const CanvasComponent: React.FC = () => {
         startX: 0,
         startY: 0,
         moved: false,
-        shiftKey: false,
+        reverse: false,
       };
       const THRESHOLD = 5;
 
       const onMouseDownRotate = (opt: any) => {
         const e = opt.e as MouseEvent;
-        clickState.target = opt.target || null;
         clickState.startX = e.clientX;
         clickState.startY = e.clientY;
         clickState.moved = false;
-        clickState.shiftKey = !!e.shiftKey;
+        // Shift-click adds to the selection rather than rotating
+        clickState.target = e.shiftKey ? null : opt.target || null;
+        clickState.reverse = e.ctrlKey || e.metaKey;
       };
 
       const onMouseMoveRotate = (opt: any) => {
@@ -273,10 +766,27 @@ const CanvasComponent: React.FC = () => {
       const onMouseUpRotate = (opt: any) => {
         const target: any = opt.target || null;
         if (!clickState.target || target !== clickState.target || clickState.moved) return;
-        if (target && target.type === "image" && target.name !== PDF_NAME) {
-          const delta = clickState.shiftKey ? -90 : 90;
+        const delta = clickState.reverse ? -90 : 90;
+        if (target instanceof ActiveSelection) {
+          const objects = target.getObjects();
+          const before = worldMatrices(objects);
+          editSelection(canvas, (objs) => rotateObjects(objs, delta));
+          followAttached(canvas);
+          historyRef.current?.push(
+            placementEntry(canvas, objects, before, worldMatrices(objects), "Rotate")
+          );
+        } else if (
+          target &&
+          target.name !== PDF_NAME &&
+          (target.type === "image" || !!symbolIdOf(target))
+        ) {
+          const before = pickTransform(target);
           target.rotate(((target.angle ?? 0) + delta + 360) % 360);
+          followAttached(canvas, target);
           canvas.requestRenderAll();
+          historyRef.current?.push(
+            transformEntry(canvas, target, before, pickTransform(target), "Rotate")
+          );
         }
       };
 
@@ -284,6 +794,375 @@ const CanvasComponent: React.FC = () => {
       canvas.on("mouse:move", onMouseMoveRotate);
       canvas.on("mouse:up", onMouseUpRotate);
 
+      // ---- Snapping (hold Alt to place freely) ----
+      const gridPitch = () => gridPitchPx(gridRef.current, getCalibration(canvas));
+
+      // registered before the cable handlers so attached ends follow the snapped spot
+      const onObjectMovingSnap = (opt: any) => {
+        const e = opt.e as MouseEvent | undefined;
+        guidesRef.current =
+          opt.target && !e?.altKey
+            ? snapMovingObject(canvas, opt.target, {
+                grid: gridRef.current,
+                pitch: gridPitch(),
+                tolerance: ALIGN_SNAP_PX / canvas.getZoom(),
+              })
+            : [];
+      };
+
+      const clearGuides = () => {
+        if (guidesRef.current.length === 0) return;
+        guidesRef.current = [];
+        canvas.requestRenderAll();
+      };
+
+      const onAfterRender = (opt: any) => {
+        // exports render through here too, into their own context
+        if (opt.ctx !== canvas.getContext()) return;
+        const vpt = canvas.viewportTransform;
+        const page = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+        if (gridRef.current.visible && page) {
+          drawGrid(opt.ctx, vpt, getPageBounds(page), gridPitch());
+        }
+        drawGuides(opt.ctx, vpt, guidesRef.current);
+      };
+
+      canvas.on("object:moving", onObjectMovingSnap);
+      canvas.on("mouse:up", clearGuides);
+      canvas.on("after:render", onAfterRender);
+
+      // ---- Paste target ----
+      const onPointerMove = (opt: any) => {
+        pointerRef.current = canvas.getScenePoint(opt.e);
+      };
+      const onPointerOut = () => {
+        pointerRef.current = null;
+      };
+
+      canvas.on("mouse:move", onPointerMove);
+      canvas.on("mouse:out", onPointerOut);
+
+      // ---- Selection ----
+      const onSelectionChanged = () => {
+        const active = canvas.getActiveObject();
+        if (active instanceof ActiveSelection) {
+          const excluded = active.getObjects().filter((o) => !isMultiSelectable(o));
+          if (excluded.length > 0) {
+            active.remove(...excluded);
+            if (active.size() === 1) {
+              // fires selection:updated again with the single object
+              canvas.setActiveObject(active.item(0));
+              return;
+            }
+          }
+          // symbols keep their printed size, so no scale handles
+          active.set({
+            hasControls: false,
+            borderColor: SELECTION_COLOUR,
+            borderDashArray: [4, 3],
+          });
+        }
+        setSelectionCount(getSelectedObjects(canvas).length);
+        const text = getSelectedObjects(canvas).find(isAnnotationText);
+        if (text) setTextStyle(textStyleOf(text));
+      };
+      const onSelectionCleared = () => setSelectionCount(0);
+
+      canvas.on("selection:created", onSelectionChanged);
+      canvas.on("selection:updated", onSelectionChanged);
+      canvas.on("selection:cleared", onSelectionCleared);
+
+      // ---- Drag history ----
+      // Members of an active selection are recorded by world transform
+      let dragStart: { objects: FabricObject[]; matrices: TMat2D[] } | null = null;
+      const onBeforeTransform = (opt: any) => {
+        const target = opt.transform?.target;
+        dragStart =
+          target instanceof ActiveSelection
+            ? { objects: target.getObjects(), matrices: worldMatrices(target.getObjects()) }
+            : null;
+      };
+
+      const onObjectModified = (opt: any) => {
+        const target: any = opt.target;
+        if (target instanceof ActiveSelection && dragStart) {
+          const { objects, matrices } = dragStart;
+          dragStart = null;
+          historyRef.current?.push(
+            placementEntry(canvas, objects, matrices, worldMatrices(objects), "Move")
+          );
+          return;
+        }
+        const original = opt.transform?.original;
+        if (!target || !original) return;
+        const before = pickTransform(original);
+        const after = pickTransform(target);
+        if (TRANSFORM_KEYS.every((k) => before[k] === after[k])) return;
+        // a dragged label stays where it was put, relative to its symbol
+        const symbol: any = isSymbolLabel(target)
+          ? canvas.getObjects().find((o: any) => o.uid && o.uid === target.labelFor)
+          : null;
+        if (symbol) {
+          before.labelOffset = target.labelOffset;
+          target.labelOffset = labelOffsetFor(target, symbol);
+          after.labelOffset = target.labelOffset;
+        }
+        historyRef.current?.push(
+          transformEntry(canvas, target, before, after, "Move")
+        );
+      };
+
+      canvas.on("before:transform", onBeforeTransform);
+      canvas.on("object:modified", onObjectModified);
+
+      // ---- Cable runs ----
+      const cablePoint = (opt: any) => {
+        const p = canvas.getScenePoint(opt.e);
+        const target = findSnapTarget(canvas, p, CABLE_SNAP_PX / canvas.getZoom());
+        return { point: target ? target.getCenterPoint() : p, target };
+      };
+
+      const showCablePreview = (points: Point[]) => {
+        const style = cableStyle(getCableType(cableTypeRef.current));
+        let preview = cablePreviewRef.current;
+        if (!preview) {
+          preview = new CableRun(points, {
+            ...style,
+            selectable: false,
+            evented: false,
+            excludeFromExport: true,
+          });
+          (preview as any).name = MARKER_NAME;
+          cablePreviewRef.current = preview;
+          canvas.add(preview);
+        } else {
+          preview.set(style);
+          setWorldPoints(preview, points);
+        }
+        updateRunLength(canvas, preview);
+        canvas.requestRenderAll();
+      };
+
+      const onMouseDownCable = (opt: any) => {
+        if (toolRef.current !== "cable" || isSpaceDownRef.current) return;
+        const { point, target } = cablePoint(opt);
+        if (target && !target.uid) target.uid = makeId();
+
+        const draft = cableDraftRef.current;
+        if (draft.points.length === 0) draft.startRef = target?.uid;
+        draft.endRef = target?.uid;
+        draft.points.push(point);
+        showCablePreview([...draft.points, point]);
+      };
+
+      const onMouseMoveCable = (opt: any) => {
+        if (toolRef.current !== "cable") return;
+        const draft = cableDraftRef.current;
+        if (draft.points.length === 0) return;
+        showCablePreview([...draft.points, cablePoint(opt).point]);
+      };
+
+      const onDblClickCable = () => {
+        if (toolRef.current === "cable") finishCable();
+      };
+
+      // Attached ends and labels follow their symbols
+      const onSymbolMoved = (opt: any) => {
+        if (!opt.target || isCableRun(opt.target)) return;
+        followAttached(canvas, opt.target);
+      };
+
+      const onCalibrated = () => refreshCableRuns(canvas);
+
+      canvas.on("mouse:down", onMouseDownCable);
+      canvas.on("mouse:move", onMouseMoveCable);
+      canvas.on("mouse:dblclick", onDblClickCable);
+      canvas.on("object:moving", onSymbolMoved);
+      canvas.on("object:modified", onSymbolMoved);
+      canvas.on("sheet:calibrated" as any, onCalibrated);
+
+      // ---- Notes and leaders ----
+      const startNote = (at: Point, leaderTip: Point | null) => {
+        const before = canvas.getObjects().slice();
+        const note: any = createNote("", at, textStyleRef.current);
+        note.uid = makeId();
+        note.layer = activeLayerRef.current;
+        canvas.add(note);
+        if (leaderTip) canvas.add(createLeader(leaderTip, note));
+        pendingNoteRef.current = { note, before };
+        setTool("select");
+        canvas.setActiveObject(note);
+        note.enterEditing();
+        canvas.requestRenderAll();
+      };
+
+      const onMouseDownText = (opt: any) => {
+        const tool = toolRef.current;
+        if ((tool !== "text" && tool !== "leader") || isSpaceDownRef.current) return;
+        const p = canvas.getScenePoint(opt.e);
+        if (tool === "text") {
+          startNote(p, null);
+          return;
+        }
+
+        // leader: the first click is the arrow tip, the second a note or a new one
+        const tip = leaderTipRef.current;
+        if (!tip) {
+          leaderTipRef.current = p;
+          const marker = new Circle({
+            left: p.x,
+            top: p.y,
+            radius: 4 / canvas.getZoom(),
+            fill: "#1a1a1a",
+            selectable: false,
+            evented: false,
+            excludeFromExport: true,
+          }) as any;
+          marker.name = MARKER_NAME;
+          canvas.add(marker);
+          canvas.requestRenderAll();
+          return;
+        }
+        leaderTipRef.current = null;
+        clearMarkers();
+
+        const note: any = canvas.getObjects().find((o) => isNote(o) && o.containsPoint(p));
+        if (!note) {
+          startNote(p, tip);
+          return;
+        }
+        if (!note.uid) note.uid = makeId();
+        const leader = createLeader(tip, note);
+        canvas.add(leader);
+        canvas.requestRenderAll();
+        setTool("select");
+        historyRef.current?.push(addEntry(canvas, leader, "Add leader"));
+      };
+
+      let editStart: Record<string, any> | null = null;
+      const onEditingEntered = (opt: any) => {
+        const t = opt.target;
+        editStart = isSymbolLabel(t) ? { text: t.text, labelAuto: t.labelAuto } : { text: t.text };
+      };
+
+      const onTextChanged = (opt: any) => syncLeaders(canvas, [opt.target]);
+
+      const onEditingExited = (opt: any) => {
+        const t: any = opt.target;
+        const start = editStart;
+        const pending = pendingNoteRef.current;
+        editStart = null;
+        pendingNoteRef.current = null;
+        const empty = !t.text.trim();
+
+        if (pending && pending.note === t) {
+          // a new note is only kept (and undoable) once it has some text
+          if (empty) {
+            canvas.remove(t, ...attachedTo(canvas, [t]));
+          } else {
+            historyRef.current?.push(
+              objectListEntry(canvas, pending.before, canvas.getObjects().slice(), "Add note")
+            );
+          }
+        } else if (empty) {
+          const before = canvas.getObjects().slice();
+          canvas.remove(t, ...attachedTo(canvas, [t]));
+          historyRef.current?.push(
+            objectListEntry(canvas, before, canvas.getObjects().slice(), "Delete")
+          );
+        } else if (start && t.text !== start.text) {
+          const after: Record<string, any> = { text: t.text };
+          if (isSymbolLabel(t)) {
+            t.labelAuto = false;
+            after.labelAuto = false;
+          }
+          historyRef.current?.push(transformEntry(canvas, t, start, after, "Edit text"));
+        }
+        canvas.requestRenderAll();
+      };
+
+      canvas.on("mouse:down", onMouseDownText);
+      canvas.on("text:editing:entered", onEditingEntered);
+      canvas.on("text:changed", onTextChanged);
+      canvas.on("text:editing:exited", onEditingExited);
+
+      // ---- Calibration point picking ----
+      const onMouseDownCalibrate = (opt: any) => {
+        if (toolRef.current !== "calibrate" || isSpaceDownRef.current) return;
+        const p = canvas.getScenePoint(opt.e);
+        const points = [...calPointsRef.current, p];
+        calPointsRef.current = points;
+
+        const r = 5 / canvas.getZoom();
+        const marker = new Circle({
+          left: p.x,
+          top: p.y,
+          radius: r,
+          fill: "#e53935",
+          selectable: false,
+          evented: false,
+          excludeFromExport: true,
+        }) as any;
+        marker.name = MARKER_NAME;
+        canvas.add(marker);
+
+        if (points.length === 2) {
+          const [a, b] = points;
+          const line = new Line([a.x, a.y, b.x, b.y], {
+            stroke: "#e53935",
+            strokeWidth: 2 / canvas.getZoom(),
+            strokeDashArray: [8 / canvas.getZoom(), 6 / canvas.getZoom()],
+            selectable: false,
+            evented: false,
+            excludeFromExport: true,
+          }) as any;
+          line.name = MARKER_NAME;
+          canvas.add(line);
+
+          setCalMeasuredPx(Math.hypot(b.x - a.x, b.y - a.y));
+          setTool("select");
+          setCalDialogOpen(true);
+        }
+        canvas.requestRenderAll();
+      };
+
+      canvas.on("mouse:down", onMouseDownCalibrate);
+
+      // ---- Underlay info (page picker label) + calibration + paper ----
+      const syncUnderlayInfo = () => {
+        const pdf: any = canvas.getObjects().find((o: any) => o?.name === PDF_NAME);
+        setUnderlayInfo(
+          pdf && pdf.sourcePage
+            ? {
+                fileName: pdf.sourceFile ?? "",
+                page: pdf.sourcePage,
+                pageCount: pdf.sourcePageCount ?? 1,
+              }
+            : null
+        );
+        setCalibrationState(getCalibration(canvas));
+        setPaperState(getPaper(canvas));
+      };
+
+      const onSheetLoaded = () => {
+        // opening another document lets go of the PDF the last one was using
+        setPdfSource((source) => (source && getOpenedPdfBytes(source.hash) ? source : null));
+
+        // re-frame when the sheet just opened is on different paper
+        const page = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+        if (!page) return;
+        const { width, height } = getPageBounds(page);
+        if (`${width}x${height}` !== framedPageRef.current) fitToPage();
+      };
+
+      canvas.on("object:added", syncUnderlayInfo);
+      canvas.on("object:removed", syncUnderlayInfo);
+      canvas.on("sheet:calibrated" as any, syncUnderlayInfo);
+      canvas.on("sheet:paper" as any, syncUnderlayInfo);
+      canvas.on("sheet:loaded" as any, onSheetLoaded);
+
+      const detachLegendUpdater = attachLegendUpdater(canvas);
+
       // ---- Wheel zoom ----
       const handleWheelZoom = (event: any) => {
         const e = event.e as WheelEvent;
@@ -297,7 +1176,8 @@ const CanvasComponent: React.FC = () => {
 
       // ---- Pan ----
       const handleMouseDownPan = (event: any) => {
-        if (event.target && !isSpaceDownRef.current) return;
+        const toolActive = toolRef.current !== "select";
+        if ((event.target || toolActive) && !isSpaceDownRef.current) return;
         const e = event.e as MouseEvent;
         canvas.isDragging = true;
         canvas.selection = false;
@@ -318,9 +1198,10 @@ const CanvasComponent: React.FC = () => {
       };
 
       const handleMouseUpPan = () => {
+        if (!canvas.isDragging) return;
         canvas.isDragging = false;
-        canvas.selection = true;
-        canvas.defaultCursor = "default";
+        canvas.selection = toolRef.current === "select";
+        canvas.defaultCursor = toolRef.current === "select" ? "default" : "crosshair";
       };
 
       canvas.on("mouse:wheel", handleWheelZoom);
@@ -339,7 +1220,8 @@ const CanvasComponent: React.FC = () => {
       const onDrop = async (e: DragEvent) => {
         e.preventDefault();
         e.stopPropagation();
-        const src = e.dataTransfer?.getData("text/plain");
+        const symbol = getSymbol(e.dataTransfer?.getData(SYMBOL_MIME));
+        const src = symbol?.src ?? e.dataTransfer?.getData("text/plain");
         if (!src) return;
 
         const rect = upper.getBoundingClientRect();
@@ -350,33 +1232,76 @@ const CanvasComponent: React.FC = () => {
         const inv = fabricUtil.invertTransform(vpt);
         const world = fabricUtil.transformPoint(new Point(domX, domY), inv);
 
-        const img = await FabricImage.fromURL(src, { crossOrigin: "anonymous" });
-        const scale = 30 / (img.width || 1);
-        img.scale(scale);
-        img.set({
+        const page = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+        if (gridRef.current.snap && page && !e.altKey) {
+          const { left, top } = getPageBounds(page);
+          const pitch = gridPitch();
+          world.setXY(snapToGrid(world.x, pitch, left), snapToGrid(world.y, pitch, top));
+        }
+
+        const icon = await createSymbolObject(src);
+        // Catalogue symbols print at their real size; anything else keeps the old 30px
+        const targetW = symbol ? mmToPx(symbol.sizeMm) : 30;
+        icon.scale(targetW / (icon.width || 1));
+        icon.set({
           left: world.x,
           top: world.y,
+          originX: symbol?.anchor.x ?? "center",
+          originY: symbol?.anchor.y ?? "center",
           selectable: true,
           evented: true,
           hasBorders: false,
           hasControls: false,
         });
+        (icon as any).symbolId = symbol?.id;
+        (icon as any).uid = makeId();
+        (icon as any).layer = activeLayerRef.current;
 
-        canvas.add(img);
-        canvas.setActiveObject(img);
+        canvas.add(icon);
+        canvas.setActiveObject(icon);
         canvas.requestRenderAll();
+        historyRef.current?.push(addEntry(canvas, icon, "Add symbol"));
       };
 
       upper.addEventListener("dragover", onDragOver);
       upper.addEventListener("drop", onDrop);
 
       // Store cleanup fn
+      onReadyRef.current?.(canvas);
+
       (canvas as any).__cleanup = () => {
         upper.removeEventListener("dragover", onDragOver);
         upper.removeEventListener("drop", onDrop);
         canvas.off("mouse:down", onMouseDownRotate);
         canvas.off("mouse:move", onMouseMoveRotate);
         canvas.off("mouse:up", onMouseUpRotate);
+        canvas.off("object:moving", onObjectMovingSnap);
+        canvas.off("mouse:up", clearGuides);
+        canvas.off("after:render", onAfterRender);
+        canvas.off("mouse:move", onPointerMove);
+        canvas.off("mouse:out", onPointerOut);
+        canvas.off("selection:created", onSelectionChanged);
+        canvas.off("selection:updated", onSelectionChanged);
+        canvas.off("selection:cleared", onSelectionCleared);
+        canvas.off("before:transform", onBeforeTransform);
+        canvas.off("object:modified", onObjectModified);
+        canvas.off("mouse:down", onMouseDownCable);
+        canvas.off("mouse:move", onMouseMoveCable);
+        canvas.off("mouse:dblclick", onDblClickCable);
+        canvas.off("object:moving", onSymbolMoved);
+        canvas.off("object:modified", onSymbolMoved);
+        canvas.off("sheet:calibrated" as any, onCalibrated);
+        canvas.off("mouse:down", onMouseDownText);
+        canvas.off("text:editing:entered", onEditingEntered);
+        canvas.off("text:changed", onTextChanged);
+        canvas.off("text:editing:exited", onEditingExited);
+        canvas.off("object:added", syncUnderlayInfo);
+        canvas.off("object:removed", syncUnderlayInfo);
+        canvas.off("sheet:calibrated" as any, syncUnderlayInfo);
+        canvas.off("sheet:paper" as any, syncUnderlayInfo);
+        canvas.off("sheet:loaded" as any, onSheetLoaded);
+        canvas.off("mouse:down", onMouseDownCalibrate);
+        detachLegendUpdater();
         canvas.off("mouse:wheel", handleWheelZoom);
         canvas.off("mouse:down", handleMouseDownPan);
         canvas.off("mouse:move", handleMouseMovePan);
@@ -384,6 +1309,7 @@ const CanvasComponent: React.FC = () => {
         canvas.dispose();
         fabricCanvas.current = null;
         (window as any).__fabricCanvas = null;
+        (window as any).__canvasHistory = null;
         el.remove();
       };
     }, 0);
@@ -395,80 +1321,294 @@ const CanvasComponent: React.FC = () => {
         (canvas as any).__cleanup();
       }
     };
-  }, [MIN_ZOOM, MAX_ZOOM, fitToA3Page]);
+  }, [MIN_ZOOM, MAX_ZOOM, fitToPage, finishCable, clearMarkers]);
+
+  // ---- PDF underlay ----
+  const placeUnderlayPage = useCallback(
+    async (source: PdfSource, pageNumber: number) => {
+      const canvas = fabricCanvas.current;
+      if (!canvas) return;
+
+      const page = getPageRect();
+      if (!page) return;
+      const bounds = getPageBounds(page);
+      const { dpi } = getPaper(canvas);
+
+      try {
+        // Rasterise at the sheet's DPI for the size the page will be drawn at
+        const pdfPage = await source.doc.getPage(pageNumber);
+        const { width: ptW, height: ptH } = pdfPage.getViewport({ scale: 1 });
+        const scale = Math.min(
+          fitInto(ptW, ptH, bounds).scale * (dpi / DPI),
+          MAX_UNDERLAY_PX / Math.max(ptW, ptH)
+        );
+        const dataUrl = await renderPdfPage(source.doc, pageNumber, { scale });
+        const pdfImage = await FabricImage.fromURL(dataUrl, {
+          crossOrigin: "anonymous",
+        });
+
+        const before = canvas.getObjects().slice();
+
+        const oldPdf = getPdfObj();
+        if (oldPdf) canvas.remove(oldPdf);
+
+        (pdfImage as any).name = PDF_NAME;
+        (pdfImage as any).sourceFile = source.fileName;
+        (pdfImage as any).sourceHash = source.hash;
+        (pdfImage as any).sourcePage = pageNumber;
+        (pdfImage as any).sourcePageCount = source.doc.numPages;
+        (pdfImage as any).sourcePtWidth = ptW;
+        pdfImage.selectable = false;
+        pdfImage.evented = false;
+
+        const fit = fitInto(pdfImage.width, pdfImage.height, bounds);
+        pdfImage.scale(fit.scale);
+        pdfImage.set({ originX: "left", originY: "top", left: fit.left, top: fit.top });
+
+        // Page rect at the bottom, underlay directly above it, symbols on top
+        canvas.sendObjectToBack(page);
+        canvas.insertAt(1, pdfImage);
+
+        // uncalibrated lengths are measured against the underlay's paper size
+        refreshCableRuns(canvas);
+        canvas.requestRenderAll();
+        historyRef.current?.push(
+          objectListEntry(canvas, before, canvas.getObjects().slice(), "Replace underlay")
+        );
+        fitToPage();
+      } catch (err) {
+        console.error(err);
+        alert("Failed to render that PDF page.");
+      }
+    },
+    [getPageRect, getPdfObj, fitToPage]
+  );
 
-  // PDF upload
   const handlePdfUpload = async (
     event: React.ChangeEvent<HTMLInputElement>
   ) => {
-    const canvas = fabricCanvas.current;
-    if (!canvas) return;
-
     const file = event.target.files?.[0];
+    event.target.value = "";
     if (!file || file.type !== "application/pdf") {
       alert("Please upload a valid PDF file.");
       return;
     }
 
     try {
-      const pdfData = await file.arrayBuffer();
-      const pdfDoc = await pdfjsLib.getDocument({ data: pdfData }).promise;
-      const page = await pdfDoc.getPage(1);
-
-      const viewport = page.getViewport({ scale: 2 });
-      const pdfCanvas = document.createElement("canvas");
-      const ctx = pdfCanvas.getContext("2d");
-      if (!ctx) throw new Error("No PDF canvas context");
-
-      pdfCanvas.width = viewport.width;
-      pdfCanvas.height = viewport.height;
-      await page
-        .render({ canvasContext: ctx, viewport, canvas: pdfCanvas } as any)
-        .promise;
-
-      const dataUrl = pdfCanvas.toDataURL("image/png");
-      const pdfImage = await FabricImage.fromURL(dataUrl, {
-        crossOrigin: "anonymous",
-      });
+      const source = await openPdf(file);
+      setPdfSource(source);
+      if (source.doc.numPages === 1) {
+        await placeUnderlayPage(source, 1);
+      } else {
+        setPickerOpen(true);
+      }
+    } catch (err) {
+      console.error(err);
+      alert("Failed to upload PDF.");
+    }
+  };
 
-      const oldPdf = getPdfObj();
-      if (oldPdf) canvas.remove(oldPdf);
+  // One legend per sheet, placed in the top-right corner of the page
+  const handleAddLegend = async () => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
 
-      (pdfImage as any).name = PDF_NAME;
-      pdfImage.selectable = false;
-      pdfImage.evented = false;
+    const existing = canvas.getObjects().find(isLegend);
+    if (existing) {
+      canvas.setActiveObject(existing);
+      canvas.requestRenderAll();
+      return;
+    }
 
-      const s = Math.min(
-        A3_W_PX / (pdfImage.width || 1),
-        A3_H_PX / (pdfImage.height || 1)
-      );
-      pdfImage.scale(s);
-      pdfImage.set({
-        left: (A3_W_PX - pdfImage.getScaledWidth()) / 2,
-        top: (A3_H_PX - pdfImage.getScaledHeight()) / 2,
-      });
+    const page = getPageRect();
+    if (!page) return;
 
-      const pageRect: any = getPageRect();
-      if (pageRect) {
-        canvas.remove(pageRect);
-        canvas.add(pageRect);
-      }
+    const bounds = getPageBounds(page);
+    const margin = mmToPx(10);
+    const legend = await createLegend(canvas, 0, bounds.top + margin);
+    legend.set({ left: bounds.left + bounds.width - margin - legend.getScaledWidth() });
+    (legend as any).layer = activeLayerRef.current;
+    legend.setCoords();
 
-      canvas.add(pdfImage);
+    canvas.add(legend);
+    canvas.setActiveObject(legend);
+    canvas.requestRenderAll();
+    historyRef.current?.push(addEntry(canvas, legend, "Add legend"));
+  };
+
+  // ---- Selection commands ----
+  const handleArray = async ({ rows, cols, spacingXMm, spacingYMm }: ArraySpec) => {
+    setArrayOpen(false);
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const originals = getSelectedObjects(canvas);
+    const clip = await copyObjects(originals);
+    if (!clip) return;
+
+    const cal = getCalibration(canvas);
+    const toPx = (mm: number) => (cal ? mmToWorldPx(mm, cal) : mmToPx(mm));
+    await placeCopies(
+      clip,
+      arrayOffsets(rows, cols, toPx(spacingXMm), toPx(spacingYMm)),
+      "Array",
+      originals
+    );
+  };
+
+  /** New text takes the style; so do the selected notes and labels, as one undo step */
+  const handleTextStyleChange = (patch: Partial<TextStyle>) => {
+    const next = { ...textStyle, ...patch };
+    setTextStyle(next);
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const targets: any[] = getSelectedObjects(canvas).filter(isAnnotationText);
+    if (targets.length === 0) return;
+
+    const before = targets.map((o) => ({ fontSize: o.fontSize, fontWeight: o.fontWeight }));
+    const after = targets.map(() => textStyleProps(next));
+    const apply = (props: Record<string, any>[]) => {
+      targets.forEach((o, i) => {
+        o.set(props[i]);
+        o.setCoords();
+      });
+      followAttached(canvas);
       canvas.requestRenderAll();
-      fitToA3Page();
-    } catch (err) {
-      console.error(err);
-      alert("Failed to upload PDF.");
-    }
+    };
+    apply(after);
+    historyRef.current?.push({
+      label: "Text style",
+      undo: () => apply(before),
+      redo: () => apply(after),
+    });
   };
 
-  const handleDragStart = (
-    event: React.DragEvent<HTMLImageElement>,
-    src: string
-  ) => {
-    event.dataTransfer.setData("text/plain", src);
-    event.dataTransfer.effectAllowed = "copy";
+  /** Label each selected symbol that doesn't have one yet */
+  const handleAddLabels = () => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const labelled = new Set(
+      canvas
+        .getObjects()
+        .filter(isSymbolLabel)
+        .map((l: any) => l.labelFor)
+    );
+    const symbols: any[] = getSelectedObjects(canvas).filter(
+      (o: any) => symbolIdOf(o) && !(o.uid && labelled.has(o.uid))
+    );
+    if (symbols.length === 0) return;
+
+    const before = canvas.getObjects().slice();
+    const labels = symbols.map((symbol) => {
+      if (!symbol.uid) symbol.uid = makeId();
+      // circuit details are filled in by the editor once the label is on the sheet
+      return createSymbolLabel(symbol, symbolLabelText(symbol, []), textStyleRef.current);
+    });
+    canvas.add(...labels);
+    canvas.requestRenderAll();
+    historyRef.current?.push(
+      objectListEntry(canvas, before, canvas.getObjects().slice(), "Add label")
+    );
+  };
+
+  /** Apply a bulk operation to the selection as one undo step */
+  const arrangeSelection = (label: string, fn: (objects: FabricObject[]) => void) => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+    const objects = getSelectedObjects(canvas);
+    if (objects.length === 0) return;
+
+    const before = worldMatrices(objects);
+    editSelection(canvas, fn);
+    followAttached(canvas);
+    historyRef.current?.push(
+      placementEntry(canvas, objects, before, worldMatrices(objects), label)
+    );
+  };
+
+  const handleAlign = (edge: AlignEdge) =>
+    arrangeSelection("Align", (objects) => alignObjects(objects, edge));
+
+  const handleDistribute = (axis: "x" | "y") =>
+    arrangeSelection("Distribute", (objects) => distributeObjects(objects, axis));
+
+  // Paper is per sheet; markup moves with the underlay (see applyPaper)
+  const handlePaperChange = (patch: Partial<Paper>) => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+
+    const before = getPaper(canvas);
+    const after = { ...before, ...patch };
+    canvas.discardActiveObject();
+    applyPaper(canvas, after);
+    fitToPage();
+    historyRef.current?.push({
+      label: "Change paper",
+      undo: () => applyPaper(canvas, before),
+      redo: () => applyPaper(canvas, after),
+    });
+  };
+
+  // Sets the type for new runs and re-types the selected run, if any
+  const handleCableTypeChange = (id: string) => {
+    setCableType(id);
+    cableTypeRef.current = id;
+
+    const canvas = fabricCanvas.current;
+    const run = canvas?.getActiveObject();
+    if (!canvas || !isCableRun(run) || run.cableType === id) return;
+
+    const before = { cableType: run.cableType, ...cableStyle(getCableType(run.cableType)) };
+    const after = { cableType: id, ...cableStyle(getCableType(id)) };
+    run.set(after);
+    canvas.requestRenderAll();
+    historyRef.current?.push(transformEntry(canvas, run, before, after, "Change cable type"));
+  };
+
+  // ---- Calibration ----
+  const startCalibrationPick = () => {
+    calPointsRef.current = [];
+    clearMarkers();
+    setCalMeasuredPx(null);
+    setCalDialogOpen(false);
+    setTool("calibrate");
+  };
+
+  const closeCalibration = () => {
+    calPointsRef.current = [];
+    clearMarkers();
+    setCalMeasuredPx(null);
+    setCalDialogOpen(false);
+  };
+
+  const applyCalibration = (next: Calibration | null) => {
+    const canvas = fabricCanvas.current;
+    if (!canvas) return;
+
+    const prev = getCalibration(canvas);
+    setCalibration(canvas, next);
+    historyRef.current?.push({
+      label: "Calibrate",
+      undo: () => setCalibration(canvas, prev),
+      redo: () => setCalibration(canvas, next),
+    });
+    closeCalibration();
+  };
+
+  const handlePickPage = async (pageNumber: number) => {
+    setPickerOpen(false);
+    if (!pdfSource) return;
+    await placeUnderlayPage(pdfSource, pageNumber);
+  };
+
+  // The original PDF is only held in memory, so after a reload the user
+  // has to pick the file again before switching pages.
+  const handleChangePage = () => {
+    if (pdfSource && getOpenedPdfBytes(pdfSource.hash)) {
+      setPickerOpen(true);
+    } else {
+      setPdfSource(null);
+      pdfInputRef.current?.click();
+    }
   };
 
   // Toolbar drag
@@ -510,18 +1650,313 @@ const CanvasComponent: React.FC = () => {
     <div style={styles.page}>
       <div style={styles.uploadSection}>
         <input
+          ref={pdfInputRef}
           type="file"
           accept="application/pdf"
           onChange={handlePdfUpload}
           style={styles.uploadInput}
         />
+        <button
+          type="button"
+          style={styles.toolBtn}
+          onClick={handleChangePage}
+          title={
+            pdfSource
+              ? "Pick a different page of the loaded PDF"
+              : "Select the PDF again to pick a different page"
+          }
+        >
+          {underlayInfo
+            ? `Page ${underlayInfo.page} of ${underlayInfo.pageCount} ▾`
+            : "Choose page ▾"}
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(historyState.canUndo ? null : styles.toolBtnOff) }}
+          onClick={undo}
+          disabled={!historyState.canUndo}
+          title="Undo (Ctrl+Z)"
+        >
+          ↶ Undo
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(historyState.canRedo ? null : styles.toolBtnOff) }}
+          onClick={redo}
+          disabled={!historyState.canRedo}
+          title="Redo (Ctrl+Shift+Z)"
+        >
+          ↷ Redo
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(tool === "calibrate" ? styles.toolBtnOn : null) }}
+          onClick={() => {
+            closeCalibration();
+            setTool("select");
+            setCalDialogOpen(true);
+          }}
+          title="Set the drawing scale from two points or the printed scale"
+        >
+          📏 {describeCalibration(calibration)}
+        </button>
+        <select
+          value={paper.size}
+          onChange={(e) => handlePaperChange({ size: e.target.value as PaperSize })}
+          style={styles.toolSelect}
+          title="Paper size of this sheet"
+        >
+          {PAPER_SIZES.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.id}
+            </option>
+          ))}
+        </select>
+        <select
+          value={paper.orientation}
+          onChange={(e) => handlePaperChange({ orientation: e.target.value as Orientation })}
+          style={styles.toolSelect}
+          title="Orientation of this sheet"
+        >
+          <option value="landscape">Landscape</option>
+          <option value="portrait">Portrait</option>
+        </select>
+        <select
+          value={paper.dpi}
+          onChange={(e) => handlePaperChange({ dpi: Number(e.target.value) })}
+          style={styles.toolSelect}
+          title="Resolution of PNG/JPEG exports and of the underlay when it is next placed"
+        >
+          {DPI_CHOICES.map((dpi) => (
+            <option key={dpi} value={dpi}>
+              {dpi} DPI
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(tool === "cable" ? styles.toolBtnOn : null) }}
+          onClick={() => setTool((t) => (t === "cable" ? "select" : "cable"))}
+          title="Draw a cable run: click to add points, double-click or Enter to finish"
+        >
+          〰 Cable
+        </button>
+        <select
+          value={cableType}
+          onChange={(e) => handleCableTypeChange(e.target.value)}
+          style={styles.toolSelect}
+          title="Cable type for new runs (also changes the selected run)"
+        >
+          {CABLE_TYPES.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(tool === "text" ? styles.toolBtnOn : null) }}
+          onClick={() => setTool((t) => (t === "text" ? "select" : "text"))}
+          title="Add a note: click where it goes, then type"
+        >
+          T Text
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(tool === "leader" ? styles.toolBtnOn : null) }}
+          onClick={() => setTool((t) => (t === "leader" ? "select" : "leader"))}
+          title="Leader arrow: click the point, then a note (or empty space for a new note)"
+        >
+          ↖ Leader
+        </button>
+        <select
+          value={textStyle.sizeMm}
+          onChange={(e) => handleTextStyleChange({ sizeMm: Number(e.target.value) })}
+          style={styles.toolSelect}
+          title="Text height for new notes (also changes the selected text)"
+        >
+          {(TEXT_SIZES_MM.includes(textStyle.sizeMm)
+            ? TEXT_SIZES_MM
+            : [...TEXT_SIZES_MM, textStyle.sizeMm].sort((a, b) => a - b)
+          ).map((mm) => (
+            <option key={mm} value={mm}>
+              {mm} mm
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          style={{
+            ...styles.toolBtn,
+            fontWeight: 900,
+            ...(textStyle.bold ? styles.toolBtnOn : null),
+          }}
+          onClick={() => handleTextStyleChange({ bold: !textStyle.bold })}
+          title="Bold text for new notes (also changes the selected text)"
+        >
+          B
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(selectionCount > 0 ? null : styles.toolBtnOff) }}
+          onClick={handleAddLabels}
+          disabled={selectionCount === 0}
+          title="Label the selected symbols; the label moves and turns with its symbol"
+        >
+          🏷 Label
+        </button>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(grid.visible ? styles.toolBtnOn : null) }}
+          onClick={() => setGrid((g) => ({ ...g, visible: !g.visible }))}
+          title="Show the grid over the page"
+        >
+          ▦ Grid
+        </button>
+        <input
+          type="number"
+          min={1}
+          value={calibration ? grid.realMm : grid.paperMm}
+          onChange={(e) => {
+            const mm = Number(e.target.value);
+            if (!(mm > 0)) return;
+            setGrid((g) => (calibration ? { ...g, realMm: mm } : { ...g, paperMm: mm }));
+          }}
+          style={styles.toolInput}
+          title={
+            calibration
+              ? "Grid pitch in real mm (sheet is calibrated)"
+              : "Grid pitch in printed mm (calibrate the sheet to use real mm)"
+          }
+        />
+        <select
+          value={`${grid.snap ? "grid" : ""}${grid.objectSnap ? "objects" : ""}`}
+          onChange={(e) =>
+            setGrid((g) => ({
+              ...g,
+              snap: e.target.value.includes("grid"),
+              objectSnap: e.target.value.includes("objects"),
+            }))
+          }
+          style={styles.toolSelect}
+          title="Snapping while dragging and dropping symbols (hold Alt to bypass)"
+        >
+          <option value="gridobjects">Snap: grid + symbols</option>
+          <option value="grid">Snap: grid</option>
+          <option value="objects">Snap: symbols</option>
+          <option value="">Snap: off</option>
+        </select>
+        <button
+          type="button"
+          style={{ ...styles.toolBtn, ...(selectionCount > 0 ? null : styles.toolBtnOff) }}
+          onClick={() => setArrayOpen(true)}
+          disabled={selectionCount === 0}
+          title="Repeat the selection in rows and columns"
+        >
+          ⊞ Array…
+        </button>
+        <button
+          type="button"
+          style={styles.toolBtn}
+          onClick={handleAddLegend}
+          title="Place a symbol legend on the page"
+        >
+          + Legend
+        </button>
         <label style={styles.uploadLabel}>
-          Click icon to rotate 90°. Shift+Click rotates backwards. Drag to
-          move. (Hold Space to pan anywhere)
+          Click icon to rotate 90°. Ctrl+Click rotates backwards. Drag to
+          move; drag a box or Shift+Click to select several. (Hold Space to
+          pan anywhere) Ctrl+Z undo, Ctrl+Shift+Z redo. Ctrl+C / Ctrl+V copy
+          and paste at the cursor, Ctrl+D duplicates.
+          Cable runs snap to symbols; Esc drops the run being drawn. Hold Alt
+          while dragging or dropping to place without snapping. Click a
+          selected note or label to edit its text.
         </label>
+
+        {selectionCount > 1 && (
+          <div style={styles.selectionBar}>
+            <span style={styles.selectionCount}>{selectionCount} selected</span>
+            {ALIGN_BUTTONS.map(({ edge, label, title }) => (
+              <button
+                key={edge}
+                type="button"
+                style={styles.toolBtn}
+                onClick={() => handleAlign(edge)}
+                title={title}
+              >
+                {label}
+              </button>
+            ))}
+            <button
+              type="button"
+              style={{ ...styles.toolBtn, ...(selectionCount > 2 ? null : styles.toolBtnOff) }}
+              onClick={() => handleDistribute("x")}
+              disabled={selectionCount < 3}
+              title="Space centres evenly left to right"
+            >
+              ↔ Distribute
+            </button>
+            <button
+              type="button"
+              style={{ ...styles.toolBtn, ...(selectionCount > 2 ? null : styles.toolBtnOff) }}
+              onClick={() => handleDistribute("y")}
+              disabled={selectionCount < 3}
+              title="Space centres evenly top to bottom"
+            >
+              ↕ Distribute
+            </button>
+            <button
+              type="button"
+              style={styles.toolBtn}
+              onClick={() => arrangeSelection("Rotate", (objs) => rotateObjects(objs, 90))}
+              title="Rotate the selection 90° clockwise"
+            >
+              ⟳ 90°
+            </button>
+            <button
+              type="button"
+              style={styles.toolBtnDanger}
+              onClick={deleteSelection}
+              title="Delete the selected objects (Del)"
+            >
+              Delete
+            </button>
+          </div>
+        )}
       </div>
 
       <div style={styles.workspace}>
+        {pickerOpen && pdfSource && (
+          <PdfPagePicker
+            source={pdfSource}
+            currentPage={
+              underlayInfo?.fileName === pdfSource.fileName ? underlayInfo.page : null
+            }
+            onPick={handlePickPage}
+            onCancel={() => setPickerOpen(false)}
+          />
+        )}
+
+        {calDialogOpen && fabricCanvas.current && (
+          <CalibrationDialog
+            current={calibration}
+            measuredPx={calMeasuredPx}
+            paperMmPerPx={paperMmPerPx(fabricCanvas.current)}
+            onPickPoints={startCalibrationPick}
+            onApply={applyCalibration}
+            onClear={() => applyCalibration(null)}
+            onCancel={closeCalibration}
+          />
+        )}
+
+        {arrayOpen && (
+          <ArrayDialog
+            calibrated={!!calibration}
+            onApply={handleArray}
+            onCancel={() => setArrayOpen(false)}
+          />
+        )}
+
         {/* Sidebar */}
         <div style={styles.iconsContainer}>
           <button
@@ -539,17 +1974,7 @@ const CanvasComponent: React.FC = () => {
             <span style={styles.navToggleText}>Nav</span>
           </button>
           <div style={{ height: 8 }} />
-          {images.map((src, i) => (
-            <img
-              key={i}
-              src={src}
-              draggable
-              onDragStart={(e) => handleDragStart(e, src)}
-              style={styles.icon}
-              alt={`Icon ${i}`}
-              title="Drag onto page"
-            />
-          ))}
+          <SymbolPalette />
         </div>
 
         {/* Canvas area */}
@@ -613,7 +2038,7 @@ const CanvasComponent: React.FC = () => {
                     <button
                       type="button"
                       style={styles.btnSmall}
-                      onClick={fitToA3Page}
+                      onClick={fitToPage}
                     >
                       Fit
                     </button>
@@ -668,6 +2093,73 @@ const styles: Record<string, React.CSSProperties> = {
     fontWeight: 500,
     cursor: "pointer",
   },
+  toolBtn: {
+    height: 38,
+    marginLeft: 8,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+    boxShadow: "0 2px 4px rgba(0,0,0,0.2)",
+  },
+  toolBtnOn: {
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    borderColor: "#4d6a90",
+    color: "#ffffff",
+  },
+  toolBtnOff: {
+    opacity: 0.45,
+    cursor: "default",
+  },
+  toolSelect: {
+    height: 38,
+    marginLeft: 8,
+    padding: "0 8px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: "pointer",
+  },
+  toolInput: {
+    width: 64,
+    height: 38,
+    marginLeft: 8,
+    padding: "0 8px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    fontSize: 13,
+    fontWeight: 600,
+    outline: "none",
+    boxSizing: "border-box",
+  },
+  selectionBar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    marginTop: 10,
+  },
+  selectionCount: { fontSize: 12, color: "#a0a0a0", fontWeight: 600 },
+  toolBtnDanger: {
+    height: 38,
+    marginLeft: 8,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #8d4d4d",
+    background: "#3d2d2d",
+    color: "#ff6b6b",
+    cursor: "pointer",
+    fontSize: 13,
+    fontWeight: 600,
+  },
   uploadLabel: {
     fontSize: 12,
     color: "#a0a0a0",
@@ -689,14 +2181,14 @@ const styles: Record<string, React.CSSProperties> = {
   },
 
   iconsContainer: {
-    width: 72,
-    padding: "16px 8px",
+    width: 190,
+    padding: "16px 10px",
     background: "#252525",
     borderRight: "1px solid #3d3d3d",
     display: "flex",
     flexDirection: "column",
     gap: 12,
-    alignItems: "center",
+    alignItems: "stretch",
     flexShrink: 0,
     boxShadow: "2px 0 8px rgba(0,0,0,0.3)",
   },
@@ -736,19 +2228,6 @@ const styles: Record<string, React.CSSProperties> = {
   },
   navToggleText: { fontSize: 11, letterSpacing: 0.5, fontWeight: 700 },
 
-  icon: {
-    width: 52,
-    height: 52,
-    cursor: "pointer",
-    border: "1px solid #4d4d4d",
-    borderRadius: 8,
-    padding: 8,
-    background: "#3d3d3d",
-    boxShadow: "0 2px 4px rgba(0,0,0,0.3)",
-    transition: "all 0.2s ease",
-    filter: "brightness(1.4) contrast(1.2)",
-  },
-
   canvasWrap: {
     position: "relative",
     width: "100%",
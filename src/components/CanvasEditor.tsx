@@ -1,65 +1,109 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import CanvasComponent from "./Canvas";
-import { Canvas } from "fabric";
+import { Canvas, StaticCanvas } from "fabric";
+import { CanvasHistory } from "./history";
+import SheetTabs from "./SheetTabs";
+import SchedulePanel from "./SchedulePanel";
+import TitleBlockDialog from "./TitleBlockDialog";
+import { emptyTitleBlock, syncTitleBlock, TitleBlockFields } from "./titleBlock";
+import { buildSchedule, ScheduleRow, ScheduleSource, scheduleToCsv } from "./schedule";
+import CircuitsPanel from "./CircuitsPanel";
+import { attachedTo, refreshSymbolLabels } from "./annotations";
+import LayersPanel from "./LayersPanel";
+import RevisionsPanel from "./RevisionsPanel";
+import CompareDialog, { ComparePreview } from "./CompareDialog";
+import {
+  createRevision,
+  CURRENT_DRAWING,
+  ensureSymbolUids,
+  Revision,
+  revisionRows,
+} from "./revisions";
+import { countChanges, drawComparison, SymbolChange } from "./compare";
+import PropertiesPanel, { SelectedSymbol } from "./PropertiesPanel";
+import { getSymbolProperties, setSymbolProperties, SymbolProperties } from "./symbolProperties";
+import { getSymbol, symbolIdOf } from "./symbols";
+import {
+  applyLayers,
+  assignLayer,
+  createLayer,
+  DEFAULT_LAYERS,
+  GENERAL_LAYER,
+  Layer,
+  layerOf,
+  withPrintedLayers,
+} from "./layers";
+import {
+  applyCircuitStyling,
+  assignCircuit,
+  buildBoardRows,
+  Circuit,
+  createCircuit,
+  isCircuitTarget,
+} from "./circuits";
+import {
+  createBoardSchedule,
+  isBoardSchedule,
+  refreshBoardSchedules,
+} from "./boardSchedule";
+import { getPageBounds, mmToPx, PAGE_NAME } from "./page";
+import {
+  createSheet,
+  docFingerprint,
+  DOC_VERSION,
+  getUnderlayRef,
+  loadCanvasJson,
+  makeId,
+  pageToDataUrl,
+  SavedDoc,
+  serializeCanvas,
+  Sheet,
+  withSheetCanvas,
+} from "./document";
+import {
+  clearSession,
+  deleteDoc,
+  DocSummary,
+  formatBytes,
+  listDocs,
+  loadDoc,
+  loadSession,
+  migrateLocalDocs,
+  saveDoc,
+  saveSession,
+  storageUsage,
+  StorageUsage,
+  StoredContent,
+} from "./docStore";
+import { downloadBlob, downloadDataUrl, downloadJson } from "./download";
+import { forgetOpenedPdfs, getOpenedPdfBytes, rememberPdfBytes } from "./pdf";
+import { parseDoc } from "./schema";
+import { createVectorPdf } from "./vectorPdf";
+import { pageToSvg } from "./svgExport";
+import { sheetToDxf } from "./dxf";
 
 declare global {
   interface Window {
     __fabricCanvas?: Canvas | null;
+    __canvasHistory?: CanvasHistory | null;
   }
 }
 
-type SavedDoc = {
-  version: 1;
-  name: string;
-  savedAt: string;
-  fabricJson: any;
-};
-
-const LS_KEY = "rjded:savedDocs:v1";
-const EXTRA_PROPS = ["selectable", "evented", "hasControls", "hasBorders"] as const;
-const PAGE_NAME = "A3_PAGE";
-
-function loadSavedDocs(): SavedDoc[] {
-  try {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed;
-  } catch {
-    return [];
-  }
-}
-
-function persistSavedDocs(docs: SavedDoc[]) {
-  localStorage.setItem(LS_KEY, JSON.stringify(docs));
-}
-
-function downloadBlob(filename: string, blob: Blob) {
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement("a");
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-  URL.revokeObjectURL(url);
-}
-
-function downloadDataUrl(filename: string, dataUrl: string) {
-  const a = document.createElement("a");
-  a.href = dataUrl;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  a.remove();
-}
-
-function downloadJson(filename: string, data: unknown) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], {
-    type: "application/json",
-  });
-  downloadBlob(filename, blob);
+// How often unsaved work is copied for crash recovery
+const AUTOSAVE_INTERVAL_MS = 10000;
+// Settling time before comparing the document with its saved state
+const DIRTY_CHECK_MS = 400;
+
+/** Live objects for the active sheet, stored JSON for the rest */
+function scheduleSources(
+  sheets: Sheet[],
+  activeSheetId: string,
+  canvas: Canvas
+): ScheduleSource[] {
+  return sheets.map((s) => ({
+    sheet: s.name,
+    objects: s.id === activeSheetId ? canvas.getObjects() : s.fabricJson?.objects ?? [],
+  }));
 }
 
 async function fileToText(file: File): Promise<string> {
@@ -67,12 +111,64 @@ async function fileToText(file: File): Promise<string> {
 }
 
 const CanvasEditor: React.FC = () => {
-  const [docs, setDocs] = useState<SavedDoc[]>(() => loadSavedDocs());
+  const [docs, setDocs] = useState<DocSummary[]>([]);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  // Saved document being edited; Save writes over it
+  const [currentDocId, setCurrentDocId] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [autosavedAt, setAutosavedAt] = useState<Date | null>(null);
+  // Whether a recovery copy from an earlier session has been offered yet
+  const [sessionChecked, setSessionChecked] = useState(false);
+  // Content as last saved or opened; null when it isn't saved anywhere
+  const cleanFingerprintRef = useRef<string | null>(null);
+  // Take the next fingerprint as the clean one, once a load has settled
+  const resetCleanRef = useRef(true);
+  const sessionFingerprintRef = useRef<string | null>(null);
+  // This render's document and handlers, for the timers and listeners below
+  const latestRef = useRef<{
+    buildDoc: (canvas: Canvas) => SavedDoc;
+    openStored: (stored: StoredContent, docId: string | null) => Promise<void>;
+    currentDocId: string | null;
+  } | null>(null);
   const [docName, setDocName] = useState("My Design");
+  const [sheets, setSheets] = useState<Sheet[]>(() => [createSheet("Sheet 1")]);
+  const [activeSheetId, setActiveSheetId] = useState<string>(() => sheets[0].id);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const [canvasReady, setCanvasReady] = useState(false);
 
   const [savedOpen, setSavedOpen] = useState(false);
 
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [scheduleRows, setScheduleRows] = useState<ScheduleRow[]>([]);
+
+  const [circuits, setCircuits] = useState<Circuit[]>([]);
+  const [circuitsOpen, setCircuitsOpen] = useState(false);
+  const [highlightCircuit, setHighlightCircuit] = useState<string | null>(null);
+  const [circuitPoints, setCircuitPoints] = useState<Map<string, number>>(new Map());
+  const [circuitSelection, setCircuitSelection] = useState({
+    count: 0,
+    circuitId: null as string | null,
+  });
+
+  const [layers, setLayers] = useState<Layer[]>(DEFAULT_LAYERS);
+  const [activeLayerId, setActiveLayerId] = useState(GENERAL_LAYER);
+  const [layersOpen, setLayersOpen] = useState(false);
+  const [layerSelectionCount, setLayerSelectionCount] = useState(0);
+
+  const [propertiesOpen, setPropertiesOpen] = useState(false);
+  const [selectedSymbol, setSelectedSymbol] = useState<SelectedSymbol | null>(null);
+  const [symbolSelectionCount, setSymbolSelectionCount] = useState(0);
+  const [rooms, setRooms] = useState<string[]>([]);
+
+  const [titleBlock, setTitleBlock] = useState<TitleBlockFields>(() => emptyTitleBlock());
+  const [titleBlockOpen, setTitleBlockOpen] = useState(false);
+
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [revisionTable, setRevisionTable] = useState(false);
+  const [revisionsOpen, setRevisionsOpen] = useState(false);
+  const [compare, setCompare] = useState<{ fromId: string; toId: string } | null>(null);
+
   const [exportOpen, setExportOpen] = useState(false);
   const exportMenuRef = useRef<HTMLDivElement | null>(null);
 
@@ -82,9 +178,336 @@ const CanvasEditor: React.FC = () => {
     document.body.style.padding = "0";
   }, []);
 
+  const refreshDocs = async () => {
+    setDocs(await listDocs());
+    setUsage(await storageUsage());
+  };
+
+  // Documents saved before IndexedDB move across on the first run
+  useEffect(() => {
+    migrateLocalDocs(getOpenedPdfBytes)
+      .then(({ skipped }) => {
+        if (skipped) {
+          alert(
+            `${skipped} older saved document${skipped === 1 ? "" : "s"} couldn't be read ` +
+              "and weren't moved into browser storage. They're still kept in this browser."
+          );
+        }
+      })
+      .catch((e) => {
+        console.error(e);
+        alert("Couldn't move older saved documents into browser storage.");
+      })
+      .then(refreshDocs)
+      .catch(console.error);
+  }, []);
+
+  // Offer back the work of a session that ended with unsaved changes
   useEffect(() => {
-    persistSavedDocs(docs);
-  }, [docs]);
+    if (!canvasReady || sessionChecked) return;
+
+    (async () => {
+      try {
+        const session = await loadSession();
+        if (session) {
+          const when = new Date(session.savedAt).toLocaleString();
+          if (window.confirm(`Restore unsaved changes to "${session.doc.name}" from ${when}?`)) {
+            await latestRef.current!.openStored(session, session.docId);
+            // restored work still needs saving
+            resetCleanRef.current = false;
+            cleanFingerprintRef.current = null;
+            setDirty(true);
+          } else {
+            await clearSession();
+          }
+        }
+      } catch (e) {
+        console.error(e);
+      }
+      setSessionChecked(true);
+    })();
+  }, [canvasReady, sessionChecked]);
+
+  // Compare the document with its saved state shortly after anything changes
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!canvas) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const check = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        const fingerprint = docFingerprint(latestRef.current!.buildDoc(canvas));
+        if (resetCleanRef.current) {
+          cleanFingerprintRef.current = fingerprint;
+          resetCleanRef.current = false;
+        }
+        setDirty(fingerprint !== cleanFingerprintRef.current);
+      }, DIRTY_CHECK_MS);
+    };
+    check();
+
+    const events = [
+      "object:added",
+      "object:removed",
+      "object:modified",
+      "text:changed",
+      "circuit:assigned",
+      "symbol:changed",
+      "layer:assigned",
+      "sheet:loaded",
+      "sheet:paper",
+      "sheet:calibrated",
+      "history:changed",
+    ];
+    events.forEach((e) => canvas.on(e as any, check));
+    return () => {
+      if (timer) clearTimeout(timer);
+      events.forEach((e) => canvas.off(e as any, check));
+    };
+  }, [
+    canvasReady,
+    docName,
+    sheets,
+    activeSheetId,
+    circuits,
+    titleBlock,
+    layers,
+    revisions,
+    revisionTable,
+  ]);
+
+  // Keep a recovery copy of unsaved work, and drop it once everything is saved
+  useEffect(() => {
+    if (!canvasReady || !sessionChecked) return;
+
+    let busy = false;
+    const timer = setInterval(async () => {
+      const canvas = window.__fabricCanvas;
+      if (!canvas || busy || resetCleanRef.current) return;
+
+      const doc = latestRef.current!.buildDoc(canvas);
+      const fingerprint = docFingerprint(doc);
+      const unsaved = fingerprint !== cleanFingerprintRef.current;
+      if (unsaved ? sessionFingerprintRef.current === fingerprint : !sessionFingerprintRef.current) {
+        return;
+      }
+
+      busy = true;
+      try {
+        if (unsaved) {
+          await saveSession(doc, latestRef.current!.currentDocId, getOpenedPdfBytes);
+          sessionFingerprintRef.current = fingerprint;
+          setAutosavedAt(new Date());
+        } else {
+          await clearSession();
+          sessionFingerprintRef.current = null;
+          setAutosavedAt(null);
+        }
+      } catch (e) {
+        console.error(e);
+      } finally {
+        busy = false;
+      }
+    }, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [canvasReady, sessionChecked]);
+
+  // Closing or reloading the tab with unsaved work asks first
+  useEffect(() => {
+    if (!dirty) return;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = "";
+    };
+    window.addEventListener("beforeunload", warn);
+    return () => window.removeEventListener("beforeunload", warn);
+  }, [dirty]);
+
+  // Keep the schedule panel in step with the canvas while it's open
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!scheduleOpen || !canvas) return;
+
+    const recompute = () =>
+      setScheduleRows(
+        buildSchedule(scheduleSources(sheets, activeSheetId, canvas), circuits)
+      );
+    recompute();
+
+    canvas.on("object:added", recompute);
+    canvas.on("object:removed", recompute);
+    canvas.on("object:modified", recompute);
+    canvas.on("circuit:assigned" as any, recompute);
+    canvas.on("symbol:changed" as any, recompute);
+    return () => {
+      canvas.off("object:added", recompute);
+      canvas.off("object:removed", recompute);
+      canvas.off("object:modified", recompute);
+      canvas.off("circuit:assigned" as any, recompute);
+      canvas.off("symbol:changed" as any, recompute);
+    };
+  }, [scheduleOpen, sheets, activeSheetId, circuits]);
+
+  // Layer state, circuit tints, the highlight filter, generated symbol labels
+  // and placed board schedules follow the layer and circuit lists and every
+  // assignment
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!canvas) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const update = () => {
+      const rows = buildBoardRows(
+        circuits,
+        scheduleSources(sheets, activeSheetId, canvas).map((s) => s.objects)
+      );
+      refreshSymbolLabels(canvas, circuits);
+      // circuit dimming goes on top of the layer opacity
+      applyLayers(canvas, layers);
+      applyCircuitStyling(canvas, circuits, highlightCircuit);
+      refreshBoardSchedules(canvas, rows);
+      setCircuitPoints(new Map(rows.map((r) => [r.circuit.id, r.points])));
+    };
+    const schedule = (opt: any) => {
+      // a table is built from the current rows when it's placed
+      if (isBoardSchedule(opt?.target)) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        update();
+      }, 0);
+    };
+    update();
+
+    canvas.on("object:added", schedule);
+    canvas.on("object:removed", schedule);
+    canvas.on("circuit:assigned" as any, schedule);
+    canvas.on("symbol:changed" as any, schedule);
+    canvas.on("layer:assigned" as any, schedule);
+    canvas.on("sheet:loaded" as any, schedule);
+    return () => {
+      if (timer) clearTimeout(timer);
+      canvas.off("object:added", schedule);
+      canvas.off("object:removed", schedule);
+      canvas.off("circuit:assigned" as any, schedule);
+      canvas.off("symbol:changed" as any, schedule);
+      canvas.off("layer:assigned" as any, schedule);
+      canvas.off("sheet:loaded" as any, schedule);
+    };
+  }, [canvasReady, circuits, highlightCircuit, layers, sheets, activeSheetId]);
+
+  // The title block is document-wide; redraw it whenever it could have changed
+  const activeSheetName = sheets.find((s) => s.id === activeSheetId)?.name ?? "";
+  const tableRows = useMemo(
+    () => (revisionTable ? revisionRows(revisions) : []),
+    [revisionTable, revisions]
+  );
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!canvas) return;
+
+    const sync = () => syncTitleBlock(canvas, titleBlock, activeSheetName, tableRows);
+    sync();
+
+    canvas.on("sheet:calibrated" as any, sync);
+    canvas.on("sheet:paper" as any, sync);
+    return () => {
+      canvas.off("sheet:calibrated" as any, sync);
+      canvas.off("sheet:paper" as any, sync);
+    };
+  }, [canvasReady, titleBlock, activeSheetName, activeSheetId, tableRows]);
+
+  // Which circuit the selected symbols are on, for the circuits panel
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!circuitsOpen || !canvas) return;
+
+    const sync = () => {
+      const targets = canvas.getActiveObjects().filter(isCircuitTarget);
+      const ids = new Set(targets.map((o: any) => o.circuit ?? null));
+      setCircuitSelection({
+        count: targets.length,
+        circuitId: ids.size === 1 ? Array.from(ids)[0] : null,
+      });
+    };
+    sync();
+
+    canvas.on("selection:created", sync);
+    canvas.on("selection:updated", sync);
+    canvas.on("selection:cleared", sync);
+    canvas.on("circuit:assigned" as any, sync);
+    return () => {
+      canvas.off("selection:created", sync);
+      canvas.off("selection:updated", sync);
+      canvas.off("selection:cleared", sync);
+      canvas.off("circuit:assigned" as any, sync);
+    };
+  }, [circuitsOpen]);
+
+  // How many objects "Move selected here" would move, for the layers panel
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!layersOpen || !canvas) return;
+
+    const sync = () =>
+      setLayerSelectionCount(
+        canvas.getActiveObjects().filter((o) => layerOf(o, layers) !== null).length
+      );
+    sync();
+
+    canvas.on("selection:created", sync);
+    canvas.on("selection:updated", sync);
+    canvas.on("selection:cleared", sync);
+    return () => {
+      canvas.off("selection:created", sync);
+      canvas.off("selection:updated", sync);
+      canvas.off("selection:cleared", sync);
+    };
+  }, [layersOpen, layers]);
+
+  // The single selected symbol and the rooms used so far, for the properties panel
+  useEffect(() => {
+    const canvas = window.__fabricCanvas;
+    if (!propertiesOpen || !canvas) return;
+
+    const sync = () => {
+      const targets = canvas.getActiveObjects().filter(isCircuitTarget);
+      setSymbolSelectionCount(targets.length);
+
+      const obj: any = targets.length === 1 ? targets[0] : null;
+      if (obj && !obj.uid) obj.uid = makeId();
+      setSelectedSymbol(
+        obj && {
+          key: obj.uid,
+          symbol: getSymbol(symbolIdOf(obj)),
+          properties: getSymbolProperties(obj),
+          circuitId: obj.circuit ?? null,
+        }
+      );
+
+      const used = new Set<string>();
+      scheduleSources(sheets, activeSheetId, canvas).forEach((s) =>
+        s.objects.forEach((o: any) => o?.room && used.add(o.room))
+      );
+      setRooms(Array.from(used).sort((a, b) => a.localeCompare(b)));
+    };
+    sync();
+
+    canvas.on("selection:created", sync);
+    canvas.on("selection:updated", sync);
+    canvas.on("selection:cleared", sync);
+    canvas.on("circuit:assigned" as any, sync);
+    canvas.on("symbol:changed" as any, sync);
+    return () => {
+      canvas.off("selection:created", sync);
+      canvas.off("selection:updated", sync);
+      canvas.off("selection:cleared", sync);
+      canvas.off("circuit:assigned" as any, sync);
+      canvas.off("symbol:changed" as any, sync);
+    };
+  }, [propertiesOpen, sheets, activeSheetId]);
 
   // close export menu on outside click / escape
   useEffect(() => {
@@ -117,198 +540,663 @@ const CanvasEditor: React.FC = () => {
     return c;
   };
 
-  // ✅ find A3 page rect bounds in WORLD space
-  const getA3Region = () => {
+  const toPageDataUrl = async (format: "png" | "jpeg") => {
     const canvas = getCanvas();
     if (!canvas) return null;
 
-    const page: any = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
-    if (!page) {
-      alert("A3 page not found (PAGE_NAME mismatch).");
+    const image = await withPrintedLayers(canvas, layers, () => pageToDataUrl(canvas, format));
+    if (!image) {
+      alert("Page not found (PAGE_NAME mismatch).");
       return null;
     }
+    return image.dataUrl;
+  };
 
-    const left = page.left ?? 0;
-    const top = page.top ?? 0;
-    const width = page.width ?? 1;
-    const height = page.height ?? 1;
+  // -------- Sheets --------
+  // The live canvas holds the active sheet; every other sheet is kept as JSON.
+  const collectSheets = (canvas: Canvas, from: Sheet[] = sheets): Sheet[] =>
+    from.map((s) =>
+      s.id === activeSheetId
+        ? { ...s, fabricJson: serializeCanvas(canvas), underlay: getUnderlayRef(canvas) }
+        : s
+    );
 
-    return {
-      canvas,
-      left,
-      top,
-      width,
-      height,
-      orientation: width >= height ? ("landscape" as const) : ("portrait" as const),
-    };
+  const showSheet = async (canvas: Canvas, sheet: Sheet) => {
+    await loadCanvasJson(canvas, sheet.fabricJson);
+    setActiveSheetId(sheet.id);
+    // history entries point at the previous sheet's objects
+    window.__canvasHistory?.clear();
   };
 
-  const toPageDataUrl = (format: "png" | "jpeg") => {
-    const region = getA3Region();
-    if (!region) return null;
-
-    const { canvas, left, top, width, height } = region;
+  const handleSelectSheet = async (id: string) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
 
-    // IMPORTANT: this crops in WORLD space (independent of zoom/pan)
-    const dataUrl = (canvas as any).toDataURL({
-      format,
-      left,
-      top,
-      width,
-      height,
-      multiplier: 2,
-      enableRetinaScaling: true,
-      quality: format === "jpeg" ? 0.92 : undefined,
-    });
+    const next = collectSheets(canvas);
+    const target = next.find((s) => s.id === id);
+    if (!target) return;
 
-    return dataUrl as string;
+    setSheets(next);
+    await showSheet(canvas, target);
   };
 
-  const handleSaveToLocal = () => {
+  const handleAddSheet = async () => {
     const canvas = getCanvas();
     if (!canvas) return;
 
-    const json = (canvas as any).toJSON(EXTRA_PROPS);
+    const sheet = createSheet(`Sheet ${sheets.length + 1}`);
+    setSheets([...collectSheets(canvas), sheet]);
+    await showSheet(canvas, sheet);
+  };
 
-    const saved: SavedDoc = {
-      version: 1,
-      name: docName.trim() || "Untitled",
-      savedAt: new Date().toISOString(),
-      fabricJson: json,
-    };
+  const handleRenameSheet = (id: string, name: string) => {
+    setSheets((prev) => prev.map((s) => (s.id === id ? { ...s, name } : s)));
+  };
+
+  const handleDeleteSheet = async (id: string) => {
+    const canvas = getCanvas();
+    if (!canvas || sheets.length < 2) return;
+
+    const idx = sheets.findIndex((s) => s.id === id);
+    if (idx < 0) return;
+    if (!window.confirm(`Delete sheet "${sheets[idx].name}"?`)) return;
+
+    const remaining = collectSheets(canvas).filter((s) => s.id !== id);
+    setSheets(remaining);
+    if (id === activeSheetId) {
+      await showSheet(canvas, remaining[Math.min(idx, remaining.length - 1)]);
+    }
+  };
+
+  const buildDoc = (canvas: Canvas): SavedDoc => ({
+    version: DOC_VERSION,
+    name: docName.trim() || "Untitled",
+    savedAt: new Date().toISOString(),
+    sheets: collectSheets(canvas),
+    circuits,
+    titleBlock,
+    layers,
+    revisions,
+    revisionTable,
+  });
+
+  /** Save over the open document, or as a new one when `asNew` or never saved */
+  const handleSave = async (asNew: boolean) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
 
-    setDocs((prev) => [saved, ...prev]);
+    const saved = buildDoc(canvas);
+    setSheets(saved.sheets!);
+    try {
+      const summary = await saveDoc(
+        saved,
+        getOpenedPdfBytes,
+        asNew ? undefined : currentDocId ?? undefined
+      );
+      setCurrentDocId(summary.id);
+      cleanFingerprintRef.current = docFingerprint(saved);
+      setDirty(false);
+    } catch (e) {
+      console.error(e);
+      alert(
+        (e as any)?.name === "QuotaExceededError"
+          ? "Not saved: browser storage is full. Delete some saved documents and try again."
+          : "Not saved: browser storage isn't available."
+      );
+    }
+    await refreshDocs();
   };
 
   const handleLoadFromLocal = async (saved: SavedDoc) => {
     const canvas = getCanvas();
     if (!canvas) return;
 
-    canvas.clear();
+    // load the first sheet offscreen before touching anything, so a document
+    // with bad objects or images that won't load leaves the open one intact
+    await withSheetCanvas(saved.sheets[0].fabricJson, undefined, () => undefined);
+
+    forgetOpenedPdfs();
+    setSheets(saved.sheets);
+    setCircuits(saved.circuits);
+    setTitleBlock(saved.titleBlock);
+    setLayers(saved.layers);
+    setRevisions(saved.revisions);
+    setRevisionTable(saved.revisionTable);
+    setCompare(null);
+    setActiveLayerId(GENERAL_LAYER);
+    setHighlightCircuit(null);
+    setDocName(saved.name);
+    await showSheet(canvas, saved.sheets[0]);
+    resetCleanRef.current = true;
+  };
 
-    await new Promise<void>((resolve) => {
-      (canvas as any).loadFromJSON(saved.fabricJson, () => {
-        canvas.getObjects().forEach((obj: any) => {
-          obj.selectable = true;
-          obj.evented = true;
-          obj.hasControls = false;
-          obj.hasBorders = false;
+  const openStored = async (stored: StoredContent, docId: string | null) => {
+    await handleLoadFromLocal(stored.doc);
+    // vector exports embed the underlays' original pages again
+    stored.pdfs.forEach((bytes, hash) => rememberPdfBytes(hash, bytes));
+    setCurrentDocId(docId);
+  };
 
-          // keep page rect non-editable
-          if (obj.name === PAGE_NAME) {
-            obj.selectable = false;
-            obj.evented = false;
-          }
-          // keep PDF non-editable too
-          if (obj.name === "PDF_PAGE") {
-            obj.selectable = false;
-            obj.evented = false;
-          }
-        });
+  latestRef.current = { buildDoc, openStored, currentDocId };
 
-        canvas.requestRenderAll();
-        resolve();
-      });
-    });
+  const handleOpenSaved = async (id: string) => {
+    if (dirty && !window.confirm("Discard unsaved changes to the open document?")) return;
+    try {
+      const stored = await loadDoc(id);
+      if (!stored) {
+        alert("That document is no longer in browser storage.");
+        await refreshDocs();
+        return;
+      }
+      await openStored(stored, id);
+    } catch (e) {
+      console.error(e);
+      alert("Failed to open that document.");
+    }
   };
 
-  const handleDeleteSaved = (idx: number) => {
-    setDocs((prev) => prev.filter((_, i) => i !== idx));
+  const handleDeleteSaved = async (id: string) => {
+    try {
+      await deleteDoc(id);
+      if (id === currentDocId) {
+        // what's on screen isn't saved anywhere any more
+        setCurrentDocId(null);
+        resetCleanRef.current = false;
+        cleanFingerprintRef.current = null;
+        setDirty(true);
+      }
+    } catch (e) {
+      console.error(e);
+      alert("Failed to delete that document.");
+    }
+    await refreshDocs();
   };
 
   const handleExportJsonFile = () => {
     const canvas = getCanvas();
     if (!canvas) return;
 
-    const json = (canvas as any).toJSON(EXTRA_PROPS);
-
-    const payload: SavedDoc = {
-      version: 1,
-      name: docName.trim() || "Untitled",
-      savedAt: new Date().toISOString(),
-      fabricJson: json,
-    };
-
-    downloadJson(`${safeName}.json`, payload);
+    downloadJson(`${safeName}.json`, buildDoc(canvas));
     setExportOpen(false);
   };
 
   const handleImportJsonFile = async (file: File) => {
     try {
       const text = await fileToText(file);
-      const parsed = JSON.parse(text) as SavedDoc;
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        alert("That file isn't a saved document: it isn't valid JSON.");
+        return;
+      }
 
-      if (!parsed || parsed.version !== 1 || !parsed.fabricJson) {
-        alert("That file doesn't look like a valid saved document.");
+      const read = parseDoc(json);
+      if (!read.ok) {
+        alert(
+          read.newer
+            ? `That document was saved by a newer version of this app and can't be opened here (${read.problems[0]}). Update the app and try again.`
+            : `That file can't be opened:\n• ${read.problems.slice(0, 10).join("\n• ")}` +
+                (read.problems.length > 10 ? `\n…and ${read.problems.length - 10} more` : "")
+        );
         return;
       }
+      const parsed = read.doc;
 
-      setDocs((prev) => [parsed, ...prev]);
+      if (dirty && !window.confirm("Discard unsaved changes to the open document?")) return;
       await handleLoadFromLocal(parsed);
+      setCurrentDocId(null);
+      try {
+        setCurrentDocId((await saveDoc(parsed, getOpenedPdfBytes)).id);
+      } catch (e) {
+        console.error(e);
+        resetCleanRef.current = false;
+        cleanFingerprintRef.current = null;
+        alert("The file is open, but there wasn't room to keep a copy in browser storage.");
+      }
+      await refreshDocs();
     } catch (e) {
       console.error(e);
       alert("Failed to import that file.");
     }
   };
 
+  /**
+   * One vector PDF page per sheet, in tab order. Underlays opened this
+   * session are embedded from the original PDF; the rest fall back to the
+   * bitmap kept on the sheet.
+   */
+  const buildDrawingSetPdf = async (): Promise<Blob | null> => {
+    const canvas = getCanvas();
+    if (!canvas) return null;
+
+    const pdf = await createVectorPdf(docName.trim() || undefined);
+    for (const sheet of collectSheets(canvas)) {
+      const underlayPdf = sheet.underlay?.pdfAsset
+        ? getOpenedPdfBytes(sheet.underlay.pdfAsset)
+        : undefined;
+      if (sheet.id === activeSheetId) {
+        await withPrintedLayers(canvas, layers, () => pdf.addSheet({ canvas, underlayPdf }));
+      } else {
+        await withSheetCanvas(
+          sheet.fabricJson,
+          (c) => {
+            syncTitleBlock(c, titleBlock, sheet.name, tableRows);
+            applyLayers(c, layers);
+          },
+          (c) => withPrintedLayers(c, layers, () => pdf.addSheet({ canvas: c, underlayPdf }))
+        );
+      }
+    }
+
+    const bytes = await pdf.save();
+    if (!bytes) {
+      alert("Page not found (PAGE_NAME mismatch).");
+      return null;
+    }
+    return new Blob([bytes], { type: "application/pdf" });
+  };
+
+  // -------- Revisions --------
+  /**
+   * Keep a copy of every sheet as issued. The title block is brought up to
+   * the new revision first, so the copy shows what went out.
+   */
+  const handleIssueRevision = async (code: string, description: string, date: string) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const revision = createRevision([], code, description, date);
+    const nextRevisions = [...revisions, revision];
+    const fields = { ...titleBlock, revision: revision.code };
+    const rows = revisionTable ? revisionRows(nextRevisions) : [];
+
+    await syncTitleBlock(canvas, fields, activeSheetName, rows);
+    const next = collectSheets(canvas, ensureSymbolUids(canvas, sheets));
+    for (const sheet of next) {
+      revision.sheets.push(
+        sheet.id === activeSheetId
+          ? sheet
+          : {
+              ...sheet,
+              fabricJson: await withSheetCanvas(
+                sheet.fabricJson,
+                (c) => syncTitleBlock(c, fields, sheet.name, rows),
+                serializeCanvas
+              ),
+            }
+      );
+    }
+
+    setSheets(next);
+    setTitleBlock(fields);
+    setRevisions(nextRevisions);
+  };
+
+  const handleDeleteRevision = (id: string) => {
+    setRevisions((prev) => prev.filter((r) => r.id !== id));
+    setCompare((c) => (c && (c.fromId === id || c.toId === id) ? null : c));
+  };
+
+  const revisionName = (id: string) =>
+    id === CURRENT_DRAWING
+      ? "current drawing"
+      : `Rev ${revisions.find((r) => r.id === id)?.code ?? "?"}`;
+
+  const revisionSheets = (id: string, canvas: Canvas): Sheet[] =>
+    id === CURRENT_DRAWING ? collectSheets(canvas) : revisions.find((r) => r.id === id)?.sheets ?? [];
+
+  /**
+   * Load a sheet of the newer revision off-screen with the differences from
+   * `before` drawn over it, for the length of `fn`. Revisions are shown as
+   * issued; only the current drawing gets today's title block.
+   */
+  const withComparedSheet = <T,>(
+    sheet: Sheet,
+    before: Sheet | undefined,
+    heading: string,
+    fn: (canvas: StaticCanvas, changes: SymbolChange[]) => Promise<T> | T
+  ) =>
+    withSheetCanvas(
+      sheet.fabricJson,
+      async (c) => {
+        if (compare?.toId === CURRENT_DRAWING) {
+          await syncTitleBlock(c, titleBlock, sheet.name, tableRows);
+        }
+        applyLayers(c, layers);
+      },
+      async (c) => fn(c, await drawComparison(c, before?.fabricJson?.objects ?? [], heading))
+    );
+
+  const compareHeading = compare
+    ? `Changes from ${revisionName(compare.fromId)} to ${revisionName(compare.toId)}`
+    : "";
+
+  const handleRenderCompare = async (sheetId: string): Promise<ComparePreview | null> => {
+    const canvas = getCanvas();
+    if (!canvas || !compare) return null;
+
+    const sheet = revisionSheets(compare.toId, canvas).find((s) => s.id === sheetId);
+    if (!sheet) return null;
+    const before = revisionSheets(compare.fromId, canvas).find((s) => s.id === sheetId);
+
+    return withComparedSheet(sheet, before, compareHeading, async (c, changes) => {
+      const image = await withPrintedLayers(c, layers, () => pageToDataUrl(c, "png"));
+      return image && { dataUrl: image.dataUrl, counts: countChanges(changes) };
+    });
+  };
+
+  /** One vector PDF page per sheet of the newer revision, changes marked up */
+  const handleExportComparePdf = async () => {
+    const canvas = getCanvas();
+    if (!canvas || !compare) return;
+
+    try {
+      const pdf = await createVectorPdf(`${docName.trim() || "Untitled"} – ${compareHeading}`);
+      const older = revisionSheets(compare.fromId, canvas);
+      for (const sheet of revisionSheets(compare.toId, canvas)) {
+        const underlayPdf = sheet.underlay?.pdfAsset
+          ? getOpenedPdfBytes(sheet.underlay.pdfAsset)
+          : undefined;
+        const before = older.find((s) => s.id === sheet.id);
+        await withComparedSheet(sheet, before, compareHeading, (c) =>
+          withPrintedLayers(c, layers, () => pdf.addSheet({ canvas: c, underlayPdf }))
+        );
+      }
+
+      const bytes = await pdf.save();
+      if (!bytes) {
+        alert("Page not found (PAGE_NAME mismatch).");
+        return;
+      }
+      const suffix = [compare.fromId, compare.toId]
+        .map((id) => revisionName(id).replace(/\s+/g, "_"))
+        .join("_vs_");
+      downloadBlob(`${safeName}_${suffix}.pdf`, new Blob([bytes], { type: "application/pdf" }));
+    } catch (e) {
+      console.error(e);
+      alert("Failed to export the comparison.");
+    }
+  };
+
+  // -------- Schedule --------
+  const handleDownloadSchedule = () => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const csv = scheduleToCsv(
+      buildSchedule(scheduleSources(sheets, activeSheetId, canvas), circuits)
+    );
+    downloadBlob(`${safeName}_schedule.csv`, new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    setExportOpen(false);
+  };
+
+  // -------- Circuits --------
+  const handleAddCircuit = () => {
+    setCircuits((prev) => [...prev, createCircuit(prev, makeId())]);
+  };
+
+  const handleChangeCircuit = (id: string, patch: Partial<Circuit>) => {
+    setCircuits((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  };
+
+  // Unassigns the circuit's symbols on every sheet, stored ones included
+  const handleDeleteCircuit = (id: string) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const circuit = circuits.find((c) => c.id === id);
+    if (!circuit || !window.confirm(`Delete circuit ${circuit.number}?`)) return;
+
+    assignCircuit(
+      canvas,
+      canvas.getObjects().filter((o: any) => o.circuit === id),
+      null
+    );
+    setSheets((prev) =>
+      prev.map((s) =>
+        s.id === activeSheetId || !s.fabricJson
+          ? s
+          : {
+              ...s,
+              fabricJson: {
+                ...s.fabricJson,
+                objects: (s.fabricJson.objects ?? []).map((o: any) =>
+                  o.circuit === id ? { ...o, circuit: undefined } : o
+                ),
+              },
+            }
+      )
+    );
+    setCircuits((prev) => prev.filter((c) => c.id !== id));
+    if (highlightCircuit === id) setHighlightCircuit(null);
+  };
+
+  const handleAssignCircuit = (id: string | null) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const targets = canvas.getActiveObjects().filter(isCircuitTarget);
+    if (targets.length === 0) return;
+
+    const before = targets.map((o: any) => (o.circuit as string | undefined) ?? null);
+    assignCircuit(canvas, targets, id);
+    window.__canvasHistory?.push({
+      label: id ? "Assign circuit" : "Unassign circuit",
+      undo: () => targets.forEach((o, i) => assignCircuit(canvas, [o], before[i])),
+      redo: () => assignCircuit(canvas, targets, id),
+    });
+  };
+
+  const handleChangeSymbolProperties = (patch: Partial<SymbolProperties>) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const targets = canvas.getActiveObjects().filter(isCircuitTarget);
+    if (targets.length !== 1) return;
+    const obj: any = targets[0];
+
+    const before: Partial<SymbolProperties> = {};
+    (Object.keys(patch) as (keyof SymbolProperties)[]).forEach((key) => {
+      (before as any)[key] = obj[key];
+    });
+    setSymbolProperties(canvas, obj, patch);
+    window.__canvasHistory?.push({
+      label: "Edit properties",
+      undo: () => setSymbolProperties(canvas, obj, before),
+      redo: () => setSymbolProperties(canvas, obj, patch),
+    });
+  };
+
+  // -------- Layers --------
+  const handleAddLayer = () => {
+    const layer = createLayer(layers, makeId());
+    setLayers((prev) => [...prev, layer]);
+    setActiveLayerId(layer.id);
+  };
+
+  const handleChangeLayer = (id: string, patch: Partial<Layer>) => {
+    setLayers((prev) => prev.map((l) => (l.id === id ? { ...l, ...patch } : l)));
+  };
+
+  // The underlay stays at index 0
+  const handleMoveLayer = (id: string, dir: 1 | -1) => {
+    setLayers((prev) => {
+      const i = prev.findIndex((l) => l.id === id);
+      const j = i + dir;
+      if (i < 1 || j < 1 || j >= prev.length) return prev;
+      const next = [...prev];
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  };
+
+  // The layer's objects fall back to General on every sheet
+  const handleDeleteLayer = (id: string) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const layer = layers.find((l) => l.id === id);
+    if (!layer || !window.confirm(`Delete layer "${layer.name}"? Its objects move to General.`)) {
+      return;
+    }
+
+    assignLayer(
+      canvas,
+      canvas.getObjects().filter((o: any) => o.layer === id),
+      GENERAL_LAYER
+    );
+    setSheets((prev) =>
+      prev.map((s) =>
+        s.id === activeSheetId || !s.fabricJson
+          ? s
+          : {
+              ...s,
+              fabricJson: {
+                ...s.fabricJson,
+                objects: (s.fabricJson.objects ?? []).map((o: any) =>
+                  o.layer === id ? { ...o, layer: GENERAL_LAYER } : o
+                ),
+              },
+            }
+      )
+    );
+    setLayers((prev) => prev.filter((l) => l.id !== id));
+    if (activeLayerId === id) setActiveLayerId(GENERAL_LAYER);
+  };
+
+  const handleMoveSelectionToLayer = (id: string) => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const selected = canvas.getActiveObjects().filter((o) => layerOf(o, layers) !== null);
+    if (selected.length === 0) return;
+    // labels and leaders stay on the layer of their symbol or note
+    const targets = [...selected, ...attachedTo(canvas, selected)];
+
+    const before = targets.map((o: any) => layerOf(o, layers)!);
+    canvas.discardActiveObject();
+    assignLayer(canvas, targets, id);
+    window.__canvasHistory?.push({
+      label: "Move to layer",
+      undo: () => targets.forEach((o, i) => assignLayer(canvas, [o], before[i])),
+      redo: () => assignLayer(canvas, targets, id),
+    });
+  };
+
+  // One board schedule per sheet, in the bottom-left corner of the page
+  const handlePlaceBoardSchedule = () => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+
+    const existing = canvas.getObjects().find(isBoardSchedule);
+    if (existing) {
+      canvas.setActiveObject(existing);
+      canvas.requestRenderAll();
+      return;
+    }
+
+    const page = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+    if (!page) return;
+
+    const bounds = getPageBounds(page);
+    const margin = mmToPx(10);
+    const rows = buildBoardRows(
+      circuits,
+      scheduleSources(sheets, activeSheetId, canvas).map((s) => s.objects)
+    );
+    const table: any = createBoardSchedule(rows, bounds.left + margin, 0);
+    table.layer = activeLayerId;
+    table.set({ top: bounds.top + bounds.height - margin - table.getScaledHeight() });
+    table.setCoords();
+
+    canvas.add(table);
+    canvas.setActiveObject(table);
+    canvas.requestRenderAll();
+    window.__canvasHistory?.push({
+      label: "Add board schedule",
+      undo: () => {
+        canvas.discardActiveObject();
+        canvas.remove(table);
+        canvas.requestRenderAll();
+      },
+      redo: () => {
+        canvas.add(table);
+        canvas.requestRenderAll();
+      },
+    });
+  };
+
   // -------- Downloads --------
-  const handleDownloadPng = () => {
-    const dataUrl = toPageDataUrl("png");
+  const handleDownloadPng = async () => {
+    const dataUrl = await toPageDataUrl("png");
     if (!dataUrl) return;
     downloadDataUrl(`${safeName}.png`, dataUrl);
     setExportOpen(false);
   };
 
-  const handleDownloadJpeg = () => {
-    const dataUrl = toPageDataUrl("jpeg");
+  const handleDownloadJpeg = async () => {
+    const dataUrl = await toPageDataUrl("jpeg");
     if (!dataUrl) return;
     downloadDataUrl(`${safeName}.jpeg`, dataUrl);
     setExportOpen(false);
   };
 
-  const handleDownloadPdf = async () => {
-    const region = getA3Region();
-    if (!region) return;
-
-    const dataUrl = toPageDataUrl("png");
-    if (!dataUrl) return;
-
+  const handleDownloadSvg = async () => {
+    const canvas = getCanvas();
+    if (!canvas) return;
     try {
-      const mod = await import("jspdf");
-      const jsPDF = mod.jsPDF;
-
-      const isLandscape = region.orientation === "landscape";
-      const pageWmm = isLandscape ? 420 : 297;
-      const pageHmm = isLandscape ? 297 : 420;
+      const svg = await withPrintedLayers(canvas, layers, () => pageToSvg(canvas));
+      if (!svg) {
+        alert("Page not found (PAGE_NAME mismatch).");
+        return;
+      }
+      downloadBlob(`${safeName}.svg`, new Blob([svg], { type: "image/svg+xml" }));
+      setExportOpen(false);
+    } catch (err) {
+      console.error(err);
+      alert("SVG export failed.");
+    }
+  };
 
-      // ✅ Use explicit mm dimensions to avoid weird scaling
-      const pdf = new jsPDF({
-        unit: "mm",
-        format: [pageWmm, pageHmm],
-      });
+  const handleDownloadDxf = async () => {
+    const canvas = getCanvas();
+    if (!canvas) return;
+    try {
+      const dxf = await withPrintedLayers(canvas, layers, () => sheetToDxf(canvas, layers));
+      if (!dxf) {
+        alert("Page not found (PAGE_NAME mismatch).");
+        return;
+      }
+      downloadBlob(`${safeName}.dxf`, new Blob([dxf], { type: "application/dxf" }));
+      setExportOpen(false);
+    } catch (err) {
+      console.error(err);
+      alert("DXF export failed.");
+    }
+  };
 
-      pdf.addImage(dataUrl, "PNG", 0, 0, pageWmm, pageHmm, undefined, "FAST");
-      pdf.save(`${safeName}.pdf`);
+  const handleDownloadPdf = async () => {
+    try {
+      const pdf = await buildDrawingSetPdf();
+      if (!pdf) return;
+      downloadBlob(`${safeName}.pdf`, pdf);
       setExportOpen(false);
     } catch (err) {
       console.error(err);
-      alert("PDF export needs jsPDF. Run: npm i jspdf");
+      alert("PDF export failed.");
     }
   };
 
   /**
-   * ✅ FIXED PRINT A3 (Chrome-safe + correct sizing)
+   * ✅ FIXED PRINT (Chrome-safe + correct sizing)
    * - open a blank tab immediately (prevents popup blocking)
-   * - generate a true-A3 PDF with explicit mm page size
+   * - generate a PDF with each sheet at its true paper size
    * - navigate the opened tab to the blob URL
    * - user prints from the PDF viewer (reliable sizing)
    */
   const handlePrint = async () => {
-    const region = getA3Region();
-    if (!region) return;
-
-    const dataUrl = toPageDataUrl("png");
-    if (!dataUrl) return;
+    if (!getCanvas()) return;
 
     // ✅ open synchronously (avoids popup blocker)
     const w = window.open("", "_blank");
@@ -319,28 +1207,19 @@ const CanvasEditor: React.FC = () => {
 
     w.document.open();
     w.document.write(
-      "<p style='font-family:system-ui;padding:16px'>Preparing A3 print…</p>"
+      "<p style='font-family:system-ui;padding:16px'>Preparing print…</p>"
     );
     w.document.close();
 
     try {
-      const mod = await import("jspdf");
-      const jsPDF = mod.jsPDF;
-
-      const isLandscape = region.orientation === "landscape";
-      const pageWmm = isLandscape ? 420 : 297;
-      const pageHmm = isLandscape ? 297 : 420;
-
-      const pdf = new jsPDF({
-        unit: "mm",
-        format: [pageWmm, pageHmm],
-      });
-
-      // ✅ force-fill the page in mm
-      pdf.addImage(dataUrl, "PNG", 0, 0, pageWmm, pageHmm, undefined, "FAST");
+      const pdf = await buildDrawingSetPdf();
+      if (!pdf) {
+        w.close();
+        return;
+      }
 
       // bloburl is convenient for viewer printing
-      const blobUrl = (pdf as any).output("bloburl") as string;
+      const blobUrl = URL.createObjectURL(pdf);
 
       // show the PDF in the already-open tab
       w.location.href = blobUrl;
@@ -352,7 +1231,7 @@ const CanvasEditor: React.FC = () => {
       try {
         w.close();
       } catch {}
-      alert("Print needs jsPDF. Run: npm i jspdf");
+      alert("Couldn't prepare the print PDF.");
     }
   };
 
@@ -368,6 +1247,21 @@ const CanvasEditor: React.FC = () => {
             placeholder="Name…"
           />
 
+          {dirty ? (
+            <span
+              style={styles.dirtyBadge}
+              title={
+                autosavedAt
+                  ? `A recovery copy was kept at ${autosavedAt.toLocaleTimeString()}`
+                  : "Not saved yet"
+              }
+            >
+              ● Unsaved changes
+            </span>
+          ) : (
+            currentDocId && <span style={styles.savedBadge}>✓ Saved</span>
+          )}
+
           <button
             style={styles.btn}
             onClick={() => setSavedOpen((v) => !v)}
@@ -378,15 +1272,75 @@ const CanvasEditor: React.FC = () => {
         </div>
 
         <div style={styles.actions}>
-          <button style={styles.btn} onClick={handleSaveToLocal}>
+          <button
+            style={styles.btn}
+            onClick={() => setTitleBlockOpen(true)}
+            title="Edit the title block printed on every sheet"
+          >
+            Title block
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => setRevisionsOpen((v) => !v)}
+            title={revisionsOpen ? "Hide revisions" : "Issue revisions and compare them"}
+          >
+            Revisions
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => setLayersOpen((v) => !v)}
+            title={layersOpen ? "Hide layers" : "Show, lock and order layers"}
+          >
+            Layers
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => setPropertiesOpen((v) => !v)}
+            title={propertiesOpen ? "Hide properties" : "Edit the selected symbol's details"}
+          >
+            Properties
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => setCircuitsOpen((v) => !v)}
+            title={circuitsOpen ? "Hide circuits" : "Define circuits and assign symbols"}
+          >
+            Circuits
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => setScheduleOpen((v) => !v)}
+            title={scheduleOpen ? "Hide schedule" : "Show symbol schedule"}
+          >
+            Schedule
+          </button>
+
+          <button
+            style={styles.btn}
+            onClick={() => handleSave(false)}
+            title={currentDocId ? "Save changes to this document" : "Save as a new document"}
+          >
             Save
           </button>
 
+          <button
+            style={styles.btn}
+            onClick={() => handleSave(true)}
+            title="Save a separate copy and keep working on it"
+          >
+            Save as new
+          </button>
+
           <div style={{ position: "relative" }} ref={exportMenuRef}>
             <button
               style={styles.btn}
               onClick={() => setExportOpen((v) => !v)}
-              title="Download as PNG / JPEG / PDF"
+              title="Download as PNG / JPEG / SVG / PDF / DXF"
             >
               Download ▾
             </button>
@@ -399,10 +1353,35 @@ const CanvasEditor: React.FC = () => {
                 <button style={styles.menuItem} onClick={handleDownloadJpeg}>
                   JPEG (.jpeg)
                 </button>
+                <button style={styles.menuItem} onClick={handleDownloadSvg}>
+                  SVG (.svg)
+                </button>
                 <button style={styles.menuItem} onClick={handleDownloadPdf}>
-                  PDF A3 (.pdf)
+                  PDF, all sheets (.pdf)
                 </button>
+                <button
+                  style={styles.menuItem}
+                  onClick={handleDownloadDxf}
+                  title="In real millimetres when the sheet is calibrated, paper millimetres otherwise"
+                >
+                  DXF for CAD, this sheet (.dxf)
+                </button>
+                <div style={styles.menuDivider} />
+                <div style={styles.menuLabel}>Layers to include</div>
+                {[...layers].reverse().map((l) => (
+                  <label key={l.id} style={styles.menuCheck}>
+                    <input
+                      type="checkbox"
+                      checked={l.print}
+                      onChange={(e) => handleChangeLayer(l.id, { print: e.target.checked })}
+                    />
+                    {l.name}
+                  </label>
+                ))}
                 <div style={styles.menuDivider} />
+                <button style={styles.menuItem} onClick={handleDownloadSchedule}>
+                  Schedule (.csv)
+                </button>
                 <button style={styles.menuItem} onClick={handleExportJsonFile}>
                   Export JSON (.json)
                 </button>
@@ -415,7 +1394,7 @@ const CanvasEditor: React.FC = () => {
           </button>
 
           <button style={styles.btnPrimary} onClick={handlePrint}>
-            Print A3
+            Print
           </button>
 
           <input
@@ -432,6 +1411,41 @@ const CanvasEditor: React.FC = () => {
         </div>
       </div>
 
+      {titleBlockOpen && (
+        <TitleBlockDialog
+          fields={titleBlock}
+          onApply={(fields) => {
+            setTitleBlock(fields);
+            setTitleBlockOpen(false);
+          }}
+          onCancel={() => setTitleBlockOpen(false)}
+        />
+      )}
+
+      {compare && (
+        <CompareDialog
+          key={`${compare.fromId}:${compare.toId}`}
+          heading={`${revisionName(compare.fromId)} → ${revisionName(compare.toId)}`}
+          sheets={
+            compare.toId === CURRENT_DRAWING
+              ? sheets
+              : revisions.find((r) => r.id === compare.toId)?.sheets ?? []
+          }
+          onRender={handleRenderCompare}
+          onExportPdf={handleExportComparePdf}
+          onClose={() => setCompare(null)}
+        />
+      )}
+
+      <SheetTabs
+        sheets={sheets}
+        activeId={activeSheetId}
+        onSelect={handleSelectSheet}
+        onAdd={handleAddSheet}
+        onRename={handleRenameSheet}
+        onDelete={handleDeleteSheet}
+      />
+
       <div style={styles.body}>
         {savedOpen && (
           <div style={styles.sidebar}>
@@ -442,22 +1456,54 @@ const CanvasEditor: React.FC = () => {
               </button>
             </div>
 
+            {usage && (
+              <div
+                style={styles.usage}
+                title="Saved documents share underlay images and PDFs, so each is stored once"
+              >
+                <div style={styles.cardDate}>
+                  {formatBytes(usage.used)} used
+                  {usage.quota ? ` of ${formatBytes(usage.quota)} available` : ""}
+                </div>
+                {!!usage.quota && (
+                  <div style={styles.usageBar}>
+                    <div
+                      style={{
+                        ...styles.usageFill,
+                        width: `${Math.min(100, Math.max(1, (usage.used / usage.quota) * 100))}%`,
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {docs.length === 0 && <div style={styles.empty}>No saved docs yet.</div>}
 
-            {docs.map((d, idx) => (
-              <div key={`${d.savedAt}-${idx}`} style={styles.card}>
+            {docs.map((d) => (
+              <div key={d.id} style={styles.card}>
                 <div style={styles.cardTop}>
                   <div style={styles.cardName}>{d.name}</div>
-                  <div style={styles.cardDate}>{new Date(d.savedAt).toLocaleString()}</div>
+                  <div style={styles.cardDate}>
+                    {new Date(d.savedAt).toLocaleString()}
+                    {d.revision && ` · Rev ${d.revision}`}
+                  </div>
+                  {d.sheets.map((sheet, i) => (
+                    <div key={i} style={styles.cardDate}>
+                      {sheet.name}
+                      {sheet.underlay &&
+                        ` · ${sheet.underlay.fileName} p.${sheet.underlay.page}/${sheet.underlay.pageCount}`}
+                    </div>
+                  ))}
                 </div>
 
                 <div style={styles.cardBtns}>
-                  <button style={styles.smallBtn} onClick={() => handleLoadFromLocal(d)}>
+                  <button style={styles.smallBtn} onClick={() => handleOpenSaved(d.id)}>
                     Load
                   </button>
                   <button
                     style={styles.smallBtnDanger}
-                    onClick={() => handleDeleteSaved(idx)}
+                    onClick={() => handleDeleteSaved(d.id)}
                   >
                     Delete
                   </button>
@@ -468,8 +1514,75 @@ const CanvasEditor: React.FC = () => {
         )}
 
         <div style={styles.canvasArea}>
-          <CanvasComponent />
+          <CanvasComponent
+            onReady={() => setCanvasReady(true)}
+            activeLayerId={activeLayerId}
+          />
         </div>
+
+        {circuitsOpen && (
+          <CircuitsPanel
+            circuits={circuits}
+            points={circuitPoints}
+            highlightId={highlightCircuit}
+            selectedCircuitId={circuitSelection.circuitId}
+            selectionCount={circuitSelection.count}
+            onAdd={handleAddCircuit}
+            onChange={handleChangeCircuit}
+            onDelete={handleDeleteCircuit}
+            onAssign={handleAssignCircuit}
+            onHighlight={setHighlightCircuit}
+            onPlaceSchedule={handlePlaceBoardSchedule}
+            onClose={() => setCircuitsOpen(false)}
+          />
+        )}
+
+        {revisionsOpen && (
+          <RevisionsPanel
+            revisions={revisions}
+            showTable={revisionTable}
+            onIssue={handleIssueRevision}
+            onDelete={handleDeleteRevision}
+            onShowTable={setRevisionTable}
+            onCompare={(fromId, toId) => setCompare({ fromId, toId })}
+            onClose={() => setRevisionsOpen(false)}
+          />
+        )}
+
+        {layersOpen && (
+          <LayersPanel
+            layers={layers}
+            activeId={activeLayerId}
+            selectionCount={layerSelectionCount}
+            onAdd={handleAddLayer}
+            onChange={handleChangeLayer}
+            onMove={handleMoveLayer}
+            onDelete={handleDeleteLayer}
+            onActivate={setActiveLayerId}
+            onMoveSelection={handleMoveSelectionToLayer}
+            onClose={() => setLayersOpen(false)}
+          />
+        )}
+
+        {propertiesOpen && (
+          <PropertiesPanel
+            selected={selectedSymbol}
+            selectionCount={symbolSelectionCount}
+            circuits={circuits}
+            rooms={rooms}
+            onChange={handleChangeSymbolProperties}
+            onAssignCircuit={handleAssignCircuit}
+            onClose={() => setPropertiesOpen(false)}
+          />
+        )}
+
+        {scheduleOpen && (
+          <SchedulePanel
+            rows={scheduleRows}
+            onExportCsv={handleDownloadSchedule}
+            onClose={() => setScheduleOpen(false)}
+          />
+        )}
       </div>
     </div>
   );
@@ -586,6 +1699,16 @@ const styles: Record<string, React.CSSProperties> = {
 
   empty: { color: "#888", fontSize: 12, padding: "20px 0" },
 
+  dirtyBadge: { fontSize: 12, color: "#f0b429", whiteSpace: "nowrap" },
+
+  savedBadge: { fontSize: 12, color: "#7bc47f", whiteSpace: "nowrap" },
+
+  usage: { display: "flex", flexDirection: "column", gap: 6, marginBottom: 12 },
+
+  usageBar: { height: 6, borderRadius: 3, background: "#3d3d3d", overflow: "hidden" },
+
+  usageFill: { height: "100%", background: "linear-gradient(90deg, #3d5a80 0%, #5fa3ff 100%)" },
+
   card: {
     background: "#2d2d2d",
     border: "1px solid #3d3d3d",
@@ -662,6 +1785,23 @@ const styles: Record<string, React.CSSProperties> = {
     background: "#3d3d3d",
     margin: "6px 0",
   },
+
+  menuLabel: {
+    padding: "4px 12px",
+    fontSize: 11,
+    fontWeight: 700,
+    color: "#888",
+  },
+
+  menuCheck: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    padding: "4px 12px",
+    fontSize: 13,
+    color: "#e0e0e0",
+    cursor: "pointer",
+  },
 };
 
 export default CanvasEditor;
\ No newline at end of file
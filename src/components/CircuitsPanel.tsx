@@ -0,0 +1,285 @@
+import React from "react";
+import {
+  Circuit,
+  CIRCUIT_TYPES,
+  CircuitType,
+  PROTECTIVE_DEVICES,
+  ProtectiveDevice,
+  sortCircuits,
+} from "./circuits";
+
+type Props = {
+  circuits: Circuit[];
+  /** Points per circuit over all sheets */
+  points: Map<string, number>;
+  highlightId: string | null;
+  /** Circuit of the selected symbols; null when none selected or unassigned */
+  selectedCircuitId: string | null;
+  selectionCount: number;
+  onAdd: () => void;
+  onChange: (id: string, patch: Partial<Circuit>) => void;
+  onDelete: (id: string) => void;
+  onAssign: (id: string | null) => void;
+  onHighlight: (id: string | null) => void;
+  onPlaceSchedule: () => void;
+  onClose: () => void;
+};
+
+/** Consumer unit editor: define circuits, put selected symbols on them. */
+const CircuitsPanel: React.FC<Props> = ({
+  circuits,
+  points,
+  highlightId,
+  selectedCircuitId,
+  selectionCount,
+  onAdd,
+  onChange,
+  onDelete,
+  onAssign,
+  onHighlight,
+  onPlaceSchedule,
+  onClose,
+}) => (
+  <div style={styles.panel}>
+    <div style={styles.header}>
+      <div style={styles.title}>Circuits</div>
+      <div style={{ display: "flex", gap: 6 }}>
+        <button style={styles.smallBtn} onClick={onAdd}>
+          + Add
+        </button>
+        <button style={styles.hideBtn} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+    </div>
+
+    <div style={styles.row}>
+      <span style={styles.label}>Highlight</span>
+      <select
+        value={highlightId ?? ""}
+        onChange={(e) => onHighlight(e.target.value || null)}
+        style={styles.select}
+      >
+        <option value="">All circuits</option>
+        {sortCircuits(circuits).map((c) => (
+          <option key={c.id} value={c.id}>
+            {c.number} {c.description}
+          </option>
+        ))}
+      </select>
+    </div>
+
+    <div style={styles.selectionBar}>
+      {selectionCount > 0 ? (
+        <>
+          <span style={styles.label}>
+            {selectionCount} symbol{selectionCount === 1 ? "" : "s"} selected
+          </span>
+          <button
+            style={styles.smallBtn}
+            onClick={() => onAssign(null)}
+            disabled={!selectedCircuitId}
+          >
+            Unassign
+          </button>
+        </>
+      ) : (
+        <span style={styles.hint}>Select symbols on the sheet to assign them.</span>
+      )}
+    </div>
+
+    {circuits.length === 0 && <div style={styles.empty}>No circuits yet.</div>}
+
+    {sortCircuits(circuits).map((c) => (
+      <div
+        key={c.id}
+        style={{
+          ...styles.card,
+          ...(c.id === selectedCircuitId ? styles.cardOn : null),
+        }}
+      >
+        <div style={styles.cardTop}>
+          <span style={{ ...styles.swatch, background: c.colour }} />
+          <input
+            value={c.number}
+            onChange={(e) => onChange(c.id, { number: e.target.value })}
+            style={{ ...styles.input, width: 44 }}
+            title="Way number"
+          />
+          <input
+            value={c.description}
+            onChange={(e) => onChange(c.id, { description: e.target.value })}
+            style={{ ...styles.input, flex: 1, minWidth: 0 }}
+            placeholder="Description"
+          />
+        </div>
+        <div style={styles.cardTop}>
+          <select
+            value={c.type}
+            onChange={(e) => {
+              const type = e.target.value as CircuitType;
+              const ratingA = CIRCUIT_TYPES.find((t) => t.id === type)?.ratingA ?? c.ratingA;
+              onChange(c.id, { type, ratingA });
+            }}
+            style={{ ...styles.select, flex: 1 }}
+          >
+            {CIRCUIT_TYPES.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={c.device}
+            onChange={(e) => onChange(c.id, { device: e.target.value as ProtectiveDevice })}
+            style={{ ...styles.select, flex: 1 }}
+          >
+            {PROTECTIVE_DEVICES.map((d) => (
+              <option key={d.id} value={d.id}>
+                {d.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={c.ratingA}
+            onChange={(e) => onChange(c.id, { ratingA: Number(e.target.value) || 0 })}
+            style={{ ...styles.input, width: 52 }}
+            title="Rating (A)"
+          />
+        </div>
+        <div style={styles.cardBtns}>
+          <span style={styles.hint}>{points.get(c.id) ?? 0} points</span>
+          <div style={{ flex: 1 }} />
+          <button
+            style={styles.smallBtn}
+            onClick={() => onAssign(c.id)}
+            disabled={selectionCount === 0}
+          >
+            Assign selected
+          </button>
+          <button style={styles.smallBtnDanger} onClick={() => onDelete(c.id)}>
+            Delete
+          </button>
+        </div>
+      </div>
+    ))}
+
+    <button style={styles.wideBtn} onClick={onPlaceSchedule}>
+      Place board schedule on sheet
+    </button>
+  </div>
+);
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 320,
+    padding: 12,
+    borderLeft: "1px solid #3d3d3d",
+    background: "#252525",
+    boxShadow: "-2px 0 12px rgba(0,0,0,0.3)",
+    overflowY: "auto",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 13, color: "#e0e0e0", letterSpacing: 0.3 },
+  row: { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  empty: { color: "#888", fontSize: 12, padding: "20px 0" },
+  selectionBar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    minHeight: 30,
+    margin: "10px 0",
+  },
+  card: {
+    background: "#2d2d2d",
+    border: "1px solid #3d3d3d",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+  cardOn: { borderColor: "#5fa3ff" },
+  cardTop: { display: "flex", alignItems: "center", gap: 6 },
+  cardBtns: { display: "flex", alignItems: "center", gap: 6 },
+  swatch: { width: 12, height: 12, borderRadius: 999, flexShrink: 0 },
+  input: {
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 8px",
+    outline: "none",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  select: {
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 4px",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    minWidth: 0,
+  },
+  smallBtn: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  smallBtnDanger: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #8d4d4d",
+    background: "#3d2d2d",
+    color: "#ff6b6b",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  hideBtn: {
+    width: 32,
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+  wideBtn: {
+    width: "100%",
+    height: 34,
+    marginTop: 8,
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default CircuitsPanel;
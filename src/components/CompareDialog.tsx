@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from "react";
+import { CHANGE_KINDS, ChangeKind } from "./compare";
+
+export type ComparePreview = {
+  /** The compared page as an image */
+  dataUrl: string;
+  counts: Record<ChangeKind, number>;
+};
+
+type Props = {
+  /** e.g. "Rev A → Rev B" */
+  heading: string;
+  sheets: { id: string; name: string }[];
+  onRender: (sheetId: string) => Promise<ComparePreview | null>;
+  onExportPdf: () => Promise<void>;
+  onClose: () => void;
+};
+
+/** Two revisions overlaid, one sheet at a time, with what changed picked out in colour. */
+const CompareDialog: React.FC<Props> = ({ heading, sheets, onRender, onExportPdf, onClose }) => {
+  const [sheetId, setSheetId] = useState(sheets[0]?.id ?? "");
+  const [preview, setPreview] = useState<ComparePreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  // onRender is recreated on every editor render; only the sheet matters
+  const onRenderRef = useRef(onRender);
+  onRenderRef.current = onRender;
+
+  useEffect(() => {
+    let cancelled = false;
+    setBusy(true);
+    onRenderRef
+      .current(sheetId)
+      .then((p) => !cancelled && setPreview(p))
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setPreview(null);
+      })
+      .finally(() => !cancelled && setBusy(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [sheetId]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExportPdf();
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onClose}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.top}>
+          <div>
+            <div style={styles.title}>Compare {heading}</div>
+            <div style={styles.sub}>
+              Old positions of moved and removed symbols are drawn faint.
+            </div>
+          </div>
+          <div style={{ flex: 1 }} />
+          {sheets.length > 1 && (
+            <select
+              value={sheetId}
+              onChange={(e) => setSheetId(e.target.value)}
+              style={styles.select}
+            >
+              {sheets.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div style={styles.legend}>
+          {CHANGE_KINDS.map(({ kind, label, colour }) => (
+            <span key={kind} style={styles.legendItem}>
+              <span style={{ ...styles.swatch, background: colour }} />
+              {label}
+              {preview && <strong>{preview.counts[kind]}</strong>}
+            </span>
+          ))}
+        </div>
+
+        <div style={styles.preview}>
+          {busy ? (
+            <span style={styles.hint}>Comparing…</span>
+          ) : preview ? (
+            <img src={preview.dataUrl} alt={`Changes ${heading}`} style={styles.image} />
+          ) : (
+            <span style={styles.hint}>This sheet couldn't be compared.</span>
+          )}
+        </div>
+
+        <div style={styles.footer}>
+          <div style={{ flex: 1 }} />
+          <button type="button" style={styles.btn} onClick={onClose}>
+            Close
+          </button>
+          <button
+            type="button"
+            style={styles.btnPrimary}
+            onClick={handleExport}
+            disabled={exporting}
+          >
+            {exporting ? "Exporting…" : "Export PDF"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: "min(1100px, 92vw)",
+    maxHeight: "92vh",
+    display: "flex",
+    flexDirection: "column",
+    padding: 16,
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+    color: "#e0e0e0",
+  },
+  top: { display: "flex", alignItems: "center", gap: 10 },
+  title: { fontWeight: 700, fontSize: 14, letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  hint: { fontSize: 12, color: "#888" },
+  select: {
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 8px",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  legend: { display: "flex", gap: 16, marginTop: 12, fontSize: 12, color: "#a0a0a0" },
+  legendItem: { display: "inline-flex", alignItems: "center", gap: 6 },
+  swatch: { width: 12, height: 12, borderRadius: 2 },
+  preview: {
+    flex: 1,
+    minHeight: 240,
+    marginTop: 12,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "#1e1e1e",
+    border: "1px solid #3d3d3d",
+    borderRadius: 6,
+    overflow: "auto",
+  },
+  image: { maxWidth: "100%", maxHeight: "70vh", background: "#ffffff" },
+  footer: { display: "flex", gap: 8, marginTop: 16 },
+  btn: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+  },
+  btnPrimary: {
+    height: 32,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default CompareDialog;
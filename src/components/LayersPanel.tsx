@@ -0,0 +1,287 @@
+import React from "react";
+import { isFixedLayer, Layer, UNDERLAY_LAYER } from "./layers";
+
+type Props = {
+  /** Bottom first, as stored; listed top first */
+  layers: Layer[];
+  activeId: string;
+  selectionCount: number;
+  onAdd: () => void;
+  onChange: (id: string, patch: Partial<Layer>) => void;
+  /** Swap with the neighbour above (+1) or below (-1) */
+  onMove: (id: string, dir: 1 | -1) => void;
+  onDelete: (id: string) => void;
+  onActivate: (id: string) => void;
+  onMoveSelection: (id: string) => void;
+  onClose: () => void;
+};
+
+/** Layer stack: visibility, locking, opacity and order; new symbols go on the active layer. */
+const LayersPanel: React.FC<Props> = ({
+  layers,
+  activeId,
+  selectionCount,
+  onAdd,
+  onChange,
+  onMove,
+  onDelete,
+  onActivate,
+  onMoveSelection,
+  onClose,
+}) => {
+  // the underlay never moves, and nothing goes below it
+  const lowest = 1;
+  const highest = layers.length - 1;
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <div style={styles.title}>Layers</div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button style={styles.smallBtn} onClick={onAdd}>
+            + Add
+          </button>
+          <button style={styles.hideBtn} onClick={onClose}>
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div style={styles.selectionBar}>
+        {selectionCount > 0 ? (
+          <span style={styles.label}>
+            {selectionCount} object{selectionCount === 1 ? "" : "s"} selected
+          </span>
+        ) : (
+          <span style={styles.hint}>New symbols go on the highlighted layer.</span>
+        )}
+      </div>
+
+      {layers
+        .map((l, index) => ({ l, index }))
+        .reverse()
+        .map(({ l, index }) => {
+          const underlay = l.id === UNDERLAY_LAYER;
+          const active = l.id === activeId;
+          return (
+            <div
+              key={l.id}
+              style={{ ...styles.card, ...(active ? styles.cardOn : null) }}
+              onClick={() => !underlay && onActivate(l.id)}
+            >
+              <div style={styles.cardTop}>
+                <button
+                  style={{ ...styles.iconBtn, ...(l.visible ? null : styles.iconOff) }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChange(l.id, { visible: !l.visible });
+                  }}
+                  title={l.visible ? "Hide layer" : "Show layer"}
+                >
+                  👁
+                </button>
+                {!underlay && (
+                  <button
+                    style={{ ...styles.iconBtn, ...(l.locked ? styles.iconOn : styles.iconOff) }}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onChange(l.id, { locked: !l.locked });
+                    }}
+                    title={l.locked ? "Unlock layer" : "Lock layer"}
+                  >
+                    🔒
+                  </button>
+                )}
+                <button
+                  style={{ ...styles.iconBtn, ...(l.print ? null : styles.iconOff) }}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onChange(l.id, { print: !l.print });
+                  }}
+                  title={l.print ? "Leave out of exports" : "Include in exports"}
+                >
+                  🖨
+                </button>
+                {isFixedLayer(l.id) ? (
+                  <span style={styles.name}>{l.name}</span>
+                ) : (
+                  <input
+                    value={l.name}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={(e) => onChange(l.id, { name: e.target.value })}
+                    style={{ ...styles.input, flex: 1, minWidth: 0 }}
+                  />
+                )}
+              </div>
+
+              <div style={styles.cardBtns}>
+                <span style={styles.hint}>Opacity</span>
+                <input
+                  type="range"
+                  min={10}
+                  max={100}
+                  step={5}
+                  value={Math.round(l.opacity * 100)}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onChange(l.id, { opacity: Number(e.target.value) / 100 })}
+                  style={{ flex: 1, minWidth: 0 }}
+                />
+                <span style={{ ...styles.hint, width: 34, textAlign: "right" }}>
+                  {Math.round(l.opacity * 100)}%
+                </span>
+              </div>
+
+              {!underlay && (
+                <div style={styles.cardBtns}>
+                  <button
+                    style={styles.smallBtn}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMove(l.id, 1);
+                    }}
+                    disabled={index >= highest}
+                    title="Move layer up"
+                  >
+                    ▲
+                  </button>
+                  <button
+                    style={styles.smallBtn}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMove(l.id, -1);
+                    }}
+                    disabled={index <= lowest}
+                    title="Move layer down"
+                  >
+                    ▼
+                  </button>
+                  <div style={{ flex: 1 }} />
+                  <button
+                    style={styles.smallBtn}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMoveSelection(l.id);
+                    }}
+                    disabled={selectionCount === 0 || l.locked}
+                  >
+                    Move selected here
+                  </button>
+                  {!isFixedLayer(l.id) && (
+                    <button
+                      style={styles.smallBtnDanger}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onDelete(l.id);
+                      }}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 320,
+    padding: 12,
+    borderLeft: "1px solid #3d3d3d",
+    background: "#252525",
+    boxShadow: "-2px 0 12px rgba(0,0,0,0.3)",
+    overflowY: "auto",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 13, color: "#e0e0e0", letterSpacing: 0.3 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  name: { flex: 1, fontSize: 12, fontWeight: 700, color: "#e0e0e0", padding: "0 4px" },
+  selectionBar: {
+    display: "flex",
+    alignItems: "center",
+    minHeight: 30,
+    marginBottom: 10,
+  },
+  card: {
+    background: "#2d2d2d",
+    border: "1px solid #3d3d3d",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+    cursor: "pointer",
+  },
+  cardOn: { borderColor: "#5fa3ff" },
+  cardTop: { display: "flex", alignItems: "center", gap: 6 },
+  cardBtns: { display: "flex", alignItems: "center", gap: 6 },
+  iconBtn: {
+    width: 28,
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    cursor: "pointer",
+    fontSize: 13,
+    padding: 0,
+    flexShrink: 0,
+  },
+  iconOn: { opacity: 1, borderColor: "#5fa3ff" },
+  iconOff: { opacity: 0.35 },
+  input: {
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 8px",
+    outline: "none",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  smallBtn: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  smallBtnDanger: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #8d4d4d",
+    background: "#3d2d2d",
+    color: "#ff6b6b",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  hideBtn: {
+    width: 32,
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+};
+
+export default LayersPanel;
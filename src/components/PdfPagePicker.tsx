@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from "react";
+import { PdfSource, renderPdfPage } from "./pdf";
+
+type Props = {
+  source: PdfSource;
+  currentPage?: number | null;
+  onPick: (pageNumber: number) => void;
+  onCancel: () => void;
+};
+
+const THUMB_W = 160;
+
+/**
+ * Modal listing every page of a PDF as a thumbnail so one page can be
+ * chosen as the sheet underlay.
+ */
+const PdfPagePicker: React.FC<Props> = ({ source, currentPage, onPick, onCancel }) => {
+  const pageCount = source.doc.numPages;
+  const [thumbs, setThumbs] = useState<Record<number, string>>({});
+  const [selected, setSelected] = useState<number>(currentPage ?? 1);
+
+  // Render thumbnails one at a time so large sets don't stall the tab
+  useEffect(() => {
+    let cancelled = false;
+    setThumbs({});
+
+    (async () => {
+      for (let n = 1; n <= pageCount; n++) {
+        if (cancelled) return;
+        try {
+          const url = await renderPdfPage(source.doc, n, { maxWidth: THUMB_W });
+          if (cancelled) return;
+          setThumbs((prev) => ({ ...prev, [n]: url }));
+        } catch (err) {
+          console.error(err);
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, pageCount]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onCancel();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onCancel]);
+
+  const pages = Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onCancel}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.header}>
+          <div>
+            <div style={styles.title}>Choose underlay page</div>
+            <div style={styles.sub}>
+              {source.fileName} — {pageCount} page{pageCount === 1 ? "" : "s"}
+            </div>
+          </div>
+          <button type="button" style={styles.closeBtn} onClick={onCancel}>
+            ✕
+          </button>
+        </div>
+
+        <div style={styles.grid}>
+          {pages.map((n) => (
+            <button
+              key={n}
+              type="button"
+              style={{
+                ...styles.thumb,
+                ...(n === selected ? styles.thumbOn : null),
+              }}
+              onClick={() => setSelected(n)}
+              onDoubleClick={() => onPick(n)}
+              title={`Page ${n}`}
+            >
+              {thumbs[n] ? (
+                <img src={thumbs[n]} alt={`Page ${n}`} style={styles.thumbImg} />
+              ) : (
+                <div style={styles.thumbLoading}>Rendering…</div>
+              )}
+              <div style={styles.thumbLabel}>
+                Page {n}
+                {n === currentPage ? " (current)" : ""}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div style={styles.footer}>
+          <button type="button" style={styles.btn} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" style={styles.btnPrimary} onClick={() => onPick(selected)}>
+            Use page {selected}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: "min(860px, 92vw)",
+    maxHeight: "86vh",
+    display: "flex",
+    flexDirection: "column",
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: "12px 16px",
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 14, color: "#e0e0e0", letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  closeBtn: {
+    width: 32,
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontSize: 14,
+    fontWeight: 600,
+  },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: `repeat(auto-fill, minmax(${THUMB_W + 20}px, 1fr))`,
+    gap: 12,
+    padding: 16,
+    overflowY: "auto",
+  },
+  thumb: {
+    display: "flex",
+    flexDirection: "column",
+    alignItems: "center",
+    gap: 8,
+    padding: 8,
+    borderRadius: 8,
+    border: "2px solid #3d3d3d",
+    background: "#252525",
+    cursor: "pointer",
+  },
+  thumbOn: {
+    borderColor: "#5fa3ff",
+    boxShadow: "0 0 0 2px rgba(95,163,255,0.25)",
+  },
+  thumbImg: { width: THUMB_W, background: "#fff", display: "block" },
+  thumbLoading: {
+    width: THUMB_W,
+    height: Math.round(THUMB_W * 0.7),
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    color: "#888",
+    fontSize: 11,
+    background: "#3d3d3d",
+  },
+  thumbLabel: { fontSize: 12, color: "#e0e0e0", fontWeight: 600 },
+  footer: {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: 8,
+    padding: "12px 16px",
+    borderTop: "1px solid #3d3d3d",
+  },
+  btn: {
+    height: 36,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 13,
+  },
+  btnPrimary: {
+    height: 36,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 13,
+  },
+};
+
+export default PdfPagePicker;
@@ -0,0 +1,231 @@
+import React, { useState } from "react";
+import { Circuit, circuitLabel, sortCircuits } from "./circuits";
+import { IP_RATINGS, SymbolProperties } from "./symbolProperties";
+import { SymbolDef } from "./symbols";
+
+export type SelectedSymbol = {
+  /** uid of the placed symbol, so fields reset when the selection changes */
+  key: string;
+  symbol: SymbolDef | undefined;
+  properties: SymbolProperties;
+  circuitId: string | null;
+};
+
+type Props = {
+  selected: SelectedSymbol | null;
+  /** Selected symbols; the panel edits one at a time */
+  selectionCount: number;
+  circuits: Circuit[];
+  /** Rooms already used in the document, offered as suggestions */
+  rooms: string[];
+  onChange: (patch: Partial<SymbolProperties>) => void;
+  onAssignCircuit: (id: string | null) => void;
+  onClose: () => void;
+};
+
+/**
+ * Text field that edits a draft and commits on blur or Enter, so one edit is
+ * one undo step rather than one per keystroke.
+ */
+const DraftField: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  multiline?: boolean;
+  inputProps?: React.InputHTMLAttributes<HTMLInputElement>;
+}> = ({ value, onCommit, multiline, inputProps }) => {
+  const [draft, setDraft] = useState(value);
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return multiline ? (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      rows={3}
+      style={{ ...styles.input, ...styles.textarea }}
+    />
+  ) : (
+    <input
+      {...inputProps}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      style={styles.input}
+    />
+  );
+};
+
+/** Installation details of the selected symbol. */
+const PropertiesPanel: React.FC<Props> = ({
+  selected,
+  selectionCount,
+  circuits,
+  rooms,
+  onChange,
+  onAssignCircuit,
+  onClose,
+}) => {
+  const field = (label: string, control: React.ReactNode) => (
+    <label style={styles.field}>
+      <span style={styles.label}>{label}</span>
+      {control}
+    </label>
+  );
+
+  // remount the fields whenever the symbol or a stored value changes
+  const text = (key: keyof SymbolProperties, extra?: React.InputHTMLAttributes<HTMLInputElement>) => {
+    const value = String(selected?.properties[key] ?? "");
+    return (
+      <DraftField
+        key={`${selected?.key}:${key}:${value}`}
+        value={value}
+        onCommit={(v) => onChange({ [key]: v })}
+        inputProps={extra}
+      />
+    );
+  };
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <div style={styles.title}>Properties</div>
+        <button style={styles.hideBtn} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+
+      {!selected && (
+        <div style={styles.empty}>
+          {selectionCount > 1
+            ? `${selectionCount} symbols selected. Select one to edit its details.`
+            : "Select a symbol on the sheet to edit its details."}
+        </div>
+      )}
+
+      {selected && (
+        <>
+          <div style={styles.card}>
+            <div style={styles.symbolName}>{selected.symbol?.name ?? "Unknown symbol"}</div>
+            {selected.symbol && <div style={styles.hint}>{selected.symbol.description}</div>}
+          </div>
+
+          {field(
+            "Mounting height (mm AFL)",
+            text("mountingHeightMm", { type: "number", min: 0, step: 50 })
+          )}
+          {field("Rating", text("rating", { placeholder: "e.g. 13A" }))}
+          {field(
+            "IP rating",
+            <select
+              value={selected.properties.ipRating ?? ""}
+              onChange={(e) => onChange({ ipRating: e.target.value })}
+              style={styles.input}
+            >
+              <option value="">—</option>
+              {IP_RATINGS.map((ip) => (
+                <option key={ip} value={ip}>
+                  {ip}
+                </option>
+              ))}
+            </select>
+          )}
+          {field("Manufacturer", text("manufacturer"))}
+          {field("Product code", text("productCode"))}
+          {field(
+            "Circuit",
+            <select
+              value={selected.circuitId ?? ""}
+              onChange={(e) => onAssignCircuit(e.target.value || null)}
+              style={styles.input}
+            >
+              <option value="">Unassigned</option>
+              {sortCircuits(circuits).map((c) => (
+                <option key={c.id} value={c.id}>
+                  {circuitLabel(c)}
+                </option>
+              ))}
+            </select>
+          )}
+          {field("Room", text("room", { list: "symbol-rooms" }))}
+          <datalist id="symbol-rooms">
+            {rooms.map((r) => (
+              <option key={r} value={r} />
+            ))}
+          </datalist>
+          {field(
+            "Notes",
+            <DraftField
+              key={`${selected.key}:notes:${selected.properties.notes ?? ""}`}
+              value={selected.properties.notes ?? ""}
+              onCommit={(v) => onChange({ notes: v })}
+              multiline
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 300,
+    padding: 12,
+    borderLeft: "1px solid #3d3d3d",
+    background: "#252525",
+    boxShadow: "-2px 0 12px rgba(0,0,0,0.3)",
+    overflowY: "auto",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 13, color: "#e0e0e0", letterSpacing: 0.3 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  empty: { color: "#888", fontSize: 12, padding: "20px 0" },
+  card: {
+    background: "#2d2d2d",
+    border: "1px solid #3d3d3d",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 10,
+    display: "flex",
+    flexDirection: "column",
+    gap: 4,
+  },
+  symbolName: { fontWeight: 700, fontSize: 13, color: "#e0e0e0" },
+  field: { display: "flex", flexDirection: "column", gap: 4, marginBottom: 10 },
+  input: {
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 8px",
+    outline: "none",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  textarea: { height: "auto", padding: "6px 8px", resize: "vertical", fontFamily: "inherit" },
+  hideBtn: {
+    width: 32,
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+};
+
+export default PropertiesPanel;
@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from "react";
+import { CURRENT_DRAWING, nextRevisionCode, Revision, today } from "./revisions";
+
+type Props = {
+  /** Oldest first, as stored; listed newest first */
+  revisions: Revision[];
+  showTable: boolean;
+  onIssue: (code: string, description: string, date: string) => void;
+  onDelete: (id: string) => void;
+  onShowTable: (show: boolean) => void;
+  /** Ids of two revisions, or CURRENT_DRAWING */
+  onCompare: (fromId: string, toId: string) => void;
+  onClose: () => void;
+};
+
+/** Issue named revisions of the drawing and compare any two of them. */
+const RevisionsPanel: React.FC<Props> = ({
+  revisions,
+  showTable,
+  onIssue,
+  onDelete,
+  onShowTable,
+  onCompare,
+  onClose,
+}) => {
+  const [code, setCode] = useState(() => nextRevisionCode(revisions));
+  const [description, setDescription] = useState("");
+  const [date, setDate] = useState(today);
+
+  const latest = revisions[revisions.length - 1];
+  const [fromId, setFromId] = useState(latest?.id ?? "");
+  const [toId, setToId] = useState(CURRENT_DRAWING);
+
+  // suggest the next code and compare against the newest issue once one is added
+  useEffect(() => {
+    setCode(nextRevisionCode(revisions));
+    setFromId((id) => (revisions.some((r) => r.id === id) ? id : latest?.id ?? ""));
+    setToId((id) =>
+      id === CURRENT_DRAWING || revisions.some((r) => r.id === id) ? id : CURRENT_DRAWING
+    );
+  }, [revisions, latest]);
+
+  const taken = revisions.some((r) => r.code.toUpperCase() === code.trim().toUpperCase());
+  const canIssue = !!code.trim() && !!description.trim() && !!date && !taken;
+
+  const issue = () => {
+    if (!canIssue) return;
+    onIssue(code, description, date);
+    setDescription("");
+    setDate(today());
+  };
+
+  const choices = [
+    ...revisions
+      .slice()
+      .reverse()
+      .map((r) => ({ id: r.id, label: `Rev ${r.code} (${r.date})` })),
+    { id: CURRENT_DRAWING, label: "Current drawing" },
+  ];
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <div style={styles.title}>Revisions</div>
+        <button style={styles.hideBtn} onClick={onClose}>
+          ✕
+        </button>
+      </div>
+
+      <div style={styles.section}>
+        <div style={styles.sectionTitle}>Issue a revision</div>
+        <div style={styles.row}>
+          <label style={{ ...styles.field, width: 70 }}>
+            <span style={styles.label}>Code</span>
+            <input value={code} onChange={(e) => setCode(e.target.value)} style={styles.input} />
+          </label>
+          <label style={{ ...styles.field, flex: 1 }}>
+            <span style={styles.label}>Date</span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              style={styles.input}
+            />
+          </label>
+        </div>
+        <label style={styles.field}>
+          <span style={styles.label}>Description</span>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && issue()}
+            placeholder="e.g. Kitchen lighting revised"
+            style={styles.input}
+          />
+        </label>
+        {taken && <span style={styles.error}>Rev {code.trim()} has already been issued.</span>}
+        <button style={styles.primaryBtn} onClick={issue} disabled={!canIssue}>
+          Issue revision
+        </button>
+        <span style={styles.hint}>Keeps a copy of every sheet as it is now.</span>
+      </div>
+
+      <label style={styles.check}>
+        <input
+          type="checkbox"
+          checked={showTable}
+          onChange={(e) => onShowTable(e.target.checked)}
+        />
+        <span style={styles.label}>Show revision table above the title block</span>
+      </label>
+
+      {revisions.length > 0 && (
+        <div style={styles.section}>
+          <div style={styles.sectionTitle}>Compare</div>
+          <div style={styles.row}>
+            <select
+              value={fromId}
+              onChange={(e) => setFromId(e.target.value)}
+              style={styles.select}
+            >
+              {choices
+                .filter((c) => c.id !== CURRENT_DRAWING)
+                .map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.label}
+                  </option>
+                ))}
+            </select>
+            <span style={styles.hint}>→</span>
+            <select value={toId} onChange={(e) => setToId(e.target.value)} style={styles.select}>
+              {choices.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <button
+            style={styles.smallBtn}
+            onClick={() => onCompare(fromId, toId)}
+            disabled={!fromId || fromId === toId}
+          >
+            Compare…
+          </button>
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <div style={styles.hint}>No revisions issued yet.</div>
+      ) : (
+        revisions
+          .slice()
+          .reverse()
+          .map((r) => (
+            <div key={r.id} style={styles.card}>
+              <div style={styles.cardTop}>
+                <span style={styles.code}>Rev {r.code}</span>
+                <span style={styles.hint}>{r.date}</span>
+                <div style={{ flex: 1 }} />
+                <button
+                  style={styles.smallBtnDanger}
+                  onClick={() =>
+                    window.confirm(`Delete revision ${r.code}? Its copy of the drawing is lost.`) &&
+                    onDelete(r.id)
+                  }
+                >
+                  Delete
+                </button>
+              </div>
+              <div style={styles.description}>{r.description}</div>
+              <span style={styles.hint}>
+                {r.sheets.length} sheet{r.sheets.length === 1 ? "" : "s"}
+              </span>
+            </div>
+          ))
+      )}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 320,
+    padding: 12,
+    borderLeft: "1px solid #3d3d3d",
+    background: "#252525",
+    boxShadow: "-2px 0 12px rgba(0,0,0,0.3)",
+    overflowY: "auto",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 13, color: "#e0e0e0", letterSpacing: 0.3 },
+  section: {
+    display: "flex",
+    flexDirection: "column",
+    gap: 8,
+    marginBottom: 12,
+    paddingBottom: 12,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  sectionTitle: { fontSize: 12, fontWeight: 700, color: "#e0e0e0" },
+  row: { display: "flex", alignItems: "flex-end", gap: 8 },
+  field: { display: "flex", flexDirection: "column", gap: 4 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  error: { fontSize: 11, color: "#ff6b6b" },
+  check: { display: "flex", alignItems: "center", gap: 6, marginBottom: 12 },
+  input: {
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 8px",
+    outline: "none",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    minWidth: 0,
+  },
+  select: {
+    flex: 1,
+    minWidth: 0,
+    height: 28,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 6px",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  card: {
+    background: "#2d2d2d",
+    border: "1px solid #3d3d3d",
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 8,
+    display: "flex",
+    flexDirection: "column",
+    gap: 6,
+  },
+  cardTop: { display: "flex", alignItems: "center", gap: 8 },
+  code: { fontSize: 12, fontWeight: 700, color: "#e0e0e0" },
+  description: { fontSize: 12, color: "#e0e0e0" },
+  smallBtn: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  primaryBtn: {
+    height: 30,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  smallBtnDanger: {
+    height: 28,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #8d4d4d",
+    background: "#3d2d2d",
+    color: "#ff6b6b",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  hideBtn: {
+    width: 32,
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+};
+
+export default RevisionsPanel;
@@ -0,0 +1,134 @@
+import React from "react";
+import { ScheduleRow, scheduleTotals } from "./schedule";
+
+type Props = {
+  rows: ScheduleRow[];
+  onExportCsv: () => void;
+  onClose: () => void;
+};
+
+/** Side panel showing the symbol schedule for every sheet of the document. */
+const SchedulePanel: React.FC<Props> = ({ rows, onExportCsv, onClose }) => {
+  const totals = scheduleTotals(rows);
+
+  return (
+    <div style={styles.panel}>
+      <div style={styles.header}>
+        <div style={styles.title}>Schedule</div>
+        <div style={{ display: "flex", gap: 6 }}>
+          <button style={styles.smallBtn} onClick={onExportCsv} disabled={rows.length === 0}>
+            CSV
+          </button>
+          <button style={styles.hideBtn} onClick={onClose}>
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {rows.length === 0 && <div style={styles.empty}>No symbols placed yet.</div>}
+
+      {rows.length > 0 && (
+        <>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th}>Symbol</th>
+                <th style={styles.th}>Room</th>
+                <th style={styles.th}>Circuit</th>
+                <th style={{ ...styles.th, textAlign: "right" }}>Qty</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={`${r.symbolId}|${r.room}|${r.circuit}`}>
+                  <td style={styles.td} title={r.description}>
+                    {r.name}
+                  </td>
+                  <td style={styles.td}>{r.room || "—"}</td>
+                  <td style={styles.td}>{r.circuit || "—"}</td>
+                  <td style={{ ...styles.td, textAlign: "right" }}>{r.quantity}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={styles.subTitle}>Totals</div>
+          <table style={styles.table}>
+            <tbody>
+              {totals.map((t) => (
+                <tr key={t.symbolId}>
+                  <td style={styles.td}>{t.name}</td>
+                  <td style={{ ...styles.td, textAlign: "right", fontWeight: 700 }}>
+                    {t.quantity}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  panel: {
+    width: 300,
+    padding: 12,
+    borderLeft: "1px solid #3d3d3d",
+    background: "#252525",
+    boxShadow: "-2px 0 12px rgba(0,0,0,0.3)",
+    overflowY: "auto",
+  },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 12,
+    paddingBottom: 10,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  title: { fontWeight: 700, fontSize: 13, color: "#e0e0e0", letterSpacing: 0.3 },
+  subTitle: {
+    fontWeight: 700,
+    fontSize: 11,
+    color: "#888",
+    textTransform: "uppercase",
+    letterSpacing: 0.8,
+    margin: "16px 0 6px",
+  },
+  empty: { color: "#888", fontSize: 12, padding: "20px 0" },
+  table: { width: "100%", borderCollapse: "collapse", fontSize: 12, color: "#e0e0e0" },
+  th: {
+    textAlign: "left",
+    padding: "6px 4px",
+    fontSize: 11,
+    color: "#888",
+    fontWeight: 700,
+    borderBottom: "1px solid #3d3d3d",
+  },
+  td: { padding: "6px 4px", borderBottom: "1px solid #2d2d2d" },
+  smallBtn: {
+    height: 30,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  hideBtn: {
+    width: 32,
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+  },
+};
+
+export default SchedulePanel;
@@ -0,0 +1,157 @@
+import React, { useState } from "react";
+import { Sheet } from "./document";
+
+type Props = {
+  sheets: Sheet[];
+  activeId: string;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+/** Tab bar listing the sheets of the open document. Double-click a tab to rename it. */
+const SheetTabs: React.FC<Props> = ({
+  sheets,
+  activeId,
+  onSelect,
+  onAdd,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const startRename = (sheet: Sheet) => {
+    setEditingId(sheet.id);
+    setDraft(sheet.name);
+  };
+
+  const commitRename = () => {
+    if (editingId && draft.trim()) onRename(editingId, draft.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div style={styles.bar}>
+      {sheets.map((sheet) => {
+        const active = sheet.id === activeId;
+        return (
+          <div
+            key={sheet.id}
+            style={{ ...styles.tab, ...(active ? styles.tabOn : null) }}
+            onClick={() => !active && onSelect(sheet.id)}
+            onDoubleClick={() => startRename(sheet)}
+            title="Double-click to rename"
+          >
+            {editingId === sheet.id ? (
+              <input
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") commitRename();
+                  if (e.key === "Escape") setEditingId(null);
+                }}
+                style={styles.input}
+              />
+            ) : (
+              <span style={styles.tabName}>{sheet.name}</span>
+            )}
+            {sheets.length > 1 && (
+              <button
+                type="button"
+                style={styles.closeBtn}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onDelete(sheet.id);
+                }}
+                title="Delete sheet"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      <button type="button" style={styles.addBtn} onClick={onAdd} title="Add sheet">
+        + Sheet
+      </button>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  bar: {
+    display: "flex",
+    alignItems: "flex-end",
+    gap: 4,
+    padding: "6px 16px 0",
+    background: "#252525",
+    borderBottom: "1px solid #3d3d3d",
+    overflowX: "auto",
+  },
+  tab: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+    height: 32,
+    padding: "0 12px",
+    borderRadius: "6px 6px 0 0",
+    border: "1px solid #3d3d3d",
+    borderBottom: "none",
+    background: "#2d2d2d",
+    color: "#a0a0a0",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 600,
+    whiteSpace: "nowrap",
+    userSelect: "none",
+  },
+  tabOn: {
+    background: "#3d3d3d",
+    color: "#ffffff",
+    borderColor: "#4d6a90",
+    boxShadow: "inset 0 2px 0 #5fa3ff",
+  },
+  tabName: { letterSpacing: 0.3 },
+  input: {
+    height: 22,
+    width: 120,
+    borderRadius: 4,
+    border: "1px solid #4d4d4d",
+    padding: "0 6px",
+    outline: "none",
+    fontSize: 12,
+    background: "#2d2d2d",
+    color: "#e0e0e0",
+  },
+  closeBtn: {
+    width: 18,
+    height: 18,
+    padding: 0,
+    borderRadius: 4,
+    border: "none",
+    background: "transparent",
+    color: "#888",
+    cursor: "pointer",
+    fontSize: 11,
+  },
+  addBtn: {
+    height: 28,
+    marginBottom: 2,
+    marginLeft: 4,
+    padding: "0 10px",
+    borderRadius: 6,
+    border: "1px dashed #4d4d4d",
+    background: "transparent",
+    color: "#a0a0a0",
+    cursor: "pointer",
+    fontSize: 12,
+    fontWeight: 600,
+  },
+};
+
+export default SheetTabs;
@@ -0,0 +1,289 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { deleteSymbol, listSymbols, saveSymbols } from "./docStore";
+import { downloadJson } from "./download";
+import {
+  createUserSymbol,
+  isUserSymbol,
+  libraryFile,
+  mergeSymbols,
+  parseSymbolLibrary,
+  SymbolDraft,
+} from "./symbolLibrary";
+import { groupSymbols, matchesSymbol, setUserSymbols, SymbolDef, SYMBOLS } from "./symbols";
+import SymbolUploadDialog from "./SymbolUploadDialog";
+
+export const SYMBOL_MIME = "application/x-rjded-symbol";
+
+const storageError = (e: unknown) =>
+  (e as any)?.name === "QuotaExceededError"
+    ? "Browser storage is full. Delete some saved documents and try again."
+    : "Browser storage isn't available.";
+
+/**
+ * Searchable, grouped list of catalogue symbols to drag onto the page,
+ * with the user's uploaded symbols alongside the built-in ones.
+ */
+const SymbolPalette: React.FC = () => {
+  const [query, setQuery] = useState("");
+  const [library, setLibrary] = useState<SymbolDef[]>([]);
+  // the symbol being edited, or "new" for an upload
+  const [editing, setEditing] = useState<SymbolDef | "new" | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+
+  const showLibrary = (symbols: SymbolDef[]) => {
+    setUserSymbols(symbols);
+    setLibrary(symbols);
+  };
+
+  useEffect(() => {
+    listSymbols()
+      .then(showLibrary)
+      .catch((e) => console.error("Symbol library unavailable", e));
+  }, []);
+
+  const groups = useMemo(
+    () => groupSymbols([...SYMBOLS, ...library].filter((s) => matchesSymbol(s, query))),
+    [query, library]
+  );
+
+  const handleDragStart = (event: React.DragEvent<HTMLElement>, symbol: SymbolDef) => {
+    event.dataTransfer.setData(SYMBOL_MIME, symbol.id);
+    event.dataTransfer.setData("text/plain", symbol.src);
+    event.dataTransfer.effectAllowed = "copy";
+  };
+
+  const handleApply = async (draft: SymbolDraft) => {
+    const symbol =
+      editing && editing !== "new"
+        ? { ...editing, ...draft, name: draft.name.trim(), description: draft.description.trim() }
+        : createUserSymbol(draft);
+    try {
+      await saveSymbols([symbol]);
+    } catch (e) {
+      console.error(e);
+      alert(`The symbol wasn't saved. ${storageError(e)}`);
+      return;
+    }
+    showLibrary(mergeSymbols(library, [symbol]));
+    setEditing(null);
+  };
+
+  const handleDelete = async (symbol: SymbolDef) => {
+    if (
+      !window.confirm(
+        `Remove "${symbol.name}" from the library? Copies already placed stay on the drawing.`
+      )
+    ) {
+      return;
+    }
+    try {
+      await deleteSymbol(symbol.id);
+      showLibrary(library.filter((s) => s.id !== symbol.id));
+    } catch (e) {
+      console.error(e);
+      alert("Failed to remove that symbol.");
+    }
+  };
+
+  const handleExport = () => downloadJson("symbol-library.json", libraryFile(library));
+
+  const handleImport = async (file: File) => {
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      alert("That file isn't a symbol library: it isn't valid JSON.");
+      return;
+    }
+
+    const read = parseSymbolLibrary(json);
+    if (!read.ok) {
+      alert(
+        `That library can't be imported:\n• ${read.problems.slice(0, 10).join("\n• ")}` +
+          (read.problems.length > 10 ? `\n…and ${read.problems.length - 10} more` : "")
+      );
+      return;
+    }
+    try {
+      await saveSymbols(read.symbols);
+    } catch (e) {
+      console.error(e);
+      alert(`The library wasn't imported. ${storageError(e)}`);
+      return;
+    }
+    const known = new Set(library.map((s) => s.id));
+    const updated = read.symbols.filter((s) => known.has(s.id)).length;
+    showLibrary(mergeSymbols(library, read.symbols));
+    alert(
+      `Imported ${read.symbols.length - updated} new symbol(s)` +
+        (updated > 0 ? ` and updated ${updated}.` : ".")
+    );
+  };
+
+  return (
+    <div style={styles.palette}>
+      <input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search symbols…"
+        style={styles.search}
+      />
+
+      <div style={styles.libraryBar}>
+        <button
+          style={styles.libraryBtn}
+          onClick={() => setEditing("new")}
+          title="Add a PNG or SVG symbol to your library"
+        >
+          + Upload
+        </button>
+        <button
+          style={styles.libraryBtn}
+          onClick={() => importRef.current?.click()}
+          title="Add the symbols from a library file"
+        >
+          Import
+        </button>
+        <button
+          style={styles.libraryBtn}
+          onClick={handleExport}
+          disabled={library.length === 0}
+          title="Save your symbols to a file to share them"
+        >
+          Export
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const f = e.target.files?.[0];
+            if (f) handleImport(f);
+            e.currentTarget.value = "";
+          }}
+        />
+      </div>
+
+      {groups.length === 0 && <div style={styles.empty}>No matching symbols.</div>}
+
+      {groups.map((group) => (
+        <div key={group.id} style={styles.group}>
+          <div style={styles.groupTitle}>{group.label}</div>
+          {group.symbols.map((symbol) => (
+            <div
+              key={symbol.id}
+              draggable
+              onDragStart={(e) => handleDragStart(e, symbol)}
+              style={styles.item}
+              title={`${symbol.description || symbol.name} (${symbol.sizeMm} mm). Drag onto page`}
+            >
+              <img src={symbol.src} alt={symbol.name} style={styles.icon} draggable={false} />
+              <span style={styles.name}>{symbol.name}</span>
+              {isUserSymbol(symbol) && (
+                <span style={styles.itemBtns}>
+                  <button
+                    style={styles.itemBtn}
+                    onClick={() => setEditing(symbol)}
+                    title="Edit symbol"
+                  >
+                    ✎
+                  </button>
+                  <button
+                    style={styles.itemBtn}
+                    onClick={() => handleDelete(symbol)}
+                    title="Remove from library"
+                  >
+                    ✕
+                  </button>
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      ))}
+
+      {editing && (
+        <SymbolUploadDialog
+          symbol={editing === "new" ? undefined : editing}
+          onApply={handleApply}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  palette: { display: "flex", flexDirection: "column", gap: 10, width: "100%" },
+  search: {
+    height: 32,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 10px",
+    outline: "none",
+    fontSize: 12,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  empty: { color: "#888", fontSize: 12, padding: "8px 0" },
+  libraryBar: { display: "flex", gap: 4 },
+  libraryBtn: {
+    flex: 1,
+    height: 26,
+    padding: "0 4px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 11,
+  },
+  group: { display: "flex", flexDirection: "column", gap: 6 },
+  groupTitle: {
+    fontSize: 10,
+    fontWeight: 700,
+    color: "#888",
+    textTransform: "uppercase",
+    letterSpacing: 0.8,
+    padding: "4px 2px",
+    borderBottom: "1px solid #3d3d3d",
+  },
+  item: {
+    display: "flex",
+    alignItems: "center",
+    gap: 10,
+    padding: 6,
+    borderRadius: 8,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    cursor: "grab",
+    boxShadow: "0 2px 4px rgba(0,0,0,0.3)",
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    flexShrink: 0,
+    borderRadius: 4,
+    padding: 2,
+    background: "#ffffff",
+    objectFit: "contain",
+  },
+  name: { flex: 1, minWidth: 0, fontSize: 12, fontWeight: 600, color: "#e0e0e0" },
+  itemBtns: { display: "flex", flexDirection: "column", gap: 2, flexShrink: 0 },
+  itemBtn: {
+    width: 20,
+    height: 18,
+    padding: 0,
+    borderRadius: 4,
+    border: "1px solid #4d4d4d",
+    background: "#2d2d2d",
+    color: "#a0a0a0",
+    cursor: "pointer",
+    fontSize: 10,
+    lineHeight: 1,
+  },
+};
+
+export default SymbolPalette;
@@ -0,0 +1,269 @@
+import React, { useState } from "react";
+import { ANCHOR_PRESETS, checkSymbolFile, SymbolDraft } from "./symbolLibrary";
+import { SYMBOL_CATEGORIES, SymbolCategory, SymbolDef } from "./symbols";
+
+type Props = {
+  /** Library symbol being edited; a new upload when absent */
+  symbol?: SymbolDef;
+  onApply: (draft: SymbolDraft) => void;
+  onCancel: () => void;
+};
+
+const sameAnchor = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  a.x === b.x && a.y === b.y;
+
+/** Upload a PNG or SVG as a library symbol, or change one already uploaded. */
+const SymbolUploadDialog: React.FC<Props> = ({ symbol, onApply, onCancel }) => {
+  const [src, setSrc] = useState(symbol?.src ?? "");
+  const [name, setName] = useState(symbol?.name ?? "");
+  const [category, setCategory] = useState<SymbolCategory>(symbol?.category ?? "power");
+  const [description, setDescription] = useState(symbol?.description ?? "");
+  const [sizeMm, setSizeMm] = useState(String(symbol?.sizeMm ?? 7));
+  const [anchorId, setAnchorId] = useState(
+    () =>
+      ANCHOR_PRESETS.find((p) => symbol && sameAnchor(p.anchor, symbol.anchor))?.id ?? "centre"
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const anchor = ANCHOR_PRESETS.find((p) => p.id === anchorId)!.anchor;
+  const size = Number(sizeMm);
+  const canApply = !!src && !!name.trim() && size > 0;
+
+  const handleFile = (file: File) => {
+    const problem = checkSymbolFile(file);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      // make sure the browser can draw it before it goes in the library
+      const img = new Image();
+      img.onload = () => {
+        setError(null);
+        setSrc(dataUrl);
+        if (!name.trim()) setName(file.name.replace(/\.[^.]+$/, "").replace(/[-_]+/g, " "));
+      };
+      img.onerror = () => setError("That image couldn't be read.");
+      img.src = dataUrl;
+    };
+    reader.onerror = () => setError("Couldn't read that file.");
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onCancel}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.title}>{symbol ? "Edit symbol" : "Upload symbol"}</div>
+        <div style={styles.sub}>
+          PNG or SVG, up to 256 KB. Kept in this browser; export the library to share it.
+        </div>
+
+        <div style={styles.body}>
+          <div style={styles.previewCol}>
+            <div style={styles.preview}>
+              {src ? (
+                <div style={styles.imageWrap}>
+                  <img src={src} alt="Symbol preview" style={styles.image} />
+                  <span
+                    style={{
+                      ...styles.anchorDot,
+                      left: `${anchor.x * 100}%`,
+                      top: `${anchor.y * 100}%`,
+                    }}
+                    title="Insertion point"
+                  />
+                </div>
+              ) : (
+                <span style={styles.hint}>No image</span>
+              )}
+            </div>
+            <label style={styles.btn}>
+              {src ? "Replace image…" : "Choose image…"}
+              <input
+                type="file"
+                accept=".png,.svg,image/png,image/svg+xml"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) handleFile(f);
+                  e.currentTarget.value = "";
+                }}
+              />
+            </label>
+          </div>
+
+          <div style={styles.fields}>
+            <label style={styles.field}>
+              <span style={styles.label}>Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. EV charger"
+                style={styles.input}
+              />
+            </label>
+            <label style={styles.field}>
+              <span style={styles.label}>Category</span>
+              <select
+                value={category}
+                onChange={(e) => setCategory(e.target.value as SymbolCategory)}
+                style={styles.input}
+              >
+                {SYMBOL_CATEGORIES.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label style={styles.field}>
+              <span style={styles.label}>Description</span>
+              <input
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Shown when hovering in the palette"
+                style={styles.input}
+              />
+            </label>
+            <div style={styles.row}>
+              <label style={{ ...styles.field, width: 90 }}>
+                <span style={styles.label}>Width (mm)</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={0.5}
+                  value={sizeMm}
+                  onChange={(e) => setSizeMm(e.target.value)}
+                  style={styles.input}
+                />
+              </label>
+              <label style={{ ...styles.field, flex: 1 }}>
+                <span style={styles.label}>Insertion point</span>
+                <select
+                  value={anchorId}
+                  onChange={(e) => setAnchorId(e.target.value)}
+                  style={styles.input}
+                >
+                  {ANCHOR_PRESETS.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={styles.footer}>
+          <div style={{ flex: 1 }} />
+          <button type="button" style={styles.btn} onClick={onCancel}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            style={styles.btnPrimary}
+            disabled={!canApply}
+            onClick={() => onApply({ name, category, description, src, sizeMm: size, anchor })}
+          >
+            {symbol ? "Apply" : "Add to library"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: 520,
+    padding: 16,
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+    color: "#e0e0e0",
+  },
+  title: { fontWeight: 700, fontSize: 14, letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  body: { display: "flex", gap: 16, marginTop: 14 },
+  previewCol: { display: "flex", flexDirection: "column", gap: 8, width: 140 },
+  preview: {
+    height: 140,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "#ffffff",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+  },
+  imageWrap: { position: "relative", lineHeight: 0 },
+  image: { maxWidth: 110, maxHeight: 110, outline: "1px dashed #bbbbbb" },
+  anchorDot: {
+    position: "absolute",
+    width: 8,
+    height: 8,
+    marginLeft: -4,
+    marginTop: -4,
+    borderRadius: "50%",
+    background: "#e53935",
+    border: "1px solid #ffffff",
+  },
+  fields: { flex: 1, display: "flex", flexDirection: "column", gap: 10 },
+  row: { display: "flex", gap: 10 },
+  field: { display: "flex", flexDirection: "column", gap: 4 },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  input: {
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 10px",
+    outline: "none",
+    fontSize: 13,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  error: { fontSize: 12, color: "#ff6b6b", marginTop: 10 },
+  footer: { display: "flex", gap: 8, marginTop: 16 },
+  btn: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+    display: "inline-flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  btnPrimary: {
+    height: 32,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default SymbolUploadDialog;
@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { TitleBlockFields } from "./titleBlock";
+
+type Props = {
+  fields: TitleBlockFields;
+  onApply: (fields: TitleBlockFields) => void;
+  onCancel: () => void;
+};
+
+type TextKey = Exclude<keyof TitleBlockFields, "logo">;
+
+const FIELDS: { key: TextKey; label: string; placeholder?: string; wide?: boolean }[] = [
+  { key: "company", label: "Company", wide: true },
+  { key: "project", label: "Project", wide: true },
+  { key: "address", label: "Address", wide: true },
+  { key: "client", label: "Client", wide: true },
+  { key: "drawingTitle", label: "Drawing title", placeholder: "Sheet name", wide: true },
+  { key: "drawingNumber", label: "Drawing no." },
+  { key: "revision", label: "Revision", placeholder: "A" },
+  { key: "scale", label: "Scale", placeholder: "From calibration" },
+  { key: "date", label: "Date" },
+  { key: "drawnBy", label: "Drawn by" },
+  { key: "checkedBy", label: "Checked by" },
+];
+
+// keep documents small enough for browser storage
+const MAX_LOGO_BYTES = 512 * 1024;
+
+/** Edit the title block printed on every sheet of the document. */
+const TitleBlockDialog: React.FC<Props> = ({ fields, onApply, onCancel }) => {
+  const [draft, setDraft] = useState<TitleBlockFields>(fields);
+  const [error, setError] = useState<string | null>(null);
+
+  const set = (key: TextKey, value: string) => setDraft((d) => ({ ...d, [key]: value }));
+
+  const handleLogo = (file: File) => {
+    if (!file.type.startsWith("image/")) {
+      setError("The logo must be an image (PNG, JPEG or SVG).");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError("The logo must be under 512 KB.");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setError(null);
+      setDraft((d) => ({ ...d, logo: reader.result as string }));
+    };
+    reader.onerror = () => setError("Couldn't read that file.");
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <div style={styles.backdrop} onMouseDown={onCancel}>
+      <div style={styles.dialog} onMouseDown={(e) => e.stopPropagation()}>
+        <div style={styles.title}>Title block</div>
+        <div style={styles.sub}>Printed in the bottom-right corner of every sheet.</div>
+
+        <div style={styles.grid}>
+          {FIELDS.map(({ key, label, placeholder, wide }) => (
+            <label key={key} style={{ ...styles.field, ...(wide ? styles.wide : null) }}>
+              <span style={styles.label}>{label}</span>
+              <input
+                value={draft[key]}
+                onChange={(e) => set(key, e.target.value)}
+                placeholder={placeholder}
+                style={styles.input}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div style={styles.logoRow}>
+          <span style={styles.label}>Logo</span>
+          {draft.logo ? (
+            <img src={draft.logo} alt="Company logo" style={styles.logo} />
+          ) : (
+            <span style={styles.hint}>None</span>
+          )}
+          <div style={{ flex: 1 }} />
+          <label style={styles.btn}>
+            Choose…
+            <input
+              type="file"
+              accept="image/*"
+              style={{ display: "none" }}
+              onChange={(e) => {
+                const f = e.target.files?.[0];
+                if (f) handleLogo(f);
+                e.currentTarget.value = "";
+              }}
+            />
+          </label>
+          {draft.logo && (
+            <button
+              type="button"
+              style={styles.btn}
+              onClick={() => setDraft((d) => ({ ...d, logo: undefined }))}
+            >
+              Remove
+            </button>
+          )}
+        </div>
+
+        {error && <div style={styles.error}>{error}</div>}
+
+        <div style={styles.footer}>
+          <div style={{ flex: 1 }} />
+          <button type="button" style={styles.btn} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="button" style={styles.btnPrimary} onClick={() => onApply(draft)}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const styles: Record<string, React.CSSProperties> = {
+  backdrop: {
+    position: "fixed",
+    inset: 0,
+    zIndex: 1000,
+    background: "rgba(0,0,0,0.6)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  dialog: {
+    width: 480,
+    padding: 16,
+    background: "#2d2d2d",
+    border: "1px solid #4d4d4d",
+    borderRadius: 8,
+    boxShadow: "0 8px 32px rgba(0,0,0,0.6)",
+    color: "#e0e0e0",
+  },
+  title: { fontWeight: 700, fontSize: 14, letterSpacing: 0.3 },
+  sub: { fontSize: 11, color: "#888", marginTop: 4 },
+  grid: {
+    display: "grid",
+    gridTemplateColumns: "1fr 1fr",
+    gap: 10,
+    marginTop: 14,
+  },
+  field: { display: "flex", flexDirection: "column", gap: 4 },
+  wide: { gridColumn: "1 / -1" },
+  label: { fontSize: 12, color: "#a0a0a0" },
+  hint: { fontSize: 11, color: "#888" },
+  input: {
+    height: 30,
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    padding: "0 10px",
+    outline: "none",
+    fontSize: 13,
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+  },
+  logoRow: { display: "flex", alignItems: "center", gap: 8, marginTop: 14 },
+  logo: {
+    maxWidth: 90,
+    maxHeight: 40,
+    background: "#ffffff",
+    borderRadius: 4,
+    padding: 2,
+  },
+  error: { fontSize: 12, color: "#ff6b6b", marginTop: 10 },
+  footer: { display: "flex", gap: 8, marginTop: 16 },
+  btn: {
+    height: 32,
+    padding: "0 12px",
+    borderRadius: 6,
+    border: "1px solid #4d4d4d",
+    background: "#3d3d3d",
+    color: "#e0e0e0",
+    cursor: "pointer",
+    fontWeight: 600,
+    fontSize: 12,
+    display: "inline-flex",
+    alignItems: "center",
+  },
+  btnPrimary: {
+    height: 32,
+    padding: "0 14px",
+    borderRadius: 6,
+    border: "1px solid #4d6a90",
+    background: "linear-gradient(180deg, #3d5a80 0%, #2c4766 100%)",
+    color: "white",
+    cursor: "pointer",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+};
+
+export default TitleBlockDialog;
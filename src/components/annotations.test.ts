@@ -0,0 +1,89 @@
+import { Point, Rect } from "fabric";
+import {
+  createLeader,
+  labelOffsetFor,
+  SYMBOL_LABEL_NAME,
+  symbolLabelText,
+  syncLeaders,
+  syncSymbolLabels,
+} from "./annotations";
+import { getWorldPoints } from "./cables";
+import { createCircuit } from "./circuits";
+import { sheetOf } from "./testCanvas";
+
+// jsdom has no 2d context, so text objects are stood in for by rects
+const labelFor = (symbol: any, offset: { x: number; y: number }) =>
+  Object.assign(new Rect({ width: 40, height: 10 }), {
+    name: SYMBOL_LABEL_NAME,
+    labelFor: symbol.uid,
+    labelOffset: offset,
+  }) as any;
+
+test("labels are generated from the symbol and its circuit", () => {
+  const circuit = { ...createCircuit([], "c1"), number: "3" };
+  expect(
+    symbolLabelText(
+      { symbolId: "socket-twin", circuit: "c1", room: "Kitchen", mountingHeightMm: 450 },
+      [circuit]
+    )
+  ).toBe("Twin socket @ 450mm AFL · Ckt 3 · Kitchen");
+  expect(symbolLabelText({ symbolId: "downlight" }, [])).toBe("Downlight");
+});
+
+test("a label moves and turns with its symbol but stays readable", () => {
+  const symbol = Object.assign(new Rect({ left: 100, top: 100, width: 20, height: 20 }), {
+    uid: "s1",
+  });
+  const label = labelFor(symbol, { x: 0, y: -30 });
+  const canvas = sheetOf(symbol, label);
+
+  symbol.set({ angle: 90 });
+  syncSymbolLabels(canvas);
+  expect(label.getCenterPoint().x).toBeCloseTo(130);
+  expect(label.getCenterPoint().y).toBeCloseTo(100);
+  expect(label.angle).toBeCloseTo(90);
+
+  symbol.set({ angle: 180 });
+  syncSymbolLabels(canvas);
+  expect(label.getCenterPoint().y).toBeCloseTo(130);
+  expect(label.angle).toBeCloseTo(0);
+});
+
+test("a dragged label keeps its new offset", () => {
+  const symbol = Object.assign(
+    new Rect({ left: 100, top: 100, width: 20, height: 20, angle: 90 }),
+    { uid: "s1" }
+  );
+  const label = labelFor(symbol, { x: 0, y: 0 });
+  label.set({ left: 100, top: 150 });
+
+  expect(labelOffsetFor(label, symbol).x).toBeCloseTo(50);
+  expect(labelOffsetFor(label, symbol).y).toBeCloseTo(0);
+});
+
+test("leader tails follow their note's nearest edge", () => {
+  const note = Object.assign(
+    new Rect({
+      left: 100,
+      top: 100,
+      width: 40,
+      height: 10,
+      strokeWidth: 0,
+      originX: "left",
+      originY: "top",
+    }),
+    { uid: "n1" }
+  );
+  const leader = createLeader(new Point(0, 105), note);
+  expect(getWorldPoints(leader)[1].x).toBeCloseTo(100);
+
+  note.set({ left: -100, top: 200 });
+  note.setCoords();
+  syncLeaders(sheetOf(note, leader));
+  const [tip, tail] = getWorldPoints(leader);
+  expect(tip.x).toBeCloseTo(0);
+  expect(tip.y).toBeCloseTo(105);
+  expect(tail.x).toBeCloseTo(-60);
+  expect(tail.y).toBeCloseTo(205);
+  expect(leader.arrowHead()).toHaveLength(3);
+});
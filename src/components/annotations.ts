@@ -0,0 +1,333 @@
+import {
+  classRegistry,
+  FabricObject,
+  IText,
+  Point,
+  Polyline,
+  StaticCanvas,
+  TMat2D,
+  util as fabricUtil,
+} from "fabric";
+import { getWorldPoints, setWorldPoints } from "./cables";
+import { Circuit } from "./circuits";
+import { mmToPx } from "./page";
+import { getSymbolProperties, mountingHeightText } from "./symbolProperties";
+import { getSymbol, symbolIdOf } from "./symbols";
+
+/**
+ * Text on the sheet: free notes (optionally pointed at something with a
+ * leader arrow) and labels attached to a symbol. Both are ordinary IText,
+ * so they edit in place and export as real text.
+ */
+export const NOTE_NAME = "NOTE";
+export const SYMBOL_LABEL_NAME = "SYMBOL_LABEL";
+export const LEADER_NAME = "LEADER";
+
+export type TextStyle = {
+  /** Printed cap height, roughly, in mm */
+  sizeMm: number;
+  bold: boolean;
+};
+
+export const TEXT_SIZES_MM = [2.5, 3.5, 5, 7];
+export const DEFAULT_TEXT_STYLE: TextStyle = { sizeMm: 3.5, bold: false };
+
+const TEXT_FONT = "Arial";
+const TEXT_COLOUR = "#1a1a1a";
+const LABEL_GAP = mmToPx(1);
+const ARROW_LEN = mmToPx(2.5);
+const ARROW_HALF_W = mmToPx(0.9);
+
+export const isNote = (obj: any) => obj?.name === NOTE_NAME;
+export const isSymbolLabel = (obj: any) => obj?.name === SYMBOL_LABEL_NAME;
+export const isAnnotationText = (obj: any) => isNote(obj) || isSymbolLabel(obj);
+
+export const textStyleProps = (style: TextStyle) => ({
+  fontSize: mmToPx(style.sizeMm),
+  fontWeight: style.bold ? "bold" : "normal",
+});
+
+/** Style of an existing note or label, for the toolbar */
+export const textStyleOf = (obj: any): TextStyle => ({
+  sizeMm: Math.round((obj.fontSize / mmToPx(1)) * 10) / 10,
+  bold: obj.fontWeight === "bold",
+});
+
+const textOptions = (style: TextStyle) => ({
+  ...textStyleProps(style),
+  fontFamily: TEXT_FONT,
+  fill: TEXT_COLOUR,
+  hasControls: false,
+  hasBorders: false,
+  editingBorderColor: "#5fa3ff",
+});
+
+/** Free note with its top-left corner at `at` */
+export function createNote(text: string, at: Point, style: TextStyle): IText {
+  const note = new IText(text, {
+    ...textOptions(style),
+    originX: "left",
+    originY: "top",
+    left: at.x,
+    top: at.y,
+  }) as any;
+  note.name = NOTE_NAME;
+  return note;
+}
+
+export type TextLine = {
+  text: string;
+  /** Start of the line's baseline, in the text object's centred frame */
+  x: number;
+  y: number;
+};
+
+/** Lines of a Fabric text object where Fabric paints them, for vector exports */
+export function textLinesOf(obj: any): TextLine[] {
+  const left = -(obj.width ?? 0) / 2;
+  let top = -(obj.height ?? 0) / 2;
+  return (obj._textLines as string[][]).map((chars, i) => {
+    // same baseline Fabric uses when it paints the line
+    const baseline = top + obj.getHeightOfLineImpl(i) * (1 - obj._fontSizeFraction);
+    top += obj.getHeightOfLine(i);
+    return { text: chars.join(""), x: left + obj._getLineLeftOffset(i), y: baseline };
+  });
+}
+
+// ---- Symbol labels ----
+
+/** "Twin socket @ 450mm AFL · Ckt 3 · Kitchen" from what is known about a symbol */
+export function symbolLabelText(symbol: any, circuits: Circuit[]): string {
+  const props = getSymbolProperties(symbol);
+  const circuit = symbol.circuit ? circuits.find((c) => c.id === symbol.circuit) : undefined;
+  const name = getSymbol(symbolIdOf(symbol))?.name ?? "Symbol";
+  return [
+    [name, mountingHeightText(props)].filter(Boolean).join(" "),
+    circuit && `Ckt ${circuit.number}`,
+    props.room,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/** Keep text within ±90° so it never reads upside down */
+const readableAngle = (angle: number) => {
+  const a = ((angle % 360) + 360) % 360;
+  return a > 90 && a <= 270 ? a - 180 : a;
+};
+
+/** Give an object a world transform, whether or not it sits in a selection */
+function setWorldTransform(obj: FabricObject, matrix: TMat2D) {
+  const parent = obj.group
+    ? fabricUtil.invertTransform(obj.group.calcTransformMatrix())
+    : null;
+  fabricUtil.applyTransformToObject(
+    obj,
+    parent ? fabricUtil.multiplyTransformMatrices(parent, matrix) : matrix
+  );
+  obj.setCoords();
+}
+
+/** Centre of the label sits at `labelOffset` in the symbol's own (rotated) frame */
+function placeLabel(label: any, symbol: FabricObject) {
+  const { translateX, translateY, angle } = fabricUtil.qrDecompose(symbol.calcTransformMatrix());
+  const offset = new Point(label.labelOffset ?? { x: 0, y: 0 }).rotate(
+    fabricUtil.degreesToRadians(angle)
+  );
+  setWorldTransform(
+    label,
+    fabricUtil.composeMatrix({
+      translateX: translateX + offset.x,
+      translateY: translateY + offset.y,
+      angle: readableAngle(angle),
+    })
+  );
+}
+
+/** Label offset that keeps the label where it is now, relative to its symbol */
+export function labelOffsetFor(label: FabricObject, symbol: FabricObject) {
+  const s = fabricUtil.qrDecompose(symbol.calcTransformMatrix());
+  const l = fabricUtil.qrDecompose(label.calcTransformMatrix());
+  const p = new Point(l.translateX - s.translateX, l.translateY - s.translateY).rotate(
+    -fabricUtil.degreesToRadians(s.angle)
+  );
+  return { x: p.x, y: p.y };
+}
+
+/**
+ * Label for a symbol, just outside its room-side edge. `labelAuto` labels
+ * are rewritten when the symbol's details change, until edited by hand.
+ */
+export function createSymbolLabel(symbol: any, text: string, style: TextStyle): IText {
+  const label = new IText(text, {
+    ...textOptions(style),
+    originX: "center",
+    originY: "center",
+  }) as any;
+  label.name = SYMBOL_LABEL_NAME;
+  label.labelFor = symbol.uid;
+  label.labelAuto = true;
+  label.layer = symbol.layer;
+  label.labelOffset = {
+    x: 0,
+    y: -(symbol.getScaledHeight() / 2 + LABEL_GAP + label.height / 2),
+  };
+  placeLabel(label, symbol);
+  return label;
+}
+
+const byUid = (canvas: StaticCanvas) => {
+  const map = new Map<string, any>();
+  canvas.getObjects().forEach((o: any) => o?.uid && map.set(o.uid, o));
+  return map;
+};
+
+/** Move labels onto their symbols; only those of `symbols` when given. */
+export function syncSymbolLabels(canvas: StaticCanvas, symbols?: FabricObject[]) {
+  const uids = symbols && new Set(symbols.map((s: any) => s.uid).filter(Boolean));
+  const lookup = byUid(canvas);
+  canvas
+    .getObjects()
+    .filter(isSymbolLabel)
+    .forEach((label: any) => {
+      if (uids && !uids.has(label.labelFor)) return;
+      const symbol = lookup.get(label.labelFor);
+      if (symbol) placeLabel(label, symbol);
+    });
+}
+
+/** Rewrite generated labels from their symbols' current details */
+export function refreshSymbolLabels(canvas: StaticCanvas, circuits: Circuit[]) {
+  const lookup = byUid(canvas);
+  canvas
+    .getObjects()
+    .filter(isSymbolLabel)
+    .forEach((label: any) => {
+      const symbol = lookup.get(label.labelFor);
+      if (!symbol || !label.labelAuto || label.isEditing) return;
+      const text = symbolLabelText(symbol, circuits);
+      if (text === label.text) return;
+      label.set({ text });
+      placeLabel(label, symbol);
+    });
+}
+
+// ---- Leaders ----
+
+// Custom props live on the interface: class fields would be reset after
+// Polyline's constructor has applied the options.
+export interface Leader {
+  /** uid of the note the tail is attached to */
+  noteRef?: string;
+}
+
+/**
+ * Arrow from a point on the plan to a note. The first point is the arrow
+ * tip, the last one follows the note's nearest edge.
+ */
+export class Leader extends Polyline {
+  static type = "Leader";
+
+  constructor(points: { x: number; y: number }[] = [], options: any = {}) {
+    super(points, {
+      fill: "",
+      stroke: TEXT_COLOUR,
+      strokeWidth: mmToPx(0.25),
+      objectCaching: false,
+      strokeLineCap: "round",
+      strokeLineJoin: "round",
+      hasBorders: false,
+      hasControls: false,
+      lockMovementX: true,
+      lockMovementY: true,
+      ...options,
+    });
+    (this as any).name = LEADER_NAME;
+  }
+
+  /** Arrowhead triangle in the leader's own (centred) coordinates */
+  arrowHead(): { x: number; y: number }[] | null {
+    if (this.points.length < 2) return null;
+    const off = this.pathOffset;
+    const [tip, next] = this.points;
+    const len = Math.hypot(next.x - tip.x, next.y - tip.y);
+    if (len === 0) return null;
+    const ux = (next.x - tip.x) / len;
+    const uy = (next.y - tip.y) / len;
+    const bx = tip.x + ux * ARROW_LEN;
+    const by = tip.y + uy * ARROW_LEN;
+    return [
+      { x: tip.x, y: tip.y },
+      { x: bx - uy * ARROW_HALF_W, y: by + ux * ARROW_HALF_W },
+      { x: bx + uy * ARROW_HALF_W, y: by - ux * ARROW_HALF_W },
+    ].map((p) => ({ x: p.x - off.x, y: p.y - off.y }));
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx);
+    const head = this.arrowHead();
+    if (!head) return;
+
+    ctx.save();
+    ctx.beginPath();
+    head.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+    ctx.closePath();
+    ctx.fillStyle = this.stroke as string;
+    ctx.fill();
+    ctx.restore();
+  }
+}
+
+classRegistry.setClass(Leader);
+
+export const isLeader = (obj: any): obj is Leader => obj?.name === LEADER_NAME;
+
+/** Middle of the side of `note`'s box that faces `from` */
+export function leaderTail(note: FabricObject, from: { x: number; y: number }) {
+  const b = note.getBoundingRect();
+  const cx = b.left + b.width / 2;
+  const cy = b.top + b.height / 2;
+  if (from.x < b.left) return new Point(b.left, cy);
+  if (from.x > b.left + b.width) return new Point(b.left + b.width, cy);
+  return new Point(cx, from.y < cy ? b.top : b.top + b.height);
+}
+
+export function createLeader(tip: Point, note: any): Leader {
+  const leader = new Leader([tip, leaderTail(note, tip)]);
+  leader.noteRef = note.uid;
+  (leader as any).layer = note.layer;
+  return leader;
+}
+
+/** Move leader tails onto their notes; only those of `notes` when given. */
+export function syncLeaders(canvas: StaticCanvas, notes?: FabricObject[]) {
+  const uids = notes && new Set(notes.map((n: any) => n.uid).filter(Boolean));
+  const lookup = byUid(canvas);
+  canvas
+    .getObjects()
+    .filter(isLeader)
+    .forEach((leader) => {
+      if (!leader.noteRef || (uids && !uids.has(leader.noteRef))) return;
+      const note = lookup.get(leader.noteRef);
+      if (!note) return;
+      const pts = getWorldPoints(leader);
+      pts[pts.length - 1] = leaderTail(note, pts[0]);
+      setWorldPoints(leader, pts);
+    });
+}
+
+/**
+ * Objects that only make sense next to `objects`: labels of symbols and
+ * leaders of notes. They go when their owner is deleted.
+ */
+export function attachedTo(canvas: StaticCanvas, objects: FabricObject[]): FabricObject[] {
+  const uids = new Set(objects.map((o: any) => o.uid).filter(Boolean));
+  if (uids.size === 0) return [];
+  return canvas
+    .getObjects()
+    .filter(
+      (o: any) =>
+        !objects.includes(o) &&
+        ((isSymbolLabel(o) && uids.has(o.labelFor)) || (isLeader(o) && uids.has(o.noteRef)))
+    );
+}
@@ -0,0 +1,29 @@
+import { alignShifts, distributeShifts } from "./arrange";
+
+const box = (left: number, top: number, width = 10, height = 10) => ({ left, top, width, height });
+
+test("align moves every box onto the shared edge", () => {
+  const boxes = [box(0, 0), box(40, 25, 20, 20), box(15, 60)];
+
+  expect(alignShifts(boxes, "left").map((s) => s.dx)).toEqual([0, -40, -15]);
+  expect(alignShifts(boxes, "right").map((s) => s.dx)).toEqual([50, 0, 35]);
+  expect(alignShifts(boxes, "center").map((s) => s.dx)).toEqual([25, -20, 10]);
+  expect(alignShifts(boxes, "bottom").map((s) => s.dy)).toEqual([60, 25, 0]);
+  expect(alignShifts(boxes, "top").every((s) => s.dx === 0)).toBe(true);
+});
+
+test("distribute spaces centres evenly and keeps the ends", () => {
+  const boxes = [box(100, 0), box(0, 0), box(20, 0), box(70, 0)];
+  const shifts = distributeShifts(boxes, "x");
+  const centres = boxes.map((b, i) => b.left + 5 + shifts[i].dx);
+
+  [105, 5, 38.33, 71.67].forEach((c, i) => expect(centres[i]).toBeCloseTo(c, 2));
+  expect(shifts.every((s) => s.dy === 0)).toBe(true);
+});
+
+test("distribute needs three boxes", () => {
+  expect(distributeShifts([box(0, 0), box(50, 80)], "y")).toEqual([
+    { dx: 0, dy: 0 },
+    { dx: 0, dy: 0 },
+  ]);
+});
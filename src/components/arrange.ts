@@ -0,0 +1,124 @@
+import { ActiveSelection, Canvas, FabricObject, Point, TMat2D } from "fabric";
+import { isLeader, isSymbolLabel } from "./annotations";
+import { isCableRun } from "./cables";
+import { isPageObject } from "./page";
+
+type Box = { left: number; top: number; width: number; height: number };
+type Shift = { dx: number; dy: number };
+
+export type AlignEdge = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+/** Per-box shifts that line every box up on the selection's shared edge or centre */
+export function alignShifts(boxes: Box[], edge: AlignEdge): Shift[] {
+  const left = Math.min(...boxes.map((b) => b.left));
+  const right = Math.max(...boxes.map((b) => b.left + b.width));
+  const top = Math.min(...boxes.map((b) => b.top));
+  const bottom = Math.max(...boxes.map((b) => b.top + b.height));
+
+  return boxes.map((b) => {
+    switch (edge) {
+      case "left":
+        return { dx: left - b.left, dy: 0 };
+      case "right":
+        return { dx: right - (b.left + b.width), dy: 0 };
+      case "center":
+        return { dx: (left + right) / 2 - (b.left + b.width / 2), dy: 0 };
+      case "top":
+        return { dx: 0, dy: top - b.top };
+      case "bottom":
+        return { dx: 0, dy: bottom - (b.top + b.height) };
+      case "middle":
+        return { dx: 0, dy: (top + bottom) / 2 - (b.top + b.height / 2) };
+    }
+    return { dx: 0, dy: 0 };
+  });
+}
+
+/**
+ * Per-box shifts that space centres evenly along one axis. The outermost
+ * boxes stay put; the rest keep their order.
+ */
+export function distributeShifts(boxes: Box[], axis: "x" | "y"): Shift[] {
+  const centre = (b: Box) => (axis === "x" ? b.left + b.width / 2 : b.top + b.height / 2);
+  const order = boxes.map((b, i) => i).sort((a, b) => centre(boxes[a]) - centre(boxes[b]));
+  const shifts = boxes.map(() => ({ dx: 0, dy: 0 }));
+  if (boxes.length < 3) return shifts;
+
+  const first = centre(boxes[order[0]]);
+  const step = (centre(boxes[order[order.length - 1]]) - first) / (boxes.length - 1);
+  order.forEach((i, n) => {
+    const d = first + step * n - centre(boxes[i]);
+    shifts[i] = axis === "x" ? { dx: d, dy: 0 } : { dx: 0, dy: d };
+  });
+  return shifts;
+}
+
+/**
+ * Cable runs, leaders and symbol labels follow what they're attached to, so
+ * like the page they never join a multi-selection.
+ */
+export const isMultiSelectable = (obj: any) =>
+  !isCableRun(obj) && !isLeader(obj) && !isSymbolLabel(obj) && !isPageObject(obj);
+
+/** Members of the active selection, or the single active object */
+export function getSelectedObjects(canvas: Canvas): FabricObject[] {
+  const active = canvas.getActiveObject();
+  if (!active) return [];
+  return active instanceof ActiveSelection ? active.getObjects() : [active];
+}
+
+/** World transform of each object; valid inside an active selection too */
+export const worldMatrices = (objects: FabricObject[]): TMat2D[] =>
+  objects.map((o) => o.calcTransformMatrix());
+
+/**
+ * Run `fn` with the active selection dissolved, so each object's left/top
+ * are world coordinates, then select the same objects again.
+ */
+export function editSelection(canvas: Canvas, fn: (objects: FabricObject[]) => void) {
+  const objects = getSelectedObjects(canvas);
+  if (objects.length === 0) return;
+  canvas.discardActiveObject();
+  fn(objects);
+  objects.forEach((o) => o.setCoords());
+  selectObjects(canvas, objects);
+}
+
+/** Make `objects` the active object, as a selection when there are several */
+export function selectObjects(canvas: Canvas, objects: FabricObject[]) {
+  canvas.discardActiveObject();
+  if (objects.length > 0) {
+    canvas.setActiveObject(
+      objects.length === 1 ? objects[0] : new ActiveSelection(objects, { canvas })
+    );
+  }
+  canvas.requestRenderAll();
+}
+
+const shiftObjects = (objects: FabricObject[], shifts: Shift[]) =>
+  objects.forEach((o, i) =>
+    o.set({ left: (o.left ?? 0) + shifts[i].dx, top: (o.top ?? 0) + shifts[i].dy })
+  );
+
+export const alignObjects = (objects: FabricObject[], edge: AlignEdge) =>
+  shiftObjects(objects, alignShifts(objects.map((o) => o.getBoundingRect()), edge));
+
+export const distributeObjects = (objects: FabricObject[], axis: "x" | "y") =>
+  shiftObjects(objects, distributeShifts(objects.map((o) => o.getBoundingRect()), axis));
+
+/** Turn the objects as one block about the centre of their combined bounds */
+export function rotateObjects(objects: FabricObject[], degrees: number) {
+  const boxes = objects.map((o) => o.getBoundingRect());
+  const left = Math.min(...boxes.map((b) => b.left));
+  const right = Math.max(...boxes.map((b) => b.left + b.width));
+  const top = Math.min(...boxes.map((b) => b.top));
+  const bottom = Math.max(...boxes.map((b) => b.top + b.height));
+  const pivot = new Point((left + right) / 2, (top + bottom) / 2);
+  const radians = (degrees * Math.PI) / 180;
+
+  objects.forEach((o) => {
+    const centre = o.getCenterPoint().rotate(radians, pivot);
+    o.rotate((((o.angle ?? 0) + degrees) % 360 + 360) % 360);
+    o.setPositionByOrigin(centre, "center", "center");
+  });
+}
@@ -0,0 +1,130 @@
+import { Canvas, FabricObject, FabricText, Group, Line, Rect } from "fabric";
+import { BoardRow, circuitTypeLabel, deviceLabel } from "./circuits";
+import { fitText, refillGroup } from "./legend";
+import { mmToPx } from "./page";
+
+export const BOARD_SCHEDULE_NAME = "BOARD_SCHEDULE";
+
+export const isBoardSchedule = (obj: any) => obj?.name === BOARD_SCHEDULE_NAME;
+
+// Sizes in sheet pixels, derived from printed mm
+const PAD = mmToPx(2);
+const ROW_H = mmToPx(6);
+const FONT = mmToPx(2.6);
+const TITLE_FONT = mmToPx(3.6);
+
+const COLUMNS: { title: string; widthMm: number; align?: "right"; cell: (r: BoardRow) => string }[] = [
+  { title: "Cct", widthMm: 12, cell: (r) => r.circuit.number },
+  { title: "Description", widthMm: 58, cell: (r) => r.circuit.description },
+  { title: "Type", widthMm: 24, cell: (r) => circuitTypeLabel(r.circuit.type) },
+  { title: "Device", widthMm: 26, cell: (r) => deviceLabel(r.circuit.device) },
+  { title: "Rating", widthMm: 14, align: "right", cell: (r) => `${r.circuit.ratingA} A` },
+  { title: "Points", widthMm: 14, align: "right", cell: (r) => String(r.points) },
+];
+
+const topLeft = { originX: "left" as const, originY: "top" as const };
+
+const text = (value: string, left: number, top: number, bold = false) =>
+  new FabricText(value, {
+    ...topLeft,
+    left,
+    top,
+    fontSize: FONT,
+    fontWeight: bold ? "bold" : "normal",
+    fontFamily: "Arial",
+    fill: "#111111",
+  });
+
+/** Table contents laid out from (0,0), in sheet pixels. */
+function buildTableItems(rows: BoardRow[]): FabricObject[] {
+  const widths = COLUMNS.map((c) => mmToPx(c.widthMm));
+  const tableW = widths.reduce((a, b) => a + b, 0);
+  const items: FabricObject[] = [];
+
+  const title = new FabricText("DISTRIBUTION BOARD SCHEDULE", {
+    ...topLeft,
+    left: PAD,
+    top: PAD,
+    fontSize: TITLE_FONT,
+    fontWeight: "bold",
+    fontFamily: "Arial",
+    fill: "#111111",
+  });
+  items.push(title);
+
+  const headerTop = PAD * 2 + TITLE_FONT;
+  const body: string[][] = rows.map((r) => COLUMNS.map((c) => c.cell(r)));
+  const lines = [COLUMNS.map((c) => c.title), ...body];
+  if (rows.length === 0) lines.push(["", "No circuits defined", "", "", "", ""]);
+
+  lines.forEach((cells, rowIdx) => {
+    const top = headerTop + rowIdx * ROW_H;
+    let x = 0;
+    cells.forEach((value, colIdx) => {
+      const w = widths[colIdx];
+      if (value) {
+        const cell = text(value, x + PAD, top + (ROW_H - FONT) / 2, rowIdx === 0);
+        fitText(cell, w - PAD * 2);
+        if (COLUMNS[colIdx].align === "right") {
+          cell.set({ left: x + w - PAD - (cell.width ?? 0) });
+        }
+        items.push(cell);
+      }
+      x += w;
+    });
+    items.push(
+      new Line([0, top + ROW_H, tableW, top + ROW_H], {
+        stroke: "#111111",
+        strokeWidth: rowIdx === 0 ? 2 : 1,
+      })
+    );
+  });
+
+  const height = headerTop + lines.length * ROW_H;
+  let x = 0;
+  widths.slice(0, -1).forEach((w) => {
+    x += w;
+    items.push(new Line([x, headerTop, x, height], { stroke: "#111111", strokeWidth: 1 }));
+  });
+  items.push(
+    new Line([0, headerTop, tableW, headerTop], { stroke: "#111111", strokeWidth: 1 })
+  );
+
+  const frame = new Rect({
+    ...topLeft,
+    left: 0,
+    top: 0,
+    width: tableW,
+    height,
+    fill: "#ffffff",
+    stroke: "#111111",
+    strokeWidth: 2,
+  });
+
+  return [frame, ...items];
+}
+
+/** Place a new board schedule with its top-left corner at (left, top). */
+export function createBoardSchedule(rows: BoardRow[], left: number, top: number) {
+  const table = new Group(buildTableItems(rows), {
+    ...topLeft,
+    subTargetCheck: false,
+    interactive: false,
+    selectable: true,
+    evented: true,
+    hasBorders: false,
+    hasControls: false,
+  }) as any;
+  table.set({ left, top });
+  table.setCoords();
+  table.name = BOARD_SCHEDULE_NAME;
+  return table as Group;
+}
+
+/** Rewrite every board schedule on the canvas from the current circuits. */
+export function refreshBoardSchedules(canvas: Canvas, rows: BoardRow[]) {
+  canvas
+    .getObjects()
+    .filter(isBoardSchedule)
+    .forEach((table) => refillGroup(canvas, table as Group, buildTableItems(rows)));
+}
@@ -0,0 +1,50 @@
+import {
+  CableRun,
+  getCableType,
+  getWorldPoints,
+  lengthLabelFor,
+  polylineLength,
+} from "./cables";
+
+test("polylineLength sums every segment", () => {
+  expect(
+    polylineLength([
+      { x: 0, y: 0 },
+      { x: 30, y: 40 },
+      { x: 30, y: 100 },
+    ])
+  ).toBe(110);
+  expect(polylineLength([{ x: 5, y: 5 }])).toBe(0);
+});
+
+test("length label uses the calibration when set", () => {
+  expect(lengthLabelFor(250, { mmPerPx: 20, method: "points", refMm: 5000 }, 0.17)).toBe(
+    "5.00 m"
+  );
+  expect(lengthLabelFor(100, null, 0.17)).toBe("17 mm (paper)");
+});
+
+test("unknown cable types fall back to 2.5mm T&E", () => {
+  expect(getCableType("nope").id).toBe("te-2.5");
+  expect(getCableType("swa-6").name).toBe("6mm SWA");
+});
+
+test("cable runs keep their points and type through JSON", async () => {
+  const run = new CableRun(
+    [
+      { x: 10, y: 10 },
+      { x: 110, y: 10 },
+    ],
+    { cableType: "cat6", startRef: "a" }
+  );
+  const json = run.toObject(["name", "cableType", "startRef", "endRef"] as any[]);
+  const copy = (await CableRun.fromObject(json as any)) as CableRun;
+
+  expect(copy).toBeInstanceOf(CableRun);
+  expect(copy.cableType).toBe("cat6");
+  expect(copy.startRef).toBe("a");
+  expect(getWorldPoints(copy).map((p) => [Math.round(p.x), Math.round(p.y)])).toEqual([
+    [10, 10],
+    [110, 10],
+  ]);
+});
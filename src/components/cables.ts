@@ -0,0 +1,223 @@
+import { classRegistry, Point, Polyline, StaticCanvas } from "fabric";
+import { Calibration, formatMm, getCalibration, paperMmPerPx } from "./calibration";
+import { isPageObject, mmToPx } from "./page";
+import { symbolIdOf } from "./symbols";
+
+export const CABLE_NAME = "CABLE_RUN";
+
+export type CableType = {
+  id: string;
+  name: string;
+  stroke: string;
+  /** Printed line width in mm */
+  widthMm: number;
+  /** Printed dash pattern in mm; empty for a solid line */
+  dashMm: number[];
+};
+
+export const CABLE_TYPES: CableType[] = [
+  { id: "te-1.0", name: "1.0mm T&E", stroke: "#8e24aa", widthMm: 0.35, dashMm: [3, 1.5] },
+  { id: "te-1.5", name: "1.5mm T&E", stroke: "#1e88e5", widthMm: 0.35, dashMm: [4, 2] },
+  { id: "te-2.5", name: "2.5mm T&E", stroke: "#e53935", widthMm: 0.5, dashMm: [] },
+  { id: "te-6.0", name: "6mm T&E", stroke: "#fb8c00", widthMm: 0.7, dashMm: [] },
+  { id: "te-10", name: "10mm T&E", stroke: "#6d4c41", widthMm: 0.8, dashMm: [] },
+  { id: "swa-6", name: "6mm SWA", stroke: "#2e7d32", widthMm: 0.8, dashMm: [6, 1.5, 1.5, 1.5] },
+  { id: "cat6", name: "Cat6 data", stroke: "#00897b", widthMm: 0.35, dashMm: [1, 1.5] },
+  { id: "fp200", name: "FP200 fire", stroke: "#c62828", widthMm: 0.5, dashMm: [5, 1.5, 1, 1.5] },
+];
+
+export const DEFAULT_CABLE_TYPE = "te-2.5";
+
+export function getCableType(id: string | undefined): CableType {
+  return CABLE_TYPES.find((c) => c.id === id) ?? CABLE_TYPES.find((c) => c.id === DEFAULT_CABLE_TYPE)!;
+}
+
+export const cableStyle = (type: CableType) => ({
+  stroke: type.stroke,
+  strokeWidth: mmToPx(type.widthMm),
+  strokeDashArray: type.dashMm.length ? type.dashMm.map(mmToPx) : null,
+});
+
+export const CABLE_LABEL_FONT = mmToPx(2.2);
+
+// Custom props live on the interface: class fields would be reset after
+// Polyline's constructor has applied the options.
+export interface CableRun {
+  cableType: string;
+  /** uid of the symbol the first / last point is attached to */
+  startRef?: string;
+  endRef?: string;
+  lengthLabel?: string;
+}
+
+/**
+ * Multi-segment cable route. A Polyline that also paints its length label,
+ * so the label follows the run into every export without a second object.
+ */
+export class CableRun extends Polyline {
+  static type = "CableRun";
+
+  constructor(points: { x: number; y: number }[] = [], options: any = {}) {
+    super(points, {
+      fill: "",
+      objectCaching: false,
+      strokeLineCap: "round",
+      strokeLineJoin: "round",
+      hasBorders: false,
+      hasControls: false,
+      lockMovementX: true,
+      lockMovementY: true,
+      ...options,
+    });
+    (this as any).name = CABLE_NAME;
+  }
+
+  /**
+   * Where the length label sits: midpoint of the longest segment, in the
+   * run's own (centred) coordinates, rotated to read left to right.
+   */
+  labelPlacement(): { x: number; y: number; angle: number } | null {
+    if (!this.lengthLabel || this.points.length < 2) return null;
+
+    const off = this.pathOffset;
+    let best = 0;
+    let a = this.points[0];
+    let b = this.points[1];
+    for (let i = 1; i < this.points.length; i++) {
+      const p = this.points[i - 1];
+      const q = this.points[i];
+      const d = Math.hypot(q.x - p.x, q.y - p.y);
+      if (d > best) {
+        best = d;
+        a = p;
+        b = q;
+      }
+    }
+    let angle = Math.atan2(b.y - a.y, b.x - a.x);
+    if (angle > Math.PI / 2) angle -= Math.PI;
+    if (angle < -Math.PI / 2) angle += Math.PI;
+
+    return { x: (a.x + b.x) / 2 - off.x, y: (a.y + b.y) / 2 - off.y, angle };
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx);
+    const at = this.labelPlacement();
+    if (!at || !this.lengthLabel) return;
+
+    ctx.save();
+    ctx.translate(at.x, at.y);
+    ctx.rotate(at.angle);
+    ctx.font = `${CABLE_LABEL_FONT}px Arial`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "bottom";
+    const w = ctx.measureText(this.lengthLabel).width;
+    ctx.fillStyle = "rgba(255,255,255,0.85)";
+    ctx.fillRect(-w / 2 - 2, -CABLE_LABEL_FONT - 4, w + 4, CABLE_LABEL_FONT + 2);
+    ctx.fillStyle = this.stroke as string;
+    ctx.fillText(this.lengthLabel, 0, -3);
+    ctx.restore();
+  }
+}
+
+classRegistry.setClass(CableRun);
+
+export const isCableRun = (obj: any): obj is CableRun => obj?.name === CABLE_NAME;
+
+/** Run vertices in WORLD space, whatever the run's own transform. */
+export function getWorldPoints(run: Polyline): Point[] {
+  const m = run.calcTransformMatrix();
+  return run.points.map((p) =>
+    new Point(p.x - run.pathOffset.x, p.y - run.pathOffset.y).transform(m)
+  );
+}
+
+export function setWorldPoints(run: Polyline, points: { x: number; y: number }[]) {
+  run.set({
+    points: points.map((p) => ({ x: p.x, y: p.y })),
+    angle: 0,
+    scaleX: 1,
+    scaleY: 1,
+    skewX: 0,
+    skewY: 0,
+    flipX: false,
+    flipY: false,
+  });
+  run.setBoundingBox(true);
+  run.setCoords();
+}
+
+export function polylineLength(points: { x: number; y: number }[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+  }
+  return total;
+}
+
+/** Length text: real length when calibrated, otherwise measured on paper. */
+export function lengthLabelFor(px: number, cal: Calibration | null, paperMm: number) {
+  if (cal) return formatMm(px * cal.mmPerPx);
+  return `${formatMm(px * paperMm)} (paper)`;
+}
+
+export function updateRunLength(canvas: StaticCanvas, run: CableRun) {
+  run.lengthLabel = lengthLabelFor(
+    polylineLength(getWorldPoints(run)),
+    getCalibration(canvas),
+    paperMmPerPx(canvas)
+  );
+}
+
+export function refreshCableRuns(canvas: StaticCanvas) {
+  canvas.getObjects().filter(isCableRun).forEach((run) => updateRunLength(canvas, run));
+  canvas.requestRenderAll();
+}
+
+/** Symbols a cable end can attach to */
+const isAttachable = (obj: any) =>
+  !!obj && !isPageObject(obj) && !isCableRun(obj) && !!symbolIdOf(obj);
+
+/** Nearest symbol whose centre is within `radius` world px of `p`. */
+export function findSnapTarget(canvas: StaticCanvas, p: Point, radius: number) {
+  let best: any = null;
+  let bestD = radius;
+  canvas.getObjects().forEach((obj: any) => {
+    if (!isAttachable(obj)) return;
+    const c = obj.getCenterPoint();
+    const d = Math.hypot(c.x - p.x, c.y - p.y);
+    if (d <= bestD) {
+      best = obj;
+      bestD = d;
+    }
+  });
+  return best;
+}
+
+/** Move attached run ends onto their symbols' current centres. */
+export function syncCableEnds(canvas: StaticCanvas, onlyFor?: string) {
+  const byUid = new Map<string, any>();
+  canvas.getObjects().forEach((o: any) => o?.uid && byUid.set(o.uid, o));
+
+  canvas
+    .getObjects()
+    .filter(isCableRun)
+    .forEach((run) => {
+      if (onlyFor && run.startRef !== onlyFor && run.endRef !== onlyFor) return;
+      const pts = getWorldPoints(run);
+      let changed = false;
+      const start = run.startRef ? byUid.get(run.startRef) : null;
+      const end = run.endRef ? byUid.get(run.endRef) : null;
+      if (start) {
+        pts[0] = start.getCenterPoint();
+        changed = true;
+      }
+      if (end) {
+        pts[pts.length - 1] = end.getCenterPoint();
+        changed = true;
+      }
+      if (!changed) return;
+      setWorldPoints(run, pts);
+      updateRunLength(canvas, run);
+    });
+}
@@ -0,0 +1,34 @@
+import {
+  calibrationFromPoints,
+  calibrationFromScale,
+  describeCalibration,
+  formatMm,
+  parseScale,
+} from "./calibration";
+
+test("two-point calibration gives mm per pixel", () => {
+  const cal = calibrationFromPoints(250, 5000)!;
+  expect(cal.mmPerPx).toBe(20);
+  expect(describeCalibration(cal)).toBe("Calibrated (5.00 m ref)");
+  expect(calibrationFromPoints(0, 5000)).toBeNull();
+  expect(calibrationFromPoints(250, NaN)).toBeNull();
+});
+
+test("printed scale multiplies paper mm per pixel", () => {
+  const cal = calibrationFromScale(50, 0.2)!;
+  expect(cal.mmPerPx).toBeCloseTo(10);
+  expect(describeCalibration(cal)).toBe("Scale 1:50");
+});
+
+test("parseScale accepts common notations", () => {
+  expect(parseScale("1:50")).toBe(50);
+  expect(parseScale("1 / 100")).toBe(100);
+  expect(parseScale("200")).toBe(200);
+  expect(parseScale("1:")).toBeNull();
+  expect(parseScale("abc")).toBeNull();
+});
+
+test("formatMm switches to metres above 1 m", () => {
+  expect(formatMm(450.4)).toBe("450 mm");
+  expect(formatMm(5250)).toBe("5.25 m");
+});
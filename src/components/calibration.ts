@@ -0,0 +1,80 @@
+import { StaticCanvas } from "fabric";
+import { DPI, MM_PER_INCH, PAGE_NAME, PDF_NAME } from "./page";
+
+/**
+ * Sheet calibration: real-world millimetres per world pixel.
+ * Stored on the page rect so it travels with the sheet's Fabric JSON.
+ */
+export type Calibration = {
+  mmPerPx: number;
+  method: "points" | "scale";
+  /** Drawing scale denominator (50 for 1:50) when set from the printed scale */
+  scale?: number;
+  /** Reference distance typed in when calibrated from two points */
+  refMm?: number;
+};
+
+const PT_MM = MM_PER_INCH / 72;
+
+const getPage = (canvas: StaticCanvas): any =>
+  canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+
+export function getCalibration(canvas: StaticCanvas): Calibration | null {
+  const cal = getPage(canvas)?.calibration;
+  return cal && cal.mmPerPx > 0 ? cal : null;
+}
+
+export function setCalibration(canvas: StaticCanvas, cal: Calibration | null) {
+  const page = getPage(canvas);
+  if (!page) return;
+  page.calibration = cal ?? undefined;
+  canvas.fire("sheet:calibrated" as any, { calibration: cal } as any);
+}
+
+/**
+ * Paper millimetres per world pixel. Uses the underlay's original PDF page
+ * size when known, so a 1:100 A1 plan squeezed onto A3 still measures right.
+ */
+export function paperMmPerPx(canvas: StaticCanvas): number {
+  const pdf: any = canvas.getObjects().find((o: any) => o?.name === PDF_NAME);
+  if (pdf?.sourcePtWidth && pdf.getScaledWidth) {
+    return (pdf.sourcePtWidth * PT_MM) / pdf.getScaledWidth();
+  }
+  return MM_PER_INCH / DPI;
+}
+
+export function calibrationFromPoints(pxDistance: number, realMm: number): Calibration | null {
+  if (!(pxDistance > 0) || !(realMm > 0)) return null;
+  return { mmPerPx: realMm / pxDistance, method: "points", refMm: realMm };
+}
+
+export function calibrationFromScale(denominator: number, paperMm: number): Calibration | null {
+  if (!(denominator > 0) || !(paperMm > 0)) return null;
+  return { mmPerPx: paperMm * denominator, method: "scale", scale: denominator };
+}
+
+/** Accepts "1:50", "1/50" or "50"; returns the denominator or null. */
+export function parseScale(text: string): number | null {
+  const m = text.trim().match(/^(?:1\s*[:/]\s*)?(\d+(?:\.\d+)?)$/);
+  if (!m) return null;
+  const n = parseFloat(m[1]);
+  return n > 0 ? n : null;
+}
+
+/** World pixels to real mm, or null when the sheet is not calibrated. */
+export const pxToMm = (px: number, cal: Calibration | null) =>
+  cal ? px * cal.mmPerPx : null;
+
+export const mmToWorldPx = (mm: number, cal: Calibration) => mm / cal.mmPerPx;
+
+/** "450 mm" below a metre, "5.25 m" above. */
+export function formatMm(mm: number): string {
+  if (Math.abs(mm) < 1000) return `${Math.round(mm)} mm`;
+  return `${(mm / 1000).toFixed(2)} m`;
+}
+
+export function describeCalibration(cal: Calibration | null): string {
+  if (!cal) return "Not calibrated";
+  if (cal.method === "scale" && cal.scale) return `Scale 1:${cal.scale}`;
+  return `Calibrated (${formatMm(cal.refMm ?? 0)} ref)`;
+}
@@ -0,0 +1,33 @@
+import { buildBoardRows, Circuit, circuitLabel, createCircuit } from "./circuits";
+import { PAGE_NAME } from "./page";
+
+const circuit = (id: string, number: string, description = ""): Circuit => ({
+  ...createCircuit([], id),
+  number,
+  description,
+});
+
+test("new circuits take the next way number and colour", () => {
+  const first = createCircuit([], "a");
+  const second = createCircuit([first, circuit("b", "7")], "c");
+  expect(first.number).toBe("1");
+  expect(second.number).toBe("8");
+  expect(second.colour).not.toBe(first.colour);
+});
+
+test("board rows count points on every sheet, in way order", () => {
+  const circuits = [circuit("lights", "10", "Lights"), circuit("ring", "2", "Kitchen ring")];
+  const rows = buildBoardRows(circuits, [
+    [
+      { name: PAGE_NAME, circuit: "ring" },
+      { symbolId: "socket-twin", circuit: "ring" },
+      { symbolId: "downlight", circuit: "lights" },
+    ],
+    [{ symbolId: "socket-single", circuit: "ring" }, { symbolId: "downlight" }],
+  ]);
+
+  expect(rows.map((r) => [circuitLabel(r.circuit), r.points])).toEqual([
+    ["2 – Kitchen ring", 2],
+    ["10 – Lights", 1],
+  ]);
+});
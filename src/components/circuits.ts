@@ -0,0 +1,133 @@
+import { Shadow, StaticCanvas } from "fabric";
+import { isPageObject, mmToPx } from "./page";
+import { symbolIdOf } from "./symbols";
+
+/**
+ * Consumer unit circuits. The list belongs to the document (one board for
+ * every sheet); placed symbols point at a circuit through their `circuit` id.
+ */
+export type CircuitType = "ring" | "radial" | "lighting" | "cooker" | "shower" | "other";
+
+export type ProtectiveDevice = "mcb-b" | "mcb-c" | "rcbo-b" | "rcbo-c" | "fuse";
+
+export type Circuit = {
+  id: string;
+  /** Way number on the board, e.g. "1" or "L2" */
+  number: string;
+  description: string;
+  type: CircuitType;
+  device: ProtectiveDevice;
+  ratingA: number;
+  /** Tint used for the circuit's symbols on the sheet */
+  colour: string;
+};
+
+export const CIRCUIT_TYPES: { id: CircuitType; label: string; ratingA: number }[] = [
+  { id: "ring", label: "Ring final", ratingA: 32 },
+  { id: "radial", label: "Radial", ratingA: 20 },
+  { id: "lighting", label: "Lighting", ratingA: 6 },
+  { id: "cooker", label: "Cooker", ratingA: 32 },
+  { id: "shower", label: "Shower", ratingA: 40 },
+  { id: "other", label: "Other", ratingA: 16 },
+];
+
+export const PROTECTIVE_DEVICES: { id: ProtectiveDevice; label: string }[] = [
+  { id: "mcb-b", label: "MCB Type B" },
+  { id: "mcb-c", label: "MCB Type C" },
+  { id: "rcbo-b", label: "RCBO Type B" },
+  { id: "rcbo-c", label: "RCBO Type C" },
+  { id: "fuse", label: "BS 3036 fuse" },
+];
+
+export const CIRCUIT_COLOURS = [
+  "#e53935",
+  "#1e88e5",
+  "#43a047",
+  "#fb8c00",
+  "#8e24aa",
+  "#00897b",
+  "#6d4c41",
+  "#d81b60",
+];
+
+export const circuitTypeLabel = (type: CircuitType) =>
+  CIRCUIT_TYPES.find((t) => t.id === type)?.label ?? type;
+
+export const deviceLabel = (device: ProtectiveDevice) =>
+  PROTECTIVE_DEVICES.find((d) => d.id === device)?.label ?? device;
+
+/** "3 – Kitchen sockets", or just the number when there is no description. */
+export const circuitLabel = (c: Circuit) =>
+  c.description.trim() ? `${c.number} – ${c.description.trim()}` : c.number;
+
+/** New circuit numbered after the highest existing way, with the next colour. */
+export function createCircuit(existing: Circuit[], id: string): Circuit {
+  const highest = existing.reduce((n, c) => Math.max(n, parseInt(c.number, 10) || 0), 0);
+  return {
+    id,
+    number: String(highest + 1),
+    description: "",
+    type: "radial",
+    device: "mcb-b",
+    ratingA: 20,
+    colour: CIRCUIT_COLOURS[existing.length % CIRCUIT_COLOURS.length],
+  };
+}
+
+/** Board order: by way number, numerically */
+export const sortCircuits = (circuits: Circuit[]) =>
+  [...circuits].sort((a, b) => a.number.localeCompare(b.number, undefined, { numeric: true }));
+
+/** Symbols that can be put on a circuit; cable runs and sheet furniture can't */
+export const isCircuitTarget = (obj: any) => !isPageObject(obj) && !!symbolIdOf(obj);
+
+export type BoardRow = { circuit: Circuit; points: number };
+
+/** Circuits in board order with the number of symbols fed by each, over all sheets. */
+export function buildBoardRows(circuits: Circuit[], objectLists: any[][]): BoardRow[] {
+  const points = new Map<string, number>();
+  objectLists.forEach((objects) =>
+    objects.forEach((obj) => {
+      if (!obj?.circuit || !isCircuitTarget(obj)) return;
+      points.set(obj.circuit, (points.get(obj.circuit) ?? 0) + 1);
+    })
+  );
+  return sortCircuits(circuits).map((circuit) => ({
+    circuit,
+    points: points.get(circuit.id) ?? 0,
+  }));
+}
+
+/**
+ * Tint each symbol with its circuit's colour. With `highlightId` set, symbols
+ * on other circuits are faded so one circuit stands out.
+ */
+export function applyCircuitStyling(
+  canvas: StaticCanvas,
+  circuits: Circuit[],
+  highlightId: string | null
+) {
+  const byId = new Map(circuits.map((c) => [c.id, c]));
+  canvas.getObjects().forEach((obj: any) => {
+    if (!isCircuitTarget(obj)) return;
+    const circuit = obj.circuit ? byId.get(obj.circuit) : undefined;
+    // on-screen only: exports and saves put the layer's opacity back
+    obj.circuitDimmed = !!highlightId && obj.circuit !== highlightId;
+    obj.set({
+      shadow: circuit
+        ? new Shadow({ color: circuit.colour, blur: mmToPx(2), offsetX: 0, offsetY: 0 })
+        : null,
+      // on top of the layer's own opacity
+      opacity: (obj.circuitDimmed ? 0.2 : 1) * (obj.layerOpacity ?? 1),
+    });
+  });
+  canvas.requestRenderAll();
+}
+
+/** Set (or clear) the circuit of some objects; listeners restyle on the event. */
+export function assignCircuit(canvas: StaticCanvas, objects: any[], circuitId: string | null) {
+  objects.forEach((obj) => {
+    obj.circuit = circuitId ?? undefined;
+  });
+  canvas.fire("circuit:assigned" as any, { circuit: circuitId } as any);
+}
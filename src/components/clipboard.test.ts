@@ -0,0 +1,41 @@
+import { Canvas, Rect } from "fabric";
+import { arrayOffsets, copyObjects, isCopyable, offsetTo, pasteObjects } from "./clipboard";
+import { PAGE_NAME } from "./page";
+
+test("array offsets skip the original", () => {
+  expect(arrayOffsets(2, 3, 10, 20)).toEqual([
+    { x: 10, y: 0 },
+    { x: 20, y: 0 },
+    { x: 0, y: 20 },
+    { x: 10, y: 20 },
+    { x: 20, y: 20 },
+  ]);
+  expect(arrayOffsets(1, 1, 10, 10)).toEqual([]);
+});
+
+test("the page is never copied", () => {
+  expect(isCopyable({ name: PAGE_NAME })).toBe(false);
+  expect(isCopyable({ symbolId: "socket-double" })).toBe(true);
+});
+
+test("pasted copies keep rotation and properties but get new uids", async () => {
+  const symbol = new Rect({ left: 100, top: 50, width: 20, height: 10, angle: 90 }) as any;
+  symbol.symbolId = "downlight";
+  symbol.circuit = "c1";
+  symbol.uid = "u1";
+
+  const clip = (await copyObjects([symbol]))!;
+  expect(clip.centre.x).toBeCloseTo(100);
+  expect(clip.centre.y).toBeCloseTo(50);
+
+  const canvas = { add: jest.fn() } as unknown as Canvas;
+  const [copy] = (await pasteObjects(canvas, clip, [offsetTo(clip, { x: 300, y: 200 })])) as any[];
+
+  expect(canvas.add).toHaveBeenCalledWith(copy);
+  expect(copy.getCenterPoint().x).toBeCloseTo(300);
+  expect(copy.getCenterPoint().y).toBeCloseTo(200);
+  expect(copy.angle).toBeCloseTo(90);
+  expect(copy.symbolId).toBe("downlight");
+  expect(copy.circuit).toBe("c1");
+  expect(copy.uid).not.toBe("u1");
+});
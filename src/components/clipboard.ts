@@ -0,0 +1,102 @@
+import { Canvas, FabricObject, Point, util as fabricUtil } from "fabric";
+import { attachedTo, isLeader, isSymbolLabel } from "./annotations";
+import { isBoardSchedule } from "./boardSchedule";
+import { isCableRun } from "./cables";
+import { EXTRA_PROPS, makeId } from "./document";
+import { isLegend } from "./legend";
+import { isPageObject } from "./page";
+import { isTitleBlock } from "./titleBlock";
+
+/** Copied objects as world-space Fabric JSON, with the centre of their bounds */
+export type ClipboardContent = { objects: any[]; centre: { x: number; y: number } };
+
+/**
+ * Symbols and other free-standing markup. Cable runs are tied to the symbols
+ * at their ends, and the legend and board schedule are one per sheet. Labels
+ * and leaders come along with their symbol or note.
+ */
+export const isCopyable = (obj: any) =>
+  !!obj &&
+  !isPageObject(obj) &&
+  !isTitleBlock(obj) &&
+  !isCableRun(obj) &&
+  !isSymbolLabel(obj) &&
+  !isLeader(obj) &&
+  !isLegend(obj) &&
+  !isBoardSchedule(obj);
+
+function boundsCentre(objects: FabricObject[]) {
+  const boxes = objects.map((o) => o.getBoundingRect());
+  const left = Math.min(...boxes.map((b) => b.left));
+  const right = Math.max(...boxes.map((b) => b.left + b.width));
+  const top = Math.min(...boxes.map((b) => b.top));
+  const bottom = Math.max(...boxes.map((b) => b.top + b.height));
+  return { x: (left + right) / 2, y: (top + bottom) / 2 };
+}
+
+/** Snapshot objects (active selection members included) in world space. */
+export async function copyObjects(objects: FabricObject[]): Promise<ClipboardContent | null> {
+  const copyable = objects.filter(isCopyable);
+  if (copyable.length === 0) return null;
+  const canvas = copyable[0].canvas;
+  const attached = canvas ? attachedTo(canvas, copyable) : [];
+
+  const json = await Promise.all(
+    [...copyable, ...attached].map(async (obj) => {
+      const clone = await obj.clone(EXTRA_PROPS);
+      // a selection member's own transform is relative to the selection
+      fabricUtil.applyTransformToObject(clone, obj.calcTransformMatrix());
+      return clone.toObject(EXTRA_PROPS);
+    })
+  );
+  return { objects: json, centre: boundsCentre(copyable) };
+}
+
+/**
+ * Add one copy of the clipboard to the canvas for each offset, measured
+ * from where the objects were copied. Each copy gets a fresh uid so cable
+ * runs never attach to the wrong one, and copied labels and leaders point
+ * at the copies. Returns the new objects.
+ */
+export async function pasteObjects(
+  canvas: Canvas,
+  clip: ClipboardContent,
+  offsets: { x: number; y: number }[]
+): Promise<FabricObject[]> {
+  const added: FabricObject[] = [];
+  for (const offset of offsets) {
+    const objects = (await fabricUtil.enlivenObjects(clip.objects)) as FabricObject[];
+    const uids = new Map<string, string>();
+    objects.forEach((obj: any) => {
+      obj.set({ left: (obj.left ?? 0) + offset.x, top: (obj.top ?? 0) + offset.y });
+      obj.setCoords();
+      if (obj.uid) {
+        uids.set(obj.uid, makeId());
+        obj.uid = uids.get(obj.uid);
+      }
+    });
+    objects.forEach((obj: any) => {
+      if (obj.labelFor) obj.labelFor = uids.get(obj.labelFor);
+      if (obj.noteRef) obj.noteRef = uids.get(obj.noteRef);
+    });
+    added.push(...objects);
+  }
+  if (added.length > 0) canvas.add(...added);
+  return added;
+}
+
+/** Offset that moves the clipboard's centre onto `at` */
+export const offsetTo = (clip: ClipboardContent, at: { x: number; y: number }) =>
+  new Point(at.x - clip.centre.x, at.y - clip.centre.y);
+
+/** Offsets for a rows × columns array, leaving out the original at (0,0) */
+export function arrayOffsets(rows: number, cols: number, dx: number, dy: number) {
+  const offsets: { x: number; y: number }[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      if (r === 0 && c === 0) continue;
+      offsets.push({ x: c * dx, y: r * dy });
+    }
+  }
+  return offsets;
+}
@@ -0,0 +1,46 @@
+import { countChanges, diffSymbols } from "./compare";
+import { mmToPx } from "./page";
+
+const symbol = (uid: string, extra: object = {}) => ({
+  type: "Image",
+  symbolId: "downlight",
+  uid,
+  left: 100,
+  top: 100,
+  angle: 0,
+  ...extra,
+});
+
+test("symbols are matched by uid across revisions", () => {
+  const before = [
+    { type: "Rect", name: "A3_PAGE", uid: "page" },
+    symbol("same"),
+    symbol("gone"),
+    symbol("shifted"),
+    symbol("turned"),
+    symbol("both"),
+    symbol("nudged"),
+  ];
+  const after = [
+    { type: "Rect", name: "A3_PAGE", uid: "page", left: 50 },
+    symbol("same"),
+    symbol("shifted", { left: 100 + mmToPx(10) }),
+    symbol("turned", { angle: 90 }),
+    symbol("both", { top: 300, angle: 45 }),
+    symbol("nudged", { left: 100 + mmToPx(0.2), angle: 360.2 }),
+    symbol("new"),
+    { type: "Rect", uid: "not-a-symbol" },
+  ];
+
+  const changes = diffSymbols(before, after);
+
+  expect(changes.map((c) => [c.uid, c.kinds])).toEqual([
+    ["shifted", ["moved"]],
+    ["turned", ["rotated"]],
+    ["both", ["moved", "rotated"]],
+    ["new", ["added"]],
+    ["gone", ["removed"]],
+  ]);
+  expect(changes.find((c) => c.uid === "gone")!.before).toBe(before[2]);
+  expect(countChanges(changes)).toEqual({ added: 1, removed: 1, moved: 2, rotated: 2 });
+});
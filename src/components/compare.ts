@@ -0,0 +1,233 @@
+import {
+  FabricObject,
+  FabricText,
+  Group,
+  Line,
+  Rect,
+  StaticCanvas,
+  util as fabricUtil,
+} from "fabric";
+import { getPageBounds, isPageObject, mmToPx, PAGE_NAME } from "./page";
+import { symbolIdOf } from "./symbols";
+import { isTitleBlock } from "./titleBlock";
+
+/**
+ * Revision compare: symbols are matched between two versions of a sheet by
+ * uid, and the newer sheet is drawn faded with the differences picked out
+ * in colour. Old positions of moved and removed symbols are drawn as ghosts.
+ */
+export type ChangeKind = "added" | "removed" | "moved" | "rotated";
+
+export const CHANGE_KINDS: { kind: ChangeKind; label: string; colour: string }[] = [
+  { kind: "added", label: "Added", colour: "#2e7d32" },
+  { kind: "removed", label: "Removed", colour: "#d32f2f" },
+  { kind: "moved", label: "Moved", colour: "#ef6c00" },
+  { kind: "rotated", label: "Rotated", colour: "#6a1b9a" },
+];
+
+export type SymbolChange = {
+  uid: string;
+  kinds: ChangeKind[];
+  /** Fabric JSON in the older version */
+  before?: any;
+  /** Fabric JSON in the newer version */
+  after?: any;
+};
+
+export const COMPARE_MARKER_NAME = "COMPARE_MARKER";
+
+// Below these a nudge or a rounding difference isn't reported
+const MOVE_TOLERANCE = mmToPx(0.5);
+const ANGLE_TOLERANCE = 0.5;
+const FADE = 0.3;
+
+const symbolsByUid = (objects: any[]) =>
+  new Map<string, any>(
+    objects
+      .filter((o) => o?.uid && !isPageObject(o) && !!symbolIdOf(o))
+      .map((o) => [o.uid as string, o])
+  );
+
+const angleBetween = (a: number, b: number) => {
+  const d = (((b - a) % 360) + 360) % 360;
+  return Math.min(d, 360 - d);
+};
+
+/** Symbol differences between two versions of a sheet's objects */
+export function diffSymbols(before: any[], after: any[]): SymbolChange[] {
+  const old = symbolsByUid(before);
+  const now = symbolsByUid(after);
+  const changes: SymbolChange[] = [];
+
+  now.forEach((a, uid) => {
+    const b = old.get(uid);
+    if (!b) {
+      changes.push({ uid, kinds: ["added"], after: a });
+      return;
+    }
+    const kinds: ChangeKind[] = [];
+    const moved = Math.hypot((a.left ?? 0) - (b.left ?? 0), (a.top ?? 0) - (b.top ?? 0));
+    if (moved > MOVE_TOLERANCE) kinds.push("moved");
+    if (angleBetween(b.angle ?? 0, a.angle ?? 0) > ANGLE_TOLERANCE) kinds.push("rotated");
+    if (kinds.length > 0) changes.push({ uid, kinds, before: b, after: a });
+  });
+  old.forEach((b, uid) => {
+    if (!now.has(uid)) changes.push({ uid, kinds: ["removed"], before: b });
+  });
+
+  return changes;
+}
+
+export function countChanges(changes: SymbolChange[]): Record<ChangeKind, number> {
+  const counts: Record<ChangeKind, number> = { added: 0, removed: 0, moved: 0, rotated: 0 };
+  changes.forEach((c) => c.kinds.forEach((k) => counts[k]++));
+  return counts;
+}
+
+const colourOf = (kind: ChangeKind) => CHANGE_KINDS.find((k) => k.kind === kind)!.colour;
+
+const overlay = (obj: FabricObject) => {
+  (obj as any).name = COMPARE_MARKER_NAME;
+  obj.set({ selectable: false, evented: false });
+  return obj;
+};
+
+/** Box around `obj`; `ring` steps it outwards so two boxes on one symbol both show */
+function marker(obj: FabricObject, kind: ChangeKind, ring = 0, dashed = false) {
+  const r = obj.getBoundingRect();
+  const pad = mmToPx(1) + ring * mmToPx(1.2);
+  const colour = colourOf(kind);
+  return overlay(
+    new Rect({
+      originX: "left",
+      originY: "top",
+      left: r.left - pad,
+      top: r.top - pad,
+      width: r.width + pad * 2,
+      height: r.height + pad * 2,
+      fill: ring === 0 && !dashed ? `${colour}26` : "",
+      stroke: colour,
+      strokeWidth: mmToPx(0.5),
+      strokeDashArray: dashed ? [mmToPx(1.5), mmToPx(1)] : undefined,
+    })
+  );
+}
+
+function legend(heading: string, changes: SymbolChange[], left: number, top: number) {
+  const counts = countChanges(changes);
+  const pad = mmToPx(2);
+  const font = mmToPx(3);
+  const rowH = mmToPx(5);
+  const topLeft = { originX: "left" as const, originY: "top" as const };
+
+  const items: FabricObject[] = [
+    new FabricText(heading, {
+      ...topLeft,
+      left: pad,
+      top: pad,
+      fontSize: mmToPx(3.5),
+      fontWeight: "bold",
+      fontFamily: "Arial",
+      fill: "#111111",
+    }),
+  ];
+  CHANGE_KINDS.forEach(({ kind, label, colour }, i) => {
+    const y = pad + mmToPx(6) + i * rowH;
+    items.push(
+      new Rect({ ...topLeft, left: pad, top: y, width: font, height: font, fill: colour }),
+      new FabricText(`${label} (${counts[kind]})`, {
+        ...topLeft,
+        left: pad + font * 1.6,
+        top: y,
+        fontSize: font,
+        fontFamily: "Arial",
+        fill: "#111111",
+      })
+    );
+  });
+  const width = Math.max(...items.map((o) => o.left + o.width)) + pad;
+  const height = pad * 2 + mmToPx(6) + CHANGE_KINDS.length * rowH;
+  items.unshift(
+    new Rect({
+      ...topLeft,
+      left: 0,
+      top: 0,
+      width,
+      height,
+      fill: "#ffffff",
+      stroke: "#111111",
+      strokeWidth: 1,
+    })
+  );
+
+  const group = new Group(items, { ...topLeft });
+  group.set({ left, top });
+  group.setCoords();
+  return overlay(group);
+}
+
+/**
+ * Draw a comparison onto `canvas`, which holds the newer version of the
+ * sheet; `before` are the older version's objects. Returns the changes.
+ */
+export async function drawComparison(
+  canvas: StaticCanvas,
+  before: any[],
+  heading: string
+): Promise<SymbolChange[]> {
+  const changes = diffSymbols(before, canvas.getObjects());
+  const live = new Map<string, FabricObject>();
+  const opacity = new Map<FabricObject, number>();
+  canvas.getObjects().forEach((o: any) => {
+    if (o.uid) live.set(o.uid, o);
+    if (isPageObject(o) || isTitleBlock(o)) return;
+    opacity.set(o, o.opacity ?? 1);
+    o.opacity = (o.opacity ?? 1) * FADE;
+  });
+
+  const withGhosts = changes.filter(
+    (c) => c.kinds.includes("removed") || c.kinds.includes("moved")
+  );
+  const ghosts = await fabricUtil.enlivenObjects<FabricObject>(withGhosts.map((c) => c.before));
+
+  const added: FabricObject[] = [];
+  withGhosts.forEach((change, i) => {
+    const ghost = ghosts[i];
+    const removed = change.kinds.includes("removed");
+    ghost.set({ opacity: removed ? 0.6 : FADE, selectable: false, evented: false });
+    added.push(overlay(ghost), marker(ghost, removed ? "removed" : "moved", 0, !removed));
+  });
+
+  changes.forEach((change) => {
+    const obj = live.get(change.uid);
+    if (!obj) return;
+    obj.opacity = opacity.get(obj) ?? 1;
+    change.kinds.forEach((kind, ring) => added.push(marker(obj, kind, ring)));
+
+    const i = withGhosts.indexOf(change);
+    if (change.kinds.includes("moved") && i >= 0) {
+      const from = ghosts[i].getCenterPoint();
+      const to = obj.getCenterPoint();
+      added.push(
+        overlay(
+          new Line([from.x, from.y, to.x, to.y], {
+            stroke: colourOf("moved"),
+            strokeWidth: mmToPx(0.35),
+            strokeDashArray: [mmToPx(1.5), mmToPx(1)],
+          })
+        )
+      );
+    }
+  });
+
+  canvas.add(...added);
+
+  const page = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+  if (page) {
+    const bounds = getPageBounds(page);
+    const margin = mmToPx(10);
+    canvas.add(legend(heading, changes, bounds.left + margin, bounds.top + margin));
+  }
+  canvas.requestRenderAll();
+  return changes;
+}
@@ -0,0 +1,139 @@
+import {
+  ASSET_PREFIX,
+  assetRefs,
+  bytesToDataUrl,
+  dataUrlToBytes,
+  extractAssets,
+  formatBytes,
+  hashBytes,
+  readLegacyDocs,
+  resolveAssets,
+} from "./docStore";
+import { DOC_VERSION, SavedDoc, Sheet } from "./document";
+import { DEFAULT_LAYERS } from "./layers";
+import { emptyTitleBlock } from "./titleBlock";
+
+const PNG = bytesToDataUrl(new Uint8Array([137, 80, 78, 71, 1, 2, 3]), "image/png");
+const PDF = new Uint8Array([37, 80, 68, 70, 9, 9]);
+
+const sheet = (name: string, src: string, pdfAsset?: string): Sheet => ({
+  id: name,
+  name,
+  fabricJson: {
+    objects: [
+      { type: "Rect", name: "PAGE" },
+      { type: "Image", name: "PDF", src },
+      { type: "Image", symbolId: "downlight", src: "/images/bobble.png" },
+    ],
+  },
+  underlay: pdfAsset ? { fileName: "plan.pdf", page: 1, pageCount: 1, pdfAsset } : undefined,
+});
+
+const docOf = (...sheets: Sheet[]): SavedDoc => ({
+  version: DOC_VERSION,
+  name: "House",
+  savedAt: "2024-01-01T00:00:00.000Z",
+  sheets,
+  circuits: [],
+  titleBlock: emptyTitleBlock(),
+  layers: DEFAULT_LAYERS,
+  revisions: [],
+  revisionTable: false,
+});
+
+test("data URLs decode to their bytes and back", () => {
+  const decoded = dataUrlToBytes(PNG)!;
+  expect(decoded.type).toBe("image/png");
+  expect(Array.from(decoded.bytes)).toEqual([137, 80, 78, 71, 1, 2, 3]);
+  expect(bytesToDataUrl(decoded.bytes, decoded.type)).toBe(PNG);
+  expect(dataUrlToBytes("data:text/plain,a%20b")!.bytes).toHaveLength(3);
+});
+
+test("an underlay used on two sheets is stored once", async () => {
+  const hash = await hashBytes(PDF);
+  const doc = docOf(sheet("Ground", PNG, hash), sheet("First", PNG, hash));
+
+  const { doc: stored, assets } = await extractAssets(doc, (h) => (h === hash ? PDF : undefined));
+
+  expect(assets.map((a) => a.type).sort()).toEqual(["application/pdf", "image/png"]);
+  const image = assets.find((a) => a.type === "image/png")!;
+  const pdf = assets.find((a) => a.type === "application/pdf")!;
+  stored.sheets.forEach((s) => {
+    expect(s.fabricJson.objects[1].src).toBe(ASSET_PREFIX + image.hash);
+    expect(s.fabricJson.objects[2].src).toBe("/images/bobble.png");
+    expect(s.underlay!.pdfAsset).toBe(pdf.hash);
+  });
+  expect(assetRefs(stored).sort()).toEqual([image.hash, pdf.hash].sort());
+  // the live document keeps its images
+  expect(doc.sheets[0].fabricJson.objects[1].src).toBe(PNG);
+});
+
+test("stored documents resolve back to the saved images", async () => {
+  const doc = docOf(sheet("Ground", PNG));
+  const { doc: stored, assets } = await extractAssets(doc, () => undefined);
+
+  const restored = resolveAssets(
+    stored,
+    new Map(assets.map((a) => [a.hash, bytesToDataUrl(a.bytes, a.type)]))
+  );
+
+  expect(restored.sheets).toEqual(doc.sheets);
+});
+
+test("revisions share their images with the drawing", async () => {
+  const doc = docOf(sheet("Ground", PNG, await hashBytes(PDF)));
+  doc.revisions = [
+    { id: "r", code: "A", description: "First issue", date: "2024-01-01", sheets: doc.sheets },
+  ];
+
+  const { doc: stored, assets } = await extractAssets(doc, () => PDF);
+
+  expect(assets).toHaveLength(2);
+  const revised = stored.revisions[0].sheets[0];
+  expect(revised).toEqual(stored.sheets[0]);
+  expect(revised.fabricJson.objects[1].src.startsWith(ASSET_PREFIX)).toBe(true);
+  expect(
+    resolveAssets(stored, new Map(assets.map((a) => [a.hash, bytesToDataUrl(a.bytes, a.type)])))
+      .revisions[0].sheets
+  ).toEqual(doc.sheets.map((s) => ({ ...s, underlay: revised.underlay })));
+});
+
+test("underlays keep the PDF they were placed from", async () => {
+  // an older revision drew on another PDF that happened to share the name
+  const older = new Uint8Array([37, 80, 68, 70, 1, 1]);
+  const doc = docOf(sheet("Ground", PNG, await hashBytes(PDF)));
+  doc.revisions = [
+    {
+      id: "r",
+      code: "A",
+      description: "First issue",
+      date: "2024-01-01",
+      sheets: [sheet("Ground", PNG, await hashBytes(older))],
+    },
+  ];
+  const open = new Map([[await hashBytes(PDF), PDF]]);
+
+  const { doc: stored, assets } = await extractAssets(doc, (h) => open.get(h));
+
+  expect(assets.filter((a) => a.type === "application/pdf").map((a) => a.bytes)).toEqual([PDF]);
+  expect(stored.sheets[0].underlay!.pdfAsset).toBe(await hashBytes(PDF));
+  // not at hand, so not pointed at
+  expect(stored.revisions[0].sheets[0].underlay!.pdfAsset).toBeUndefined();
+});
+
+test("legacy documents that can't be read are kept back, not dropped", () => {
+  const bad = { name: "Broken", sheets: "nope" };
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+
+  const { docs, skipped } = readLegacyDocs(JSON.stringify([docOf(sheet("Ground", PNG)), bad]));
+
+  expect(docs.map((d) => d.name)).toEqual(["House"]);
+  expect(skipped).toEqual([bad]);
+  expect(readLegacyDocs("{not json").skipped).toEqual(["{not json"]);
+});
+
+test("sizes read in the largest sensible unit", () => {
+  expect(formatBytes(512)).toBe("512 B");
+  expect(formatBytes(1536)).toBe("1.5 KB");
+  expect(formatBytes(250 * 1024 * 1024)).toBe("250 MB");
+});
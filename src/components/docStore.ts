@@ -0,0 +1,565 @@
+import { makeId, SavedDoc, Sheet, UnderlayRef } from "./document";
+import { Revision } from "./revisions";
+import { SymbolDef } from "./symbols";
+import { migrateDoc, parseDoc } from "./schema";
+
+/**
+ * Saved documents live in IndexedDB. Binary content (underlay bitmaps and
+ * the original PDFs) is pulled out of the document JSON and kept once per
+ * content hash in a separate store, so documents sharing a drawing share
+ * its bytes and the document records stay small.
+ */
+const DB_NAME = "rjded";
+const DB_VERSION = 3;
+const DOCS = "docs";
+const ASSETS = "assets";
+/** The user's symbol library */
+const SYMBOLS = "symbols";
+/** Unsaved state of the open document, kept by autosave */
+const SESSION = "session";
+const SESSION_KEY = "current";
+
+/** Where documents were kept before IndexedDB; migrated on first open */
+export const LEGACY_LS_KEY = "rjded:savedDocs:v1";
+/** Untouched copy of the legacy documents, kept when some couldn't move */
+export const LEGACY_BACKUP_LS_KEY = "rjded:savedDocs:v1:backup";
+
+/** Image `src` pointing at an entry of the asset store */
+export const ASSET_PREFIX = "asset:";
+
+export type DocSummary = {
+  id: string;
+  name: string;
+  savedAt: string;
+  sheets: { name: string; underlay?: UnderlayRef }[];
+  /** Code of the latest issued revision */
+  revision?: string;
+};
+
+export type StorageUsage = {
+  /** Bytes taken by saved documents and their assets */
+  used: number;
+  /** Browser's quota for the origin, when it tells */
+  quota?: number;
+};
+
+export type AssetData = { hash: string; type: string; bytes: Uint8Array };
+
+/** Original bytes of an underlay PDF by content hash, when it's at hand */
+export type PdfLookup = (hash: string) => Uint8Array | undefined;
+
+type StoredDoc = {
+  id: string;
+  /**
+   * Document with embedded binaries replaced by asset references, in the
+   * format current when it was written; read it through `migrateDoc`
+   */
+  doc: SavedDoc;
+  /** Hashes of every asset the document refers to */
+  assets: string[];
+  bytes: number;
+};
+
+type SessionRecord = StoredDoc & { docId: string | null };
+
+type StoredAsset = { hash: string; type: string; size: number; blob: Blob };
+
+export type StoredContent = {
+  doc: SavedDoc;
+  /** Original PDFs of the underlays, by content hash */
+  pdfs: Map<string, Uint8Array>;
+};
+
+// ---- Encoding ----
+
+export function dataUrlToBytes(url: string): { type: string; bytes: Uint8Array } | null {
+  const match = /^data:([^;,]*)((?:;[^,]*)*),(.*)$/.exec(url);
+  if (!match) return null;
+  const [, type, params, payload] = match;
+  const text = params.includes(";base64") ? atob(payload) : decodeURIComponent(payload);
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return { type: type || "application/octet-stream", bytes };
+}
+
+export function bytesToDataUrl(bytes: Uint8Array, type: string): string {
+  let text = "";
+  // chunked: spreading a whole bitmap into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+  return `data:${type};base64,${btoa(text)}`;
+}
+
+const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+
+/**
+ * SHA-256 of the content. Pages served over plain http have no SubtleCrypto;
+ * two FNV-1a passes plus the length stand in for it there.
+ */
+export async function hashBytes(bytes: Uint8Array): Promise<string> {
+  const subtle = typeof crypto !== "undefined" ? crypto.subtle : undefined;
+  if (subtle) return toHex(new Uint8Array(await subtle.digest("SHA-256", bytes)));
+
+  let a = 0x811c9dc5;
+  let b = 0x01000193;
+  for (let i = 0; i < bytes.length; i++) {
+    a = Math.imul(a ^ bytes[i], 0x01000193) >>> 0;
+    b = Math.imul(b ^ bytes[bytes.length - 1 - i], 0x811c9dc5) >>> 0;
+  }
+  return `fnv-${a.toString(16)}${b.toString(16)}-${bytes.length}`;
+}
+
+function blobToBytes(blob: Blob): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+// ---- Asset extraction ----
+
+/** Copy of Fabric JSON objects (and group children) with `src` rewritten by `fn` */
+function mapSources(objects: any[], fn: (src: string) => string): any[] {
+  return objects.map((o) => {
+    if (!o || typeof o !== "object") return o;
+    let next = o;
+    if (typeof o.src === "string") {
+      const src = fn(o.src);
+      if (src !== o.src) next = { ...next, src };
+    }
+    if (Array.isArray(o.objects)) next = { ...next, objects: mapSources(o.objects, fn) };
+    return next;
+  });
+}
+
+const mapSheetSources = (sheet: Sheet, fn: (src: string) => string): Sheet =>
+  sheet.fabricJson?.objects
+    ? {
+        ...sheet,
+        fabricJson: { ...sheet.fabricJson, objects: mapSources(sheet.fabricJson.objects, fn) },
+      }
+    : sheet;
+
+/** The document's sheets followed by the copies kept in its revisions */
+const allSheets = (doc: SavedDoc): Sheet[] => [
+  ...doc.sheets,
+  ...doc.revisions.flatMap((r) => r.sheets),
+];
+
+/**
+ * Split a document into its JSON, with data URL images and underlay PDFs
+ * replaced by asset references, and the de-duplicated assets themselves.
+ * The input document is left untouched.
+ */
+export async function extractAssets(
+  doc: SavedDoc,
+  pdfBytes: PdfLookup
+): Promise<{ doc: SavedDoc; assets: AssetData[] }> {
+  const assets = new Map<string, AssetData>();
+  const add = async (bytes: Uint8Array, type: string) => {
+    const hash = await hashBytes(bytes);
+    if (!assets.has(hash)) assets.set(hash, { hash, type, bytes });
+    return hash;
+  };
+
+  // hashing is async, so collect the data URLs first and rewrite afterwards
+  const refs = new Map<string, string>();
+  allSheets(doc).forEach((sheet) =>
+    mapSheetSources(sheet, (src) => {
+      if (src.startsWith("data:")) refs.set(src, "");
+      return src;
+    })
+  );
+  for (const src of Array.from(refs.keys())) {
+    const decoded = dataUrlToBytes(src);
+    if (decoded) refs.set(src, ASSET_PREFIX + (await add(decoded.bytes, decoded.type)));
+  }
+
+  const storeSheets = async (sheets: Sheet[]) => {
+    const stored: Sheet[] = [];
+    for (const sheet of sheets) {
+      let next = mapSheetSources(sheet, (src) => refs.get(src) || src);
+      // the hash was taken when the underlay was placed; never re-derive it
+      // from the file name, another PDF may be open under the same one
+      const bytes = next.underlay?.pdfAsset && pdfBytes(next.underlay.pdfAsset);
+      if (bytes) {
+        await add(bytes, "application/pdf");
+      } else if (next.underlay?.pdfAsset && !assets.has(next.underlay.pdfAsset)) {
+        // the PDF isn't open and can't be re-stored; don't point at nothing
+        const { pdfAsset, ...underlay } = next.underlay;
+        next = { ...next, underlay };
+      }
+      stored.push(next);
+    }
+    return stored;
+  };
+
+  const sheets = await storeSheets(doc.sheets);
+  const revisions: Revision[] = [];
+  for (const revision of doc.revisions) {
+    revisions.push({ ...revision, sheets: await storeSheets(revision.sheets) });
+  }
+  return { doc: { ...doc, sheets, revisions }, assets: Array.from(assets.values()) };
+}
+
+/** Hashes of the assets a stored document refers to */
+export function assetRefs(doc: SavedDoc): string[] {
+  const refs = new Set<string>();
+  allSheets(doc).forEach((sheet) => {
+    mapSheetSources(sheet, (src) => {
+      if (src.startsWith(ASSET_PREFIX)) refs.add(src.slice(ASSET_PREFIX.length));
+      return src;
+    });
+    if (sheet.underlay?.pdfAsset) refs.add(sheet.underlay.pdfAsset);
+  });
+  return Array.from(refs);
+}
+
+/** Put image data back into a stored document; `dataUrls` is keyed by hash */
+export function resolveAssets(doc: SavedDoc, dataUrls: Map<string, string>): SavedDoc {
+  const resolve = (sheet: Sheet) =>
+    mapSheetSources(sheet, (src) =>
+      src.startsWith(ASSET_PREFIX) ? dataUrls.get(src.slice(ASSET_PREFIX.length)) ?? src : src
+    );
+  return {
+    ...doc,
+    sheets: doc.sheets.map(resolve),
+    revisions: doc.revisions.map((r) => ({ ...r, sheets: r.sheets.map(resolve) })),
+  };
+}
+
+const summarize = (record: StoredDoc): DocSummary => {
+  const doc = migrateDoc(record.doc);
+  return {
+    id: record.id,
+    name: doc.name,
+    savedAt: doc.savedAt,
+    sheets: doc.sheets.map((s) => ({ name: s.name, underlay: s.underlay })),
+    revision: doc.revisions[doc.revisions.length - 1]?.code,
+  };
+};
+
+// ---- IndexedDB ----
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(DOCS)) db.createObjectStore(DOCS, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(ASSETS)) {
+          db.createObjectStore(ASSETS, { keyPath: "hash" });
+        }
+        if (!db.objectStoreNames.contains(SESSION)) db.createObjectStore(SESSION, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(SYMBOLS)) db.createObjectStore(SYMBOLS, { keyPath: "id" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // let a later call try again
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+const result = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const done = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction aborted"));
+  });
+
+/** Delete assets that neither a document nor the recovery copy refers to */
+function collectGarbage(tx: IDBTransaction) {
+  const assetStore = tx.objectStore(ASSETS);
+  const docs = tx.objectStore(DOCS).getAll();
+  docs.onsuccess = () => {
+    const session = tx.objectStore(SESSION).getAll();
+    session.onsuccess = () => {
+      const used = new Set<string>();
+      [...(docs.result as StoredDoc[]), ...(session.result as StoredDoc[])].forEach((r) =>
+        r.assets.forEach((h) => used.add(h))
+      );
+      const keys = assetStore.getAllKeys();
+      keys.onsuccess = () =>
+        keys.result.forEach((key) => {
+          if (!used.has(String(key))) assetStore.delete(key);
+        });
+    };
+  };
+}
+
+/**
+ * Write a record and any assets the store doesn't have yet. Replacing a
+ * record can leave assets behind, so those writes collect garbage too.
+ */
+async function writeRecord(
+  storeName: typeof DOCS | typeof SESSION,
+  record: StoredDoc,
+  assets: AssetData[],
+  replacing: boolean
+) {
+  // no awaiting inside: a transaction commits as soon as it is left idle
+  const db = await openDb();
+  const tx = db.transaction([DOCS, ASSETS, SESSION], "readwrite");
+  const assetStore = tx.objectStore(ASSETS);
+  assets.forEach((asset) => {
+    const count = assetStore.count(asset.hash);
+    count.onsuccess = () => {
+      if (count.result > 0) return;
+      const stored: StoredAsset = {
+        hash: asset.hash,
+        type: asset.type,
+        size: asset.bytes.length,
+        blob: new Blob([asset.bytes], { type: asset.type }),
+      };
+      assetStore.put(stored);
+    };
+  });
+  tx.objectStore(storeName).put(record);
+  if (replacing) collectGarbage(tx);
+  await done(tx);
+}
+
+async function toRecord(id: string, doc: SavedDoc, pdfBytes: PdfLookup) {
+  const { doc: stripped, assets } = await extractAssets(doc, pdfBytes);
+  const record: StoredDoc = {
+    id,
+    doc: stripped,
+    assets: assetRefs(stripped),
+    bytes: JSON.stringify(stripped).length,
+  };
+  return { record, assets };
+}
+
+/** Images inlined again, and the original PDFs of the underlays by hash */
+async function resolveRecord(tx: IDBTransaction, record: StoredDoc): Promise<StoredContent> {
+  const assets: (StoredAsset | undefined)[] = await Promise.all(
+    record.assets.map((hash) => result(tx.objectStore(ASSETS).get(hash)))
+  );
+
+  const dataUrls = new Map<string, string>();
+  const pdfs = new Map<string, Uint8Array>();
+  for (const asset of assets) {
+    if (!asset) continue;
+    const bytes = await blobToBytes(asset.blob);
+    if (asset.type === "application/pdf") pdfs.set(asset.hash, bytes);
+    else dataUrls.set(asset.hash, bytesToDataUrl(bytes, asset.type));
+  }
+
+  // records keep the format they were written in
+  return { doc: resolveAssets(migrateDoc(record.doc), dataUrls), pdfs };
+}
+
+export async function listDocs(): Promise<DocSummary[]> {
+  const db = await openDb();
+  const records: StoredDoc[] = await result(
+    db.transaction(DOCS).objectStore(DOCS).getAll()
+  );
+  return records
+    .map(summarize)
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+/**
+ * Store a document, over the one saved as `id` when given, otherwise as a
+ * new entry. Rejects when the browser is out of space.
+ */
+export async function saveDoc(
+  doc: SavedDoc,
+  pdfBytes: PdfLookup,
+  id?: string
+): Promise<DocSummary> {
+  const { record, assets } = await toRecord(id ?? makeId(), doc, pdfBytes);
+  await writeRecord(DOCS, record, assets, !!id);
+  return summarize(record);
+}
+
+export async function loadDoc(id: string): Promise<StoredContent | null> {
+  const db = await openDb();
+  const tx = db.transaction([DOCS, ASSETS]);
+  const record: StoredDoc | undefined = await result(tx.objectStore(DOCS).get(id));
+  return record ? resolveRecord(tx, record) : null;
+}
+
+/** Remove a document and whatever assets nothing else still uses */
+export async function deleteDoc(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([DOCS, ASSETS, SESSION], "readwrite");
+  tx.objectStore(DOCS).delete(id);
+  collectGarbage(tx);
+  await done(tx);
+}
+
+// ---- Recovery copy ----
+
+/**
+ * Keep a copy of the open document's unsaved state. `docId` is the saved
+ * document it was opened from, if any, so a restore can keep saving to it.
+ */
+export async function saveSession(doc: SavedDoc, docId: string | null, pdfBytes: PdfLookup) {
+  const { record, assets } = await toRecord(SESSION_KEY, doc, pdfBytes);
+  const session: SessionRecord = { ...record, docId };
+  await writeRecord(SESSION, session, assets, true);
+}
+
+export async function loadSession(): Promise<
+  (StoredContent & { docId: string | null; savedAt: string }) | null
+> {
+  const db = await openDb();
+  const tx = db.transaction([SESSION, ASSETS]);
+  const record: SessionRecord | undefined = await result(
+    tx.objectStore(SESSION).get(SESSION_KEY)
+  );
+  if (!record) return null;
+  return {
+    ...(await resolveRecord(tx, record)),
+    docId: record.docId,
+    savedAt: record.doc.savedAt,
+  };
+}
+
+export async function clearSession(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([DOCS, ASSETS, SESSION], "readwrite");
+  tx.objectStore(SESSION).delete(SESSION_KEY);
+  collectGarbage(tx);
+  await done(tx);
+}
+
+export async function storageUsage(): Promise<StorageUsage> {
+  const db = await openDb();
+  const tx = db.transaction([DOCS, ASSETS, SESSION, SYMBOLS]);
+  const [docs, session, assets, symbols] = await Promise.all([
+    result(tx.objectStore(DOCS).getAll()) as Promise<StoredDoc[]>,
+    result(tx.objectStore(SESSION).getAll()) as Promise<StoredDoc[]>,
+    result(tx.objectStore(ASSETS).getAll()) as Promise<StoredAsset[]>,
+    result(tx.objectStore(SYMBOLS).getAll()) as Promise<SymbolDef[]>,
+  ]);
+  const used =
+    [...docs, ...session].reduce((n, d) => n + d.bytes, 0) +
+    assets.reduce((n, a) => n + a.size, 0) +
+    symbols.reduce((n, s) => n + s.src.length, 0);
+
+  const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+  return { used, quota: estimate?.quota };
+}
+
+// ---- Symbol library ----
+
+/** The user's symbols, in the order they were added */
+export async function listSymbols(): Promise<SymbolDef[]> {
+  const db = await openDb();
+  const records: (SymbolDef & { addedAt: number })[] = await result(
+    db.transaction(SYMBOLS).objectStore(SYMBOLS).getAll()
+  );
+  return records
+    .sort((a, b) => a.addedAt - b.addedAt)
+    .map(({ addedAt, ...symbol }) => symbol);
+}
+
+/** Add symbols to the library, replacing any with the same id */
+export async function saveSymbols(symbols: SymbolDef[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SYMBOLS, "readwrite");
+  const store = tx.objectStore(SYMBOLS);
+  const now = Date.now();
+  symbols.forEach((symbol, i) => {
+    const existing = store.get(symbol.id);
+    existing.onsuccess = () =>
+      store.put({ ...symbol, addedAt: existing.result?.addedAt ?? now + i });
+  });
+  await done(tx);
+}
+
+export async function deleteSymbol(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SYMBOLS, "readwrite");
+  tx.objectStore(SYMBOLS).delete(id);
+  await done(tx);
+}
+
+export type LegacyMigration = {
+  moved: number;
+  /** Documents that couldn't be read; they stay in localStorage */
+  skipped: number;
+};
+
+/** Legacy localStorage entries split into readable documents and the rest */
+export function readLegacyDocs(raw: string): { docs: SavedDoc[]; skipped: unknown[] } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { docs: [], skipped: [raw] };
+  }
+  if (!Array.isArray(parsed)) return { docs: [], skipped: [parsed] };
+
+  const docs: SavedDoc[] = [];
+  const skipped: unknown[] = [];
+  parsed.forEach((value) => {
+    const read = parseDoc(value);
+    if (read.ok) {
+      docs.push(read.doc);
+    } else {
+      console.warn("Couldn't move a saved document:", read.problems);
+      skipped.push(value);
+    }
+  });
+  return { docs, skipped };
+}
+
+let migration: Promise<LegacyMigration> | null = null;
+
+/**
+ * Move documents saved in localStorage into the store, once. The old key
+ * is only removed after every document made it across; documents that
+ * can't be read stay under it, and the original value is backed up.
+ */
+export function migrateLocalDocs(pdfBytes: PdfLookup): Promise<LegacyMigration> {
+  if (!migration) {
+    migration = (async () => {
+      const raw = localStorage.getItem(LEGACY_LS_KEY);
+      if (!raw) return { moved: 0, skipped: 0 };
+
+      const { docs, skipped } = readLegacyDocs(raw);
+      if (skipped.length && !localStorage.getItem(LEGACY_BACKUP_LS_KEY)) {
+        localStorage.setItem(LEGACY_BACKUP_LS_KEY, raw);
+      }
+      for (const doc of docs) await saveDoc(doc, pdfBytes);
+
+      if (!skipped.length) localStorage.removeItem(LEGACY_LS_KEY);
+      // keep only what didn't move, so the next run doesn't copy the rest again
+      else if (docs.length) localStorage.setItem(LEGACY_LS_KEY, JSON.stringify(skipped));
+      return { moved: docs.length, skipped: skipped.length };
+    })();
+    migration.catch(() => (migration = null));
+  }
+  return migration;
+}
+
+/** "12.4 MB" */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ["KB", "MB", "GB"];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)} ${units[unit]}`;
+}
@@ -0,0 +1,28 @@
+import { docFingerprint, DOC_VERSION, SavedDoc } from "./document";
+import { DEFAULT_LAYERS } from "./layers";
+import { emptyTitleBlock } from "./titleBlock";
+
+test("fingerprints ignore the save time but not the content", () => {
+  const doc: SavedDoc = {
+    version: DOC_VERSION,
+    name: "House",
+    savedAt: "2024-01-01T00:00:00.000Z",
+    sheets: [
+      {
+        id: "a",
+        name: "Ground floor",
+        fabricJson: { objects: [{ type: "Image", src: `data:image/png;base64,${"A".repeat(500)}` }] },
+      },
+    ],
+    circuits: [],
+    titleBlock: emptyTitleBlock(),
+    layers: DEFAULT_LAYERS,
+    revisions: [],
+    revisionTable: false,
+  };
+  const renamed = { ...doc, sheets: [{ ...doc.sheets[0], name: "Basement" }] };
+
+  expect(docFingerprint({ ...doc, savedAt: "2025-06-01T00:00:00.000Z" })).toBe(docFingerprint(doc));
+  expect(docFingerprint(renamed)).not.toBe(docFingerprint(doc));
+  expect(docFingerprint(doc)).not.toContain("A".repeat(100));
+});
@@ -0,0 +1,227 @@
+import { StaticCanvas } from "fabric";
+import { refreshCableRuns } from "./cables";
+import { Circuit } from "./circuits";
+import { Layer, printedOpacity } from "./layers";
+import { Revision } from "./revisions";
+import { SYMBOL_PROPERTY_KEYS } from "./symbolProperties";
+import { TITLE_BLOCK_NAME, TitleBlockFields } from "./titleBlock";
+import {
+  CANVAS_BG,
+  createPageRect,
+  DPI,
+  getPageBounds,
+  getPagePaper,
+  PAGE_NAME,
+  PDF_NAME,
+} from "./page";
+
+export type UnderlayRef = {
+  fileName: string;
+  /** 1-based page of the source PDF used as the underlay */
+  page: number;
+  pageCount: number;
+  /** Hash of the original PDF in the document store's assets */
+  pdfAsset?: string;
+};
+
+/** One named drawing (a floor, the external plan…) inside a document */
+export type Sheet = {
+  id: string;
+  name: string;
+  /** Fabric JSON; null for a sheet that has never been opened */
+  fabricJson: any | null;
+  underlay?: UnderlayRef;
+};
+
+/** Format of saved documents; older ones are upgraded by ./schema */
+export const DOC_VERSION = 3;
+
+export type SavedDoc = {
+  version: typeof DOC_VERSION;
+  name: string;
+  savedAt: string;
+  sheets: Sheet[];
+  /** Consumer unit circuits shared by every sheet */
+  circuits: Circuit[];
+  titleBlock: TitleBlockFields;
+  /** Layer stack shared by every sheet, bottom first */
+  layers: Layer[];
+  /** Issued revisions, oldest first */
+  revisions: Revision[];
+  /** Print the revision table above the title block */
+  revisionTable: boolean;
+};
+
+export const EXTRA_PROPS = [
+  "selectable",
+  "evented",
+  "hasControls",
+  "hasBorders",
+  "name",
+  "sourceFile",
+  "sourceHash",
+  "sourcePage",
+  "sourcePageCount",
+  "sourcePtWidth",
+  "calibration",
+  "paper",
+  "symbolId",
+  ...SYMBOL_PROPERTY_KEYS,
+  "circuit",
+  "layer",
+  "labelFor",
+  "labelOffset",
+  "labelAuto",
+  "noteRef",
+  "uid",
+  "cableType",
+  "startRef",
+  "endRef",
+];
+
+export const makeId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export function createSheet(name: string): Sheet {
+  return { id: makeId(), name, fabricJson: null };
+}
+
+/**
+ * Comparable form of a document's content, for telling whether it has
+ * changed since it was saved. The save time is left out, and embedded
+ * images are cut down to their length and tail so large underlays stay
+ * cheap to compare.
+ */
+export function docFingerprint(doc: SavedDoc): string {
+  const { savedAt, ...content } = doc;
+  return JSON.stringify(content, (key, value) =>
+    key === "src" && typeof value === "string" && value.startsWith("data:")
+      ? `${value.length}:${value.slice(-64)}`
+      : value
+  );
+}
+
+export function getUnderlayRef(canvas: StaticCanvas): UnderlayRef | undefined {
+  const pdf: any = canvas.getObjects().find((o: any) => o?.name === PDF_NAME);
+  if (!pdf || !pdf.sourcePage) return undefined;
+  return {
+    fileName: pdf.sourceFile ?? "",
+    page: pdf.sourcePage,
+    pageCount: pdf.sourcePageCount ?? 1,
+    ...(pdf.sourceHash ? { pdfAsset: pdf.sourceHash } : {}),
+  };
+}
+
+// Canvas#toJSON ignores its argument in Fabric 6+, so go through toObject
+export function serializeCanvas(canvas: StaticCanvas) {
+  const json = canvas.toObject(EXTRA_PROPS);
+  // objects line up with the canvas once editor-only ones are skipped
+  canvas
+    .getObjects()
+    .filter((obj) => !obj.excludeFromExport)
+    .forEach((obj, i) => {
+      if (json.objects[i]) json.objects[i].opacity = printedOpacity(obj);
+    });
+  return json;
+}
+
+/**
+ * Replace the canvas content with a sheet's JSON, or a blank page for a new
+ * sheet. Fires "sheet:loaded" once the content is in place.
+ */
+export async function loadCanvasJson(canvas: StaticCanvas, json: any | null) {
+  canvas.clear();
+
+  if (!json) {
+    canvas.backgroundColor = CANVAS_BG;
+    canvas.add(createPageRect());
+    canvas.fire("sheet:loaded" as any);
+    canvas.requestRenderAll();
+    return;
+  }
+
+  await canvas.loadFromJSON(json);
+
+  canvas.getObjects().forEach((obj: any) => {
+    obj.selectable = true;
+    obj.evented = true;
+    obj.hasControls = false;
+    obj.hasBorders = false;
+
+    // keep page rect, PDF and title block non-editable
+    if (obj.name === PAGE_NAME || obj.name === PDF_NAME || obj.name === TITLE_BLOCK_NAME) {
+      obj.selectable = false;
+      obj.evented = false;
+    }
+  });
+
+  // length labels follow the sheet's current calibration
+  refreshCableRuns(canvas);
+  canvas.fire("sheet:loaded" as any);
+  canvas.requestRenderAll();
+}
+
+export type PageImage = {
+  dataUrl: string;
+  orientation: "landscape" | "portrait";
+};
+
+/** Raster exports never come out coarser than twice the canvas resolution */
+const MIN_EXPORT_MULTIPLIER = 2;
+
+/**
+ * Crop the page rect out of a canvas (WORLD space, independent of zoom/pan),
+ * at the sheet's paper DPI or twice the canvas resolution, whichever is finer.
+ */
+export function pageToDataUrl(
+  canvas: StaticCanvas,
+  format: "png" | "jpeg"
+): PageImage | null {
+  const page: any = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+  if (!page) return null;
+
+  const { left, top, width, height } = getPageBounds(page);
+
+  // toDataURL crops in viewport space, so drop zoom/pan for the capture
+  const vpt = canvas.viewportTransform;
+  canvas.viewportTransform = [1, 0, 0, 1, 0, 0];
+  let dataUrl: string;
+  try {
+    dataUrl = (canvas as any).toDataURL({
+      format,
+      left,
+      top,
+      width,
+      height,
+      multiplier: Math.max(MIN_EXPORT_MULTIPLIER, getPagePaper(page).dpi / DPI),
+      enableRetinaScaling: false,
+      quality: format === "jpeg" ? 0.92 : undefined,
+    }) as string;
+  } finally {
+    canvas.viewportTransform = vpt;
+  }
+
+  return {
+    dataUrl,
+    orientation: width >= height ? "landscape" : "portrait",
+  };
+}
+
+/**
+ * Load a stored sheet into a throwaway off-screen canvas for the length of
+ * `fn`. `prepare` can bring document-level content (title block…) up to date.
+ */
+export async function withSheetCanvas<T>(
+  json: any | null,
+  prepare: ((canvas: StaticCanvas) => Promise<void> | void) | undefined,
+  fn: (canvas: StaticCanvas) => Promise<T> | T
+): Promise<T> {
+  const offscreen = new StaticCanvas(undefined, { renderOnAddRemove: false });
+  try {
+    await loadCanvasJson(offscreen, json);
+    await prepare?.(offscreen);
+    return await fn(offscreen);
+  } finally {
+    offscreen.dispose();
+  }
+}
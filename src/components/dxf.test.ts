@@ -0,0 +1,148 @@
+import { Circle, Group, Rect } from "fabric";
+import { CableRun } from "./cables";
+import { dxfName, dxfText, sheetToDxf, TITLE_BLOCK_LAYER } from "./dxf";
+import { DEFAULT_LAYERS } from "./layers";
+import { createPageRect, mmToPx } from "./page";
+import { sheetOf } from "./testCanvas";
+import { TITLE_BLOCK_NAME } from "./titleBlock";
+
+type Entity = { type: string; codes: Map<number, string[]> };
+
+/** Entities of one section, each with its group codes */
+function section(dxf: string, name: string): Entity[] {
+  const lines = dxf.trim().split("\n");
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) pairs.push([Number(lines[i]), lines[i + 1]]);
+
+  const start = pairs.findIndex(([c, v]) => c === 2 && v === name);
+  const out: Entity[] = [];
+  for (const [code, value] of pairs.slice(start + 1)) {
+    if (code === 0 && value === "ENDSEC") break;
+    if (code === 0) {
+      out.push({ type: value, codes: new Map() });
+    } else {
+      const { codes } = out[out.length - 1];
+      codes.set(code, [...(codes.get(code) ?? []), value]);
+    }
+  }
+  return out;
+}
+
+const num = (e: Entity, code: number) => Number(e.codes.get(code)![0]);
+
+/** A vector symbol the way symbolObjects builds one: an empty frame plus shapes */
+function twinSocket(left: number, top: number, angle = 0) {
+  const frame = new Rect({
+    originX: "left",
+    originY: "top",
+    left: 0,
+    top: 0,
+    width: 100,
+    height: 100,
+    fill: "",
+    strokeWidth: 0,
+  });
+  const group = new Group([
+    frame,
+    new Circle({ left: 50, top: 50, radius: 20, fill: "#1d1d1d", strokeWidth: 0 }),
+  ]);
+  group.scale(mmToPx(8) / 100);
+  // socket-twin inserts at its bottom middle
+  group.set({ originX: 0.5, originY: 1, left, top, angle } as any);
+  group.setCoords();
+  Object.assign(group, { symbolId: "socket-twin", layer: "power" });
+  return group;
+}
+
+test("names and text are made safe for R12", () => {
+  expect(dxfName("Fire alarm")).toBe("Fire_alarm");
+  expect(dxfName("  Twin socket (13A) ")).toBe("Twin_socket_13A");
+  expect(dxfName("!!")).toBe("_");
+  expect(dxfText("3 × 2.5 mm²\nline")).toBe("3 \\U+00D7 2.5 mm\\U+00B2 line");
+});
+
+test("symbols become one block each, inserted at their insertion points", () => {
+  const page = createPageRect();
+  const dxf = sheetToDxf(
+    sheetOf(page, twinSocket(300, 400), twinSocket(600, 400, 90)),
+    DEFAULT_LAYERS
+  )!;
+
+  const blocks = section(dxf, "BLOCKS");
+  expect(blocks.filter((e) => e.type === "BLOCK").map((e) => e.codes.get(2)![0])).toEqual([
+    "Twin_socket",
+  ]);
+  // the empty frame draws nothing; the circle sits above the base point (y up)
+  const circle = blocks.find((e) => e.type === "CIRCLE")!;
+  expect(num(circle, 10)).toBeCloseTo(0);
+  expect(num(circle, 20)).toBeCloseTo(50);
+  expect(num(circle, 40)).toBeCloseTo(20);
+
+  const inserts = section(dxf, "ENTITIES").filter((e) => e.type === "INSERT");
+  expect(inserts).toHaveLength(2);
+  const [a, b] = inserts;
+  expect(a.codes.get(8)).toEqual(["Power"]);
+  expect(a.codes.get(2)).toEqual(["Twin_socket"]);
+  // paper mm from the page's bottom-left corner
+  const k = 25.4 / 150;
+  const pageHeight = page.height * k;
+  expect(num(a, 10)).toBeCloseTo((300 - 1) * k, 1);
+  expect(num(a, 20)).toBeCloseTo(pageHeight - (400 - 1) * k, 1);
+  // 100 block units print 8 mm wide
+  expect(num(a, 41)).toBeCloseTo(0.08, 3);
+  expect(num(a, 42)).toBeCloseTo(0.08, 3);
+  expect(a.codes.has(50)).toBe(false);
+  // clockwise on screen is clockwise in CAD, which counts angles the other way
+  expect(num(b, 50)).toBeCloseTo(-90);
+});
+
+test("a calibrated sheet is drawn in real millimetres", () => {
+  const page = createPageRect();
+  page.calibration = { mmPerPx: 10, method: "scale", scale: 100 };
+  const run = new CableRun(
+    [
+      { x: 100, y: 100 },
+      { x: 200, y: 100 },
+      { x: 200, y: 150 },
+    ],
+    { stroke: "#d32f2f", strokeWidth: 2, layer: "power" }
+  );
+  const dxf = sheetToDxf(sheetOf(page, run), DEFAULT_LAYERS)!;
+
+  const entities = section(dxf, "ENTITIES");
+  expect(entities.map((e) => e.type)).toEqual([
+    "POLYLINE",
+    "VERTEX",
+    "VERTEX",
+    "VERTEX",
+    "SEQEND",
+  ]);
+  const [first, second, third] = entities.slice(1, 4);
+  expect(num(second, 10) - num(first, 10)).toBeCloseTo(1000);
+  expect(num(third, 20) - num(second, 20)).toBeCloseTo(-500);
+});
+
+test("layers follow the drawing's layer names", () => {
+  const dxf = sheetToDxf(
+    sheetOf(
+      createPageRect(),
+      Object.assign(new Rect({ width: 20, height: 20, stroke: "#000", strokeWidth: 1 }), {
+        layer: "fire-alarm",
+      }),
+      Object.assign(new Rect({ width: 5, height: 5, fill: "#000" }), { name: TITLE_BLOCK_NAME }),
+      Object.assign(new Rect({ width: 5, height: 5, fill: "#000" }), { visible: false })
+    ),
+    DEFAULT_LAYERS
+  )!;
+
+  const layers = section(dxf, "TABLES")
+    .filter((e) => e.type === "LAYER")
+    .map((e) => e.codes.get(2)![0]);
+  expect(layers).toEqual(["0", "Fire_alarm", TITLE_BLOCK_LAYER]);
+  const polylines = section(dxf, "ENTITIES").filter((e) => e.type === "POLYLINE");
+  expect(polylines.map((e) => e.codes.get(8)![0])).toEqual(["Fire_alarm", TITLE_BLOCK_LAYER]);
+});
+
+test("sheets without a page have nothing to export", () => {
+  expect(sheetToDxf(sheetOf(), DEFAULT_LAYERS)).toBeNull();
+});
@@ -0,0 +1,416 @@
+import { FabricObject, Group, StaticCanvas, util as fabricUtil } from "fabric";
+import { isLeader, textLinesOf } from "./annotations";
+import { getCalibration } from "./calibration";
+import { CABLE_LABEL_FONT, isCableRun } from "./cables";
+import { Layer, layerOf } from "./layers";
+import { DPI, getPageBounds, MM_PER_INCH, PAGE_NAME, PDF_NAME } from "./page";
+import { getSymbol, SymbolAnchor, symbolIdOf } from "./symbols";
+
+/**
+ * DXF export of a sheet for CAD. Written as AutoCAD R12 (AC1009), which
+ * every CAD package opens: each symbol type is a block inserted at its
+ * symbols' insertion points, cable runs and other linework are polylines
+ * and text is TEXT, one entity per line. Entities go on layers named after
+ * the drawing's layers. Units are real millimetres on a calibrated sheet
+ * and paper millimetres otherwise; the underlay is left out, as the CAD
+ * model it came from already has it.
+ */
+
+type Pt = { x: number; y: number };
+
+/** Object-local coordinates (Fabric's centred frame) to DXF coordinates */
+type ToDxf = (p: Pt) => Pt;
+
+type Put = (...pairs: (string | number)[]) => void;
+
+export const TITLE_BLOCK_LAYER = "Title_block";
+
+// DXF text height is the capital height, about 0.7 of a font's em size
+const CAP_HEIGHT = 0.7;
+const ELLIPSE_STEPS = 48;
+const CURVE_STEPS = 8;
+
+const num = (v: number) => {
+  const r = Math.round(v * 1e4) / 1e4;
+  return Object.is(r, -0) ? "0" : String(r);
+};
+
+/** Layer and block names may only use letters, digits, $, - and _ */
+export function dxfName(name: string): string {
+  const clean = name
+    .trim()
+    .replace(/[^A-Za-z0-9$_-]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 31);
+  return clean || "_";
+}
+
+/** Text for a TEXT entity: one line, characters outside ASCII as \U+XXXX */
+export function dxfText(text: string): string {
+  return Array.from(text.replace(/[\r\n\t]+/g, " "))
+    .map((ch) => {
+      const code = ch.codePointAt(0)!;
+      if (code < 32) return "";
+      if (code > 126) return `\\U+${code.toString(16).toUpperCase().padStart(4, "0")}`;
+      return ch;
+    })
+    .join("");
+}
+
+const sub = (a: Pt, b: Pt) => ({ x: a.x - b.x, y: a.y - b.y });
+const length = (v: Pt) => Math.hypot(v.x, v.y);
+const degrees = (v: Pt) => (Math.atan2(v.y, v.x) * 180) / Math.PI;
+
+/** Length of one local unit along `dir` once drawn */
+const unitLength = (map: ToDxf, dir: Pt) => length(sub(map(dir), map({ x: 0, y: 0 })));
+
+/** Point on a Bézier curve through control points `pts` (de Casteljau) */
+const bezier = (pts: Pt[], t: number): Pt =>
+  pts.length === 1
+    ? pts[0]
+    : bezier(
+        pts.slice(1).map((p, i) => ({
+          x: pts[i].x + (p.x - pts[i].x) * t,
+          y: pts[i].y + (p.y - pts[i].y) * t,
+        })),
+        t
+      );
+
+// ---- Entities ----
+
+function polyline(put: Put, layer: string, points: Pt[], closed = false) {
+  if (points.length < 2) return;
+  put(0, "POLYLINE", 8, layer, 66, 1, 10, 0, 20, 0, 30, 0, 70, closed ? 1 : 0);
+  points.forEach((p) => put(0, "VERTEX", 8, layer, 10, p.x, 20, p.y, 30, 0));
+  put(0, "SEQEND", 8, layer);
+}
+
+function text(
+  put: Put,
+  layer: string,
+  value: string,
+  at: Pt,
+  height: number,
+  rotation: number,
+  centred = false
+) {
+  const content = dxfText(value);
+  if (!content.trim() || !(height > 0)) return;
+  put(0, "TEXT", 8, layer, 10, at.x, 20, at.y, 30, 0, 40, height, 1, content);
+  if (rotation) put(50, rotation);
+  // centred text is placed by its second alignment point
+  if (centred) put(72, 1, 11, at.x, 21, at.y, 31, 0);
+}
+
+function textLines(put: Put, layer: string, obj: any, map: ToDxf) {
+  const height = obj.fontSize * unitLength(map, { x: 0, y: 1 }) * CAP_HEIGHT;
+  const rotation = degrees(sub(map({ x: 1, y: 0 }), map({ x: 0, y: 0 })));
+  textLinesOf(obj).forEach((line) => text(put, layer, line.text, map(line), height, rotation));
+}
+
+function cableLabel(put: Put, layer: string, run: any, map: ToDxf) {
+  const at = run.labelPlacement();
+  if (!at) return;
+  // on screen the label's descenders clear the run by 3px
+  const lift = 3 + CABLE_LABEL_FONT * 0.21;
+  const sin = Math.sin(at.angle);
+  const cos = Math.cos(at.angle);
+  const base = { x: at.x + lift * sin, y: at.y - lift * cos };
+  const along = sub(map({ x: base.x + cos, y: base.y + sin }), map(base));
+  const height = CABLE_LABEL_FONT * unitLength(map, { x: 0, y: 1 }) * CAP_HEIGHT;
+  text(put, layer, run.lengthLabel, map(base), height, degrees(along), true);
+}
+
+/** Polylines through a Fabric path, with curves flattened */
+function pathPolylines(path: any[], offset: Pt): { points: Pt[]; closed: boolean }[] {
+  const runs: { points: Pt[]; closed: boolean }[] = [];
+  let points: Pt[] = [];
+  let pen = { x: 0, y: 0 };
+  const at = (x: number, y: number) => ({ x: x - offset.x, y: y - offset.y });
+  const end = (closed: boolean) => {
+    if (points.length > 1) runs.push({ points, closed });
+    points = [];
+  };
+
+  path.forEach(([cmd, ...v]: [string, ...number[]]) => {
+    switch (cmd.toUpperCase()) {
+      case "M":
+        end(false);
+        pen = at(v[0], v[1]);
+        points.push(pen);
+        break;
+      case "L":
+        pen = at(v[0], v[1]);
+        points.push(pen);
+        break;
+      case "Q":
+      case "C": {
+        const ctrl = [pen];
+        for (let i = 0; i < v.length; i += 2) ctrl.push(at(v[i], v[i + 1]));
+        for (let step = 1; step <= CURVE_STEPS; step++) {
+          pen = bezier(ctrl, step / CURVE_STEPS);
+          points.push(pen);
+        }
+        break;
+      }
+      case "Z":
+        end(true);
+        break;
+    }
+  });
+  end(false);
+  return runs;
+}
+
+/** Entities for one (non-group) object */
+function shapeEntities(put: Put, layer: string, obj: any, map: ToDxf) {
+  const type = String(obj.type).toLowerCase();
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  const box = () =>
+    polyline(
+      put,
+      layer,
+      [
+        { x: -w / 2, y: -h / 2 },
+        { x: w / 2, y: -h / 2 },
+        { x: w / 2, y: h / 2 },
+        { x: -w / 2, y: h / 2 },
+      ].map(map),
+      true
+    );
+
+  if (type === "rect") {
+    // empty frames (a vector symbol's box) draw nothing
+    if (!obj.fill && !(obj.stroke && obj.strokeWidth > 0)) return;
+    box();
+    return;
+  }
+
+  if (type === "circle") {
+    const centre = map({ x: 0, y: 0 });
+    const r = obj.radius * unitLength(map, { x: 1, y: 0 });
+    put(0, "CIRCLE", 8, layer, 10, centre.x, 20, centre.y, 30, 0, 40, r);
+    return;
+  }
+
+  if (type === "ellipse") {
+    const points: Pt[] = [];
+    for (let i = 0; i < ELLIPSE_STEPS; i++) {
+      const a = (i / ELLIPSE_STEPS) * Math.PI * 2;
+      points.push(map({ x: obj.rx * Math.cos(a), y: obj.ry * Math.sin(a) }));
+    }
+    polyline(put, layer, points, true);
+    return;
+  }
+
+  if (type === "line") {
+    const p = obj.calcLinePoints();
+    const a = map({ x: p.x1, y: p.y1 });
+    const b = map({ x: p.x2, y: p.y2 });
+    put(0, "LINE", 8, layer, 10, a.x, 20, a.y, 30, 0, 11, b.x, 21, b.y, 31, 0);
+    return;
+  }
+
+  if (type === "polyline" || type === "polygon" || isCableRun(obj) || isLeader(obj)) {
+    const off = obj.pathOffset;
+    const points = (obj.points as Pt[]).map((p) => map({ x: p.x - off.x, y: p.y - off.y }));
+    polyline(put, layer, points, type === "polygon");
+    if (isCableRun(obj)) cableLabel(put, layer, obj, map);
+    if (isLeader(obj)) {
+      const head: Pt[] | null = obj.arrowHead();
+      if (head) {
+        const [a, b, c] = head.map(map);
+        put(0, "SOLID", 8, layer, 10, a.x, 20, a.y, 30, 0, 11, b.x, 21, b.y, 31, 0);
+        put(12, c.x, 22, c.y, 32, 0, 13, c.x, 23, c.y, 33, 0);
+      }
+    }
+    return;
+  }
+
+  if (type === "path") {
+    pathPolylines(obj.path, obj.pathOffset).forEach((run) =>
+      polyline(put, layer, run.points.map(map), run.closed)
+    );
+    return;
+  }
+
+  if (typeof obj.text === "string" && obj._textLines) {
+    textLines(put, layer, obj, map);
+    return;
+  }
+
+  // bitmaps (a PNG symbol, a logo) show where they sit
+  if (type === "image") box();
+}
+
+const shown = (obj: any) => obj.visible !== false && !obj.excludeFromExport;
+
+/** Drawable objects inside `obj`, groups opened up */
+function leaves(obj: FabricObject): FabricObject[] {
+  if (!shown(obj)) return [];
+  return obj instanceof Group ? obj.getObjects().flatMap(leaves) : [obj];
+}
+
+const transform = (m: number[]): ToDxf => (p) => fabricUtil.transformPoint(p as any, m as any);
+
+// ---- Blocks ----
+
+type SymbolBlock = {
+  name: string;
+  anchor: SymbolAnchor;
+  /** The placed symbol the block's geometry is taken from */
+  template: FabricObject;
+};
+
+/** Anchor in an object's local (centred) frame */
+const anchorPoint = (obj: FabricObject, anchor: SymbolAnchor) => ({
+  x: (anchor.x - 0.5) * (obj.width ?? 0),
+  y: (anchor.y - 0.5) * (obj.height ?? 0),
+});
+
+/** One block per symbol type placed, drawn from a vector copy where there is one */
+function symbolBlocks(symbols: FabricObject[]): Map<string, SymbolBlock> {
+  const blocks = new Map<string, SymbolBlock>();
+  const names = new Set<string>();
+  symbols.forEach((obj) => {
+    const id = symbolIdOf(obj)!;
+    const block = blocks.get(id);
+    if (block) {
+      if (!(block.template instanceof Group) && obj instanceof Group) block.template = obj;
+      return;
+    }
+    const symbol = getSymbol(id);
+    let name = dxfName(symbol?.name ?? id);
+    for (let n = 2; names.has(name); n++) name = `${dxfName(symbol?.name ?? id).slice(0, 28)}_${n}`;
+    names.add(name);
+    blocks.set(id, { name, anchor: symbol?.anchor ?? { x: 0.5, y: 0.5 }, template: obj });
+  });
+  return blocks;
+}
+
+/** Block geometry in the template's own units, base point on the anchor, y up */
+function blockEntities(put: Put, block: SymbolBlock) {
+  const { template } = block;
+  const base = anchorPoint(template, block.anchor);
+  const toLocal = fabricUtil.invertTransform(template.calcTransformMatrix());
+  leaves(template).forEach((leaf) => {
+    const m = fabricUtil.multiplyTransformMatrices(toLocal, leaf.calcTransformMatrix());
+    const local = transform(m as number[]);
+    shapeEntities(put, "0", leaf, (p) => {
+      const q = local(p);
+      return { x: q.x - base.x, y: -(q.y - base.y) };
+    });
+  });
+}
+
+function insert(put: Put, layer: string, obj: FabricObject, block: SymbolBlock, map: ToDxf) {
+  const origin = map({ x: 0, y: 0 });
+  const ex = sub(map({ x: 1, y: 0 }), origin);
+  // block y is up, which is local -y
+  const ey = sub(map({ x: 0, y: -1 }), origin);
+  const mirrored = ex.x * ey.y - ex.y * ey.x < 0;
+  const { template } = block;
+  const sx = length(ex) * ((obj.width ?? 1) / (template.width || 1));
+  const sy = length(ey) * ((obj.height ?? 1) / (template.height || 1)) * (mirrored ? -1 : 1);
+  const at = map(anchorPoint(obj, block.anchor));
+
+  put(0, "INSERT", 8, layer, 2, block.name, 10, at.x, 20, at.y, 30, 0, 41, sx, 42, sy, 43, 1);
+  const rotation = degrees(ex);
+  if (rotation) put(50, rotation);
+}
+
+// ---- Document ----
+
+function tables(put: Put, layerNames: string[]) {
+  put(0, "SECTION", 2, "TABLES");
+
+  put(0, "TABLE", 2, "LTYPE", 70, 1);
+  put(0, "LTYPE", 2, "CONTINUOUS", 70, 0, 3, "Solid line", 72, 65, 73, 0, 40, 0);
+  put(0, "ENDTAB");
+
+  put(0, "TABLE", 2, "LAYER", 70, layerNames.length);
+  layerNames.forEach((name) => put(0, "LAYER", 2, name, 70, 0, 62, 7, 6, "CONTINUOUS"));
+  put(0, "ENDTAB");
+
+  put(0, "TABLE", 2, "STYLE", 70, 1);
+  put(0, "STYLE", 2, "STANDARD", 70, 0, 40, 0, 41, 1, 50, 0, 71, 0, 42, 2.5, 3, "txt", 4, "");
+  put(0, "ENDTAB");
+
+  put(0, "ENDSEC");
+}
+
+/**
+ * The sheet as a DXF file, or null when it has no page rect. Hidden objects
+ * are left out, so run it inside withPrintedLayers for the printed layers.
+ */
+export function sheetToDxf(canvas: StaticCanvas, layers: Layer[]): string | null {
+  const objects = canvas.getObjects();
+  const page: any = objects.find((o: any) => o?.name === PAGE_NAME);
+  if (!page) return null;
+
+  const bounds = getPageBounds(page);
+  const k = getCalibration(canvas)?.mmPerPx ?? MM_PER_INCH / DPI;
+  const bottom = bounds.top + bounds.height;
+  // world px (y down) to mm from the page's bottom-left corner (y up)
+  const toDxf = (p: Pt) => ({ x: (p.x - bounds.left) * k, y: (bottom - p.y) * k });
+
+  const drawn = objects.filter(
+    (o: any) => o.name !== PAGE_NAME && o.name !== PDF_NAME && shown(o)
+  );
+  const layerName = (obj: FabricObject) => {
+    const id = layerOf(obj, layers);
+    const l = id ? layers.find((x) => x.id === id) : undefined;
+    return l ? dxfName(l.name) : TITLE_BLOCK_LAYER;
+  };
+  const symbols = drawn.filter((o) => !!symbolIdOf(o));
+  const blocks = symbolBlocks(symbols);
+
+  const lines: string[] = [];
+  const put: Put = (...pairs) => {
+    for (let i = 0; i < pairs.length; i += 2) {
+      const value = pairs[i + 1];
+      lines.push(String(pairs[i]).padStart(3), typeof value === "number" ? num(value) : value);
+    }
+  };
+
+  put(0, "SECTION", 2, "HEADER");
+  put(9, "$ACADVER", 1, "AC1009");
+  put(9, "$DWGCODEPAGE", 3, "ANSI_1252");
+  put(9, "$INSBASE", 10, 0, 20, 0, 30, 0);
+  put(9, "$EXTMIN", 10, 0, 20, 0, 30, 0);
+  put(9, "$EXTMAX", 10, bounds.width * k, 20, bounds.height * k, 30, 0);
+  put(9, "$LIMMIN", 10, 0, 20, 0);
+  put(9, "$LIMMAX", 10, bounds.width * k, 20, bounds.height * k);
+  put(0, "ENDSEC");
+
+  const layerNames = Array.from(new Set(["0", ...drawn.map(layerName)]));
+  tables(put, layerNames);
+
+  put(0, "SECTION", 2, "BLOCKS");
+  blocks.forEach((block) => {
+    put(0, "BLOCK", 8, "0", 2, block.name, 70, 0, 10, 0, 20, 0, 30, 0, 3, block.name);
+    blockEntities(put, block);
+    put(0, "ENDBLK", 8, "0");
+  });
+  put(0, "ENDSEC");
+
+  put(0, "SECTION", 2, "ENTITIES");
+  drawn.forEach((obj) => {
+    const layer = layerName(obj);
+    const block = blocks.get(symbolIdOf(obj) ?? "");
+    if (block) {
+      const world = transform(obj.calcTransformMatrix() as number[]);
+      insert(put, layer, obj, block, (p) => toDxf(world(p)));
+      return;
+    }
+    leaves(obj).forEach((leaf) => {
+      const world = transform(leaf.calcTransformMatrix() as number[]);
+      shapeEntities(put, layer, leaf, (p) => toDxf(world(p)));
+    });
+  });
+  put(0, "ENDSEC");
+
+  put(0, "EOF");
+  return lines.join("\n") + "\n";
+}
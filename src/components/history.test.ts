@@ -0,0 +1,85 @@
+import { createHistory } from "./history";
+
+const counter = () => {
+  const state = { value: 0 };
+  const step = (label: string) => ({
+    label,
+    undo: () => {
+      state.value -= 1;
+    },
+    redo: () => {
+      state.value += 1;
+    },
+  });
+  return { state, step };
+};
+
+test("undo and redo walk the stack in order", () => {
+  const { state, step } = counter();
+  const history = createHistory();
+
+  state.value = 2;
+  history.push(step("a"));
+  history.push(step("b"));
+
+  expect(history.undo()?.label).toBe("b");
+  expect(history.undo()?.label).toBe("a");
+  expect(history.undo()).toBeNull();
+  expect(state.value).toBe(0);
+
+  expect(history.redo()?.label).toBe("a");
+  expect(state.value).toBe(1);
+  expect(history.canRedo()).toBe(true);
+});
+
+test("pushing a new entry drops the redo branch", () => {
+  const { step } = counter();
+  const history = createHistory();
+
+  history.push(step("a"));
+  history.undo();
+  history.push(step("b"));
+
+  expect(history.canRedo()).toBe(false);
+  expect(history.undo()?.label).toBe("b");
+});
+
+test("history is capped at the configured limit", () => {
+  const { step } = counter();
+  const history = createHistory(2);
+
+  history.push(step("a"));
+  history.push(step("b"));
+  history.push(step("c"));
+
+  expect(history.undo()?.label).toBe("c");
+  expect(history.undo()?.label).toBe("b");
+  expect(history.canUndo()).toBe(false);
+});
+
+test("clear empties both stacks and notifies", () => {
+  const { step } = counter();
+  const onChange = jest.fn();
+  const history = createHistory(10, onChange);
+
+  history.push(step("a"));
+  history.undo();
+  history.clear();
+
+  expect(history.canUndo()).toBe(false);
+  expect(history.canRedo()).toBe(false);
+  expect(onChange).toHaveBeenCalledTimes(3);
+});
+
+test("entries pushed while applying are ignored", () => {
+  const history = createHistory();
+  history.push({
+    label: "outer",
+    undo: () => history.push({ label: "inner", undo() {}, redo() {} }),
+    redo() {},
+  });
+
+  history.undo();
+  expect(history.canUndo()).toBe(false);
+  expect(history.canRedo()).toBe(true);
+});
@@ -0,0 +1,80 @@
+/**
+ * Bounded undo/redo stack for canvas edits.
+ *
+ * Entries are commands that know how to reverse and re-apply themselves,
+ * so the stack holds object references rather than full canvas snapshots
+ * (the underlay image alone can be several MB of data URL).
+ */
+export type HistoryEntry = {
+  label: string;
+  undo: () => void;
+  redo: () => void;
+};
+
+export type CanvasHistory = {
+  push: (entry: HistoryEntry) => void;
+  undo: () => HistoryEntry | null;
+  redo: () => HistoryEntry | null;
+  clear: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /** True while an entry is being undone/redone, so listeners can skip recording. */
+  isApplying: () => boolean;
+};
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory(
+  limit: number = HISTORY_LIMIT,
+  onChange?: () => void
+): CanvasHistory {
+  let past: HistoryEntry[] = [];
+  let future: HistoryEntry[] = [];
+  let applying = false;
+
+  const notify = () => onChange?.();
+
+  const apply = (entry: HistoryEntry, fn: () => void) => {
+    applying = true;
+    try {
+      fn();
+    } finally {
+      applying = false;
+    }
+    return entry;
+  };
+
+  return {
+    push(entry) {
+      if (applying) return;
+      past.push(entry);
+      if (past.length > limit) past = past.slice(past.length - limit);
+      future = [];
+      notify();
+    },
+    undo() {
+      const entry = past.pop();
+      if (!entry) return null;
+      apply(entry, entry.undo);
+      future.push(entry);
+      notify();
+      return entry;
+    },
+    redo() {
+      const entry = future.pop();
+      if (!entry) return null;
+      apply(entry, entry.redo);
+      past.push(entry);
+      notify();
+      return entry;
+    },
+    clear() {
+      past = [];
+      future = [];
+      notify();
+    },
+    canUndo: () => past.length > 0,
+    canRedo: () => future.length > 0,
+    isApplying: () => applying,
+  };
+}
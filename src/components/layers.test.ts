@@ -0,0 +1,89 @@
+import { Rect } from "fabric";
+import {
+  applyLayers,
+  DEFAULT_LAYERS,
+  GENERAL_LAYER,
+  Layer,
+  layerOf,
+  printedOpacity,
+  sortByLayer,
+  withPrintedLayers,
+} from "./layers";
+import { applyCircuitStyling } from "./circuits";
+import { PAGE_NAME, PDF_NAME } from "./page";
+import { sheetOf } from "./testCanvas";
+import { TITLE_BLOCK_NAME } from "./titleBlock";
+
+const withLayer = (id: string | undefined) => Object.assign(new Rect(), { layer: id });
+
+const set = (id: string, patch: Partial<Layer>) =>
+  DEFAULT_LAYERS.map((l) => (l.id === id ? { ...l, ...patch } : l));
+
+test("objects without a known layer are on General", () => {
+  expect(layerOf({ name: PDF_NAME }, DEFAULT_LAYERS)).toBe("underlay");
+  expect(layerOf({ name: PAGE_NAME }, DEFAULT_LAYERS)).toBeNull();
+  expect(layerOf({ layer: "power" }, DEFAULT_LAYERS)).toBe("power");
+  expect(layerOf({ layer: "deleted" }, DEFAULT_LAYERS)).toBe(GENERAL_LAYER);
+  expect(layerOf({}, DEFAULT_LAYERS)).toBe(GENERAL_LAYER);
+});
+
+test("the stack runs page, layers in order, title block", () => {
+  const objects = [
+    { name: TITLE_BLOCK_NAME },
+    { id: "data", layer: "data" },
+    { id: "power-1", layer: "power" },
+    { name: PDF_NAME },
+    { id: "general" },
+    { id: "power-2", layer: "power" },
+    { name: PAGE_NAME },
+  ];
+  expect(
+    sortByLayer(objects, DEFAULT_LAYERS).map((o: any) => o.name ?? o.id)
+  ).toEqual([PAGE_NAME, PDF_NAME, "general", "power-1", "power-2", "data", TITLE_BLOCK_NAME]);
+});
+
+test("hidden, locked and faded layers", () => {
+  const power = withLayer("power");
+  const data = withLayer("data");
+  const layers = set("power", { visible: false, opacity: 0.5 }).map((l) =>
+    l.id === "data" ? { ...l, locked: true } : l
+  );
+
+  applyLayers(sheetOf(data, power), layers);
+
+  expect(power.visible).toBe(false);
+  expect(power.opacity).toBe(0.5);
+  expect((power as any).layerOpacity).toBe(0.5);
+  expect(data.visible).toBe(true);
+  expect(data.selectable).toBe(false);
+  expect(data.evented).toBe(false);
+});
+
+test("exports show the printed layers and restore the screen", async () => {
+  const power = withLayer("power");
+  const data = withLayer("data");
+  data.visible = false;
+  const layers = set("power", { print: false });
+
+  const during = await withPrintedLayers(sheetOf(power, data), layers, () => [
+    power.visible,
+    data.visible,
+  ]);
+
+  expect(during).toEqual([false, true]);
+  expect(power.visible).toBe(true);
+  expect(data.visible).toBe(false);
+});
+
+test("exports and saves don't keep the circuit highlight's dimming", async () => {
+  const lit = Object.assign(withLayer("power"), { symbolId: "downlight", circuit: "c1" });
+  const other = Object.assign(withLayer("power"), { symbolId: "downlight", circuit: "c2" });
+  const canvas = sheetOf(lit, other);
+  applyCircuitStyling(canvas, [], "c1");
+  expect(other.opacity).toBeCloseTo(0.2);
+
+  const during = await withPrintedLayers(canvas, DEFAULT_LAYERS, () => other.opacity);
+  expect(during).toBe(1);
+  expect(other.opacity).toBeCloseTo(0.2);
+  expect(printedOpacity(lit)).toBe(1);
+});
@@ -0,0 +1,148 @@
+import { FabricObject, StaticCanvas } from "fabric";
+import { PAGE_NAME, PDF_NAME } from "./page";
+import { isTitleBlock } from "./titleBlock";
+
+/**
+ * Drawing layers. The list belongs to the document and is ordered bottom to
+ * top; objects point at a layer through their `layer` id. The underlay layer
+ * holds the PDF and always stays at the bottom.
+ */
+export type Layer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** Locked layers can't be selected or moved */
+  locked: boolean;
+  /** 0–1, applied on screen and in exports */
+  opacity: number;
+  /** Included in PDF, image and print exports */
+  print: boolean;
+};
+
+export const UNDERLAY_LAYER = "underlay";
+/** Where objects without a (known) layer live; can't be deleted */
+export const GENERAL_LAYER = "general";
+
+const layer = (id: string, name: string): Layer => ({
+  id,
+  name,
+  visible: true,
+  locked: false,
+  opacity: 1,
+  print: true,
+});
+
+export const DEFAULT_LAYERS: Layer[] = [
+  layer(UNDERLAY_LAYER, "Underlay"),
+  layer(GENERAL_LAYER, "General"),
+  layer("power", "Power"),
+  layer("lighting", "Lighting"),
+  layer("data", "Data"),
+  layer("fire-alarm", "Fire alarm"),
+];
+
+export const createLayer = (existing: Layer[], id: string): Layer =>
+  layer(id, `Layer ${existing.length}`);
+
+/** Layers that can't be deleted or renamed */
+export const isFixedLayer = (id: string) => id === UNDERLAY_LAYER || id === GENERAL_LAYER;
+
+/**
+ * Layer id an object is drawn on: the PDF is the underlay, the page and
+ * title block sit outside the layer stack (null), and anything else without
+ * a layer of the list is on General.
+ */
+export function layerOf(obj: any, layers: Layer[]): string | null {
+  if (obj?.name === PAGE_NAME || isTitleBlock(obj)) return null;
+  if (obj?.name === PDF_NAME) return UNDERLAY_LAYER;
+  const id = obj?.layer;
+  return id && id !== UNDERLAY_LAYER && layers.some((l) => l.id === id) ? id : GENERAL_LAYER;
+}
+
+/**
+ * Stack position of an object: the page at the bottom, then each layer in
+ * order, then the title block and finally editor-only markers.
+ */
+function stackRank(obj: any, layers: Layer[]): number {
+  if (obj?.name === PAGE_NAME) return -1;
+  if (obj?.excludeFromExport) return layers.length + 1;
+  if (isTitleBlock(obj)) return layers.length;
+  return layers.findIndex((l) => l.id === layerOf(obj, layers));
+}
+
+/** Objects in layer order; the order within a layer is kept */
+export function sortByLayer<T>(objects: T[], layers: Layer[]): T[] {
+  return objects
+    .map((obj, i) => ({ obj, i, rank: stackRank(obj, layers) }))
+    .sort((a, b) => a.rank - b.rank || a.i - b.i)
+    .map((e) => e.obj);
+}
+
+/**
+ * Bring a canvas in line with the layer list: stacking order, visibility,
+ * locking and opacity. Circuit styling multiplies its dimming by the
+ * `layerOpacity` left on each object, so restyle circuits afterwards.
+ */
+export function applyLayers(canvas: StaticCanvas, layers: Layer[]) {
+  sortByLayer(canvas.getObjects(), layers).forEach((obj, i) => canvas.moveObjectTo(obj, i));
+
+  const byId = new Map(layers.map((l) => [l.id, l]));
+  canvas.getObjects().forEach((obj: any) => {
+    const id = layerOf(obj, layers);
+    const l = id ? byId.get(id) : undefined;
+    if (!l || obj.excludeFromExport) return;
+
+    obj.layerOpacity = l.opacity;
+    obj.set({ visible: l.visible, opacity: l.opacity });
+    // the underlay is never editable, whatever its lock says
+    if (id !== UNDERLAY_LAYER) obj.set({ selectable: !l.locked, evented: !l.locked });
+  });
+
+  const active: any = (canvas as any).getActiveObject?.();
+  if (active && (active.visible === false || active.selectable === false)) {
+    (canvas as any).discardActiveObject();
+  }
+  canvas.requestRenderAll();
+}
+
+/** Opacity an object is exported and saved with: the circuit highlight only dims on screen */
+export const printedOpacity = (obj: any): number =>
+  obj.circuitDimmed ? obj.layerOpacity ?? 1 : obj.opacity ?? 1;
+
+/**
+ * Run an export with only the printed layers showing and nothing dimmed by
+ * the circuit highlight, then put the on-screen look back.
+ */
+export async function withPrintedLayers<T>(
+  canvas: StaticCanvas,
+  layers: Layer[],
+  fn: () => Promise<T> | T
+): Promise<T> {
+  const byId = new Map(layers.map((l) => [l.id, l]));
+  const shown = new Map<FabricObject, { visible: boolean; opacity: number }>();
+  canvas.getObjects().forEach((obj: any) => {
+    const id = layerOf(obj, layers);
+    const l = id ? byId.get(id) : undefined;
+    if (!l) return;
+    shown.set(obj, { visible: obj.visible, opacity: obj.opacity });
+    obj.visible = l.print;
+    obj.opacity = printedOpacity(obj);
+  });
+
+  try {
+    return await fn();
+  } finally {
+    shown.forEach(({ visible, opacity }, obj) => {
+      obj.visible = visible;
+      obj.opacity = opacity;
+    });
+  }
+}
+
+/** Put objects on a layer; listeners re-apply the layers on the event. */
+export function assignLayer(canvas: StaticCanvas, objects: any[], layerId: string) {
+  objects.forEach((obj) => {
+    obj.layer = layerId;
+  });
+  canvas.fire("layer:assigned" as any, { layer: layerId } as any);
+}
@@ -0,0 +1,20 @@
+import { countSymbols } from "./legend";
+import { PAGE_NAME, PDF_NAME } from "./page";
+
+test("counts placed symbols by type in catalogue order", () => {
+  const objects = [
+    { name: PAGE_NAME },
+    { name: PDF_NAME, type: "image", getSrc: () => "data:image/png;base64,AAAA" },
+    { symbolId: "downlight" },
+    { symbolId: "socket-twin" },
+    { symbolId: "downlight" },
+    { type: "image", getSrc: () => "http://localhost/images/fork1.png" },
+    { type: "rect" },
+  ];
+
+  expect(countSymbols(objects).map((r) => [r.symbol.id, r.count])).toEqual([
+    ["socket-single", 1],
+    ["socket-twin", 1],
+    ["downlight", 2],
+  ]);
+});
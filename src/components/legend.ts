@@ -0,0 +1,194 @@
+import { Canvas, FabricObject, FabricText, Group, Rect, StaticCanvas } from "fabric";
+import { isPageObject, mmToPx } from "./page";
+import { allSymbols, SymbolDef, symbolIdOf } from "./symbols";
+import { createSymbolObject } from "./symbolObjects";
+
+export const LEGEND_NAME = "LEGEND";
+
+export type SymbolCount = { symbol: SymbolDef; count: number };
+
+/** Count placed symbols by catalogue type, in catalogue order. */
+export function countSymbols(objects: any[]): SymbolCount[] {
+  const counts = new Map<string, number>();
+  objects.forEach((obj) => {
+    if (isPageObject(obj)) return;
+    const id = symbolIdOf(obj);
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  });
+
+  return allSymbols().filter((s) => counts.has(s.id)).map((symbol) => ({
+    symbol,
+    count: counts.get(symbol.id)!,
+  }));
+}
+
+export const isLegend = (obj: any) => obj?.name === LEGEND_NAME;
+
+// Sizes in sheet pixels, derived from printed mm
+const PAD = mmToPx(3);
+const ROW_H = mmToPx(8);
+const ICON = mmToPx(5);
+const FONT = mmToPx(3);
+const TITLE_FONT = mmToPx(4);
+const MIN_W = mmToPx(70);
+
+const topLeft = { originX: "left" as const, originY: "top" as const };
+
+/** Legend contents laid out from (0,0), in sheet pixels. */
+async function buildLegendItems(rows: SymbolCount[]): Promise<FabricObject[]> {
+  const title = new FabricText("LEGEND", {
+    ...topLeft,
+    left: PAD,
+    top: PAD,
+    fontSize: TITLE_FONT,
+    fontWeight: "bold",
+    fontFamily: "Arial",
+    fill: "#111111",
+  });
+
+  const items: FabricObject[] = [title];
+  let y = PAD + TITLE_FONT * 1.6;
+  let textRight = 0;
+  const counts: FabricText[] = [];
+
+  if (rows.length === 0) {
+    const empty = new FabricText("No symbols on this sheet", {
+      ...topLeft,
+      left: PAD,
+      top: y,
+      fontSize: FONT,
+      fontFamily: "Arial",
+      fill: "#666666",
+    });
+    items.push(empty);
+    textRight = PAD + (empty.width ?? 0);
+    y += ROW_H;
+  }
+
+  for (const { symbol, count } of rows) {
+    const icon = await createSymbolObject(symbol.src);
+    icon.scale(ICON / Math.max(icon.width || 1, icon.height || 1));
+    icon.set({ ...topLeft, left: PAD, top: y + (ROW_H - ICON) / 2 });
+
+    const label = new FabricText(symbol.description, {
+      ...topLeft,
+      left: PAD + ICON + PAD,
+      top: y + (ROW_H - FONT) / 2,
+      fontSize: FONT,
+      fontFamily: "Arial",
+      fill: "#111111",
+    });
+    const qty = new FabricText(`× ${count}`, {
+      ...topLeft,
+      top: y + (ROW_H - FONT) / 2,
+      fontSize: FONT,
+      fontWeight: "bold",
+      fontFamily: "Arial",
+      fill: "#111111",
+    });
+
+    textRight = Math.max(textRight, (label.left ?? 0) + (label.width ?? 0));
+    counts.push(qty);
+    items.push(icon, label, qty);
+    y += ROW_H;
+  }
+
+  const width = Math.max(MIN_W, textRight + PAD * 2 + mmToPx(10));
+  counts.forEach((qty) => qty.set({ left: width - PAD - (qty.width ?? 0) }));
+
+  const frame = new Rect({
+    ...topLeft,
+    left: 0,
+    top: 0,
+    width,
+    height: y + PAD,
+    fill: "#ffffff",
+    stroke: "#111111",
+    strokeWidth: 2,
+  });
+
+  return [frame, ...items];
+}
+
+/** Place a new legend with its top-left corner at (left, top). */
+export async function createLegend(canvas: Canvas, left: number, top: number) {
+  const items = await buildLegendItems(countSymbols(canvas.getObjects()));
+  const legend = new Group(items, {
+    ...topLeft,
+    subTargetCheck: false,
+    interactive: false,
+    selectable: true,
+    evented: true,
+    hasBorders: false,
+    hasControls: false,
+  }) as any;
+  legend.set({ left, top });
+  legend.setCoords();
+  legend.name = LEGEND_NAME;
+  return legend as Group;
+}
+
+/** Clip text with an ellipsis so it fits `width` sheet pixels */
+export function fitText(text: FabricText, width: number) {
+  let value = text.text;
+  while (value.length > 1 && (text.width ?? 0) > width) {
+    value = value.slice(0, -1);
+    text.set({ text: `${value.trimEnd()}…` });
+  }
+}
+
+/**
+ * Swap a sheet block's contents (laid out from 0,0) in place, keeping the same
+ * Group instance so undo entries that reference it stay valid.
+ */
+export function refillGroup(canvas: StaticCanvas, group: Group, items: FabricObject[]) {
+  const origin = group.getPointByOrigin("left", "top");
+  group.removeAll();
+  items.forEach((item) =>
+    item.set({ left: (item.left ?? 0) + origin.x, top: (item.top ?? 0) + origin.y })
+  );
+  group.add(...items);
+
+  // the group re-fits its children on add; pin its top-left back in place
+  const after = group.getPointByOrigin("left", "top");
+  group.set({
+    left: (group.left ?? 0) + origin.x - after.x,
+    top: (group.top ?? 0) + origin.y - after.y,
+  });
+  group.setCoords();
+  canvas.requestRenderAll();
+}
+
+/** Rebuild the legend's rows from the symbols currently on the canvas. */
+export async function refreshLegend(canvas: Canvas, legend: Group) {
+  const items = await buildLegendItems(countSymbols(canvas.getObjects()));
+  if (!canvas.getObjects().includes(legend)) return;
+  refillGroup(canvas, legend, items);
+}
+
+/** Keep every legend on the canvas in step with the symbols placed on it. */
+export function attachLegendUpdater(canvas: Canvas) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const schedule = (opt: any) => {
+    // symbols change the counts; a newly placed or loaded legend needs filling
+    if (!opt?.target || isPageObject(opt.target)) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      timer = null;
+      canvas
+        .getObjects()
+        .filter(isLegend)
+        .forEach((legend) => refreshLegend(canvas, legend as Group));
+    }, 0);
+  };
+
+  canvas.on("object:added", schedule);
+  canvas.on("object:removed", schedule);
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    canvas.off("object:added", schedule);
+    canvas.off("object:removed", schedule);
+  };
+}
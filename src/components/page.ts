@@ -0,0 +1,100 @@
+import { Rect } from "fabric";
+
+// Sheets are laid out at 150 world px per printed inch whatever the paper;
+// a sheet's own DPI only sets the resolution of bitmaps (underlay, PNG/JPEG)
+export const DPI = 150;
+export const MM_PER_INCH = 25.4;
+
+export const mmToPx = (mm: number) => (mm / MM_PER_INCH) * DPI;
+
+export type PaperSize = "A4" | "A3" | "A2" | "A1" | "A0";
+export type Orientation = "landscape" | "portrait";
+
+/** Per-sheet paper setting, stored on the page rect */
+export type Paper = {
+  size: PaperSize;
+  orientation: Orientation;
+  /** Output resolution for the underlay bitmap and image exports */
+  dpi: number;
+};
+
+/** ISO A sizes, short side × long side in mm */
+export const PAPER_SIZES: { id: PaperSize; shortMm: number; longMm: number }[] = [
+  { id: "A4", shortMm: 210, longMm: 297 },
+  { id: "A3", shortMm: 297, longMm: 420 },
+  { id: "A2", shortMm: 420, longMm: 594 },
+  { id: "A1", shortMm: 594, longMm: 841 },
+  { id: "A0", shortMm: 841, longMm: 1189 },
+];
+
+export const DPI_CHOICES = [100, 150, 200, 300];
+
+export const DEFAULT_PAPER: Paper = { size: "A3", orientation: "landscape", dpi: DPI };
+
+/** Printed page size in mm */
+export function paperMm(paper: Paper) {
+  const size = PAPER_SIZES.find((p) => p.id === paper.size) ?? PAPER_SIZES[1];
+  return paper.orientation === "landscape"
+    ? { width: size.longMm, height: size.shortMm }
+    : { width: size.shortMm, height: size.longMm };
+}
+
+/** Page size in world px */
+export function paperPx(paper: Paper) {
+  const { width, height } = paperMm(paper);
+  return { width: Math.round(mmToPx(width)), height: Math.round(mmToPx(height)) };
+}
+
+export const paperLabel = (paper: Paper) => `${paper.size} ${paper.orientation}`;
+
+/** Paper of a page rect; sheets saved before paper settings are A3 landscape */
+export function getPagePaper(page: any): Paper {
+  const paper = page?.paper;
+  if (!paper || !PAPER_SIZES.some((p) => p.id === paper.size)) return DEFAULT_PAPER;
+  return {
+    size: paper.size,
+    orientation: paper.orientation === "portrait" ? "portrait" : "landscape",
+    dpi: paper.dpi > 0 ? paper.dpi : DPI,
+  };
+}
+
+export const PAGE_NAME = "A3_PAGE";
+export const PDF_NAME = "PDF_PAGE";
+
+export const CANVAS_BG = "#e9e9e9";
+
+/** True for the page rect and PDF underlay, which are never user-editable. */
+export const isPageObject = (obj: any) =>
+  obj?.name === PAGE_NAME || obj?.name === PDF_NAME;
+
+/** White page rect every sheet is drawn on, with its top-left corner at (0,0) */
+export function createPageRect(paper: Paper = DEFAULT_PAPER) {
+  const { width, height } = paperPx(paper);
+  const pageRect = new Rect({
+    left: 0,
+    top: 0,
+    originX: "left",
+    originY: "top",
+    width,
+    height,
+    fill: "#ffffff",
+    stroke: "#c6c6c6",
+    strokeWidth: 2,
+    selectable: false,
+    evented: false,
+  }) as any;
+  pageRect.name = PAGE_NAME;
+  pageRect.paper = paper;
+  return pageRect;
+}
+
+/**
+ * Page rect bounds in WORLD space. Works from the centre point so documents
+ * saved with Fabric's default centre origin resolve to the same region.
+ */
+export function getPageBounds(page: any) {
+  const c = page.getCenterPoint();
+  const width = (page.width ?? 1) * (page.scaleX ?? 1);
+  const height = (page.height ?? 1) * (page.scaleY ?? 1);
+  return { left: c.x - width / 2, top: c.y - height / 2, width, height };
+}
@@ -0,0 +1,59 @@
+import { FabricImage, Rect } from "fabric";
+import { createPageRect, getPagePaper, PAGE_NAME, paperMm, PDF_NAME } from "./page";
+import { applyPaper, fitInto } from "./paper";
+import { sheetOf } from "./testCanvas";
+
+test("paper sizes follow the orientation", () => {
+  expect(paperMm({ size: "A4", orientation: "portrait", dpi: 150 })).toEqual({
+    width: 210,
+    height: 297,
+  });
+  expect(paperMm({ size: "A1", orientation: "landscape", dpi: 150 })).toEqual({
+    width: 841,
+    height: 594,
+  });
+});
+
+test("page rects without a paper are A3 landscape", () => {
+  expect(getPagePaper({ name: PAGE_NAME })).toEqual({
+    size: "A3",
+    orientation: "landscape",
+    dpi: 150,
+  });
+});
+
+test("fitInto centres the item", () => {
+  expect(fitInto(100, 50, { left: 10, top: 10, width: 200, height: 200 })).toEqual({
+    scale: 2,
+    left: 10,
+    top: 60,
+  });
+});
+
+test("markup follows the underlay onto the new paper", () => {
+  const page = createPageRect();
+  const pdf = new FabricImage(document.createElement("img"), {
+    originX: "left",
+    originY: "top",
+    left: 0,
+    top: 0,
+    width: 1000,
+    height: 500,
+  }) as any;
+  pdf.name = PDF_NAME;
+  pdf.scale(page.width / 1000);
+  const symbol = new Rect({ left: 620, top: 310, width: 20, height: 20 });
+  page.calibration = { mmPerPx: 10, method: "points", refMm: 1000 };
+
+  const oldScale = pdf.scaleX;
+
+  applyPaper(sheetOf(page, pdf, symbol), { size: "A1", orientation: "landscape", dpi: 150 });
+
+  // A3 to A1 roughly doubles both sides
+  const k = pdf.scaleX / oldScale;
+  expect(k).toBeCloseTo(2, 1);
+  expect(page.paper.size).toBe("A1");
+  expect(symbol.getCenterPoint().x).toBeCloseTo(pdf.left + 620 * k, 3);
+  expect(symbol.width).toBe(20);
+  expect(page.calibration.mmPerPx).toBeCloseTo(10 / k, 6);
+});
@@ -0,0 +1,99 @@
+import { Point, StaticCanvas } from "fabric";
+import { isLeader, syncLeaders, syncSymbolLabels } from "./annotations";
+import { getCalibration, setCalibration } from "./calibration";
+import { getWorldPoints, isCableRun, refreshCableRuns, setWorldPoints } from "./cables";
+import {
+  getPageBounds,
+  getPagePaper,
+  isPageObject,
+  PAGE_NAME,
+  Paper,
+  paperPx,
+  PDF_NAME,
+} from "./page";
+import { isTitleBlock } from "./titleBlock";
+
+type Box = { left: number; top: number; width: number; height: number };
+
+const findByName = (canvas: StaticCanvas, name: string): any =>
+  canvas.getObjects().find((o: any) => o?.name === name);
+
+/** Paper of the sheet on a canvas */
+export const getPaper = (canvas: StaticCanvas): Paper =>
+  getPagePaper(findByName(canvas, PAGE_NAME));
+
+/** Scale and top-left corner that fit a w×h item centred inside `box` */
+export function fitInto(width: number, height: number, box: Box) {
+  const scale = Math.min(box.width / (width || 1), box.height / (height || 1));
+  return {
+    scale,
+    left: box.left + (box.width - width * scale) / 2,
+    top: box.top + (box.height - height * scale) / 2,
+  };
+}
+
+/**
+ * Switch a sheet to another paper. The page keeps its top-left corner and
+ * the underlay is refitted to it. Markup follows the underlay so it stays on
+ * the same spot of the plan, at its printed size, and the calibration is
+ * rescaled to match. Fires "sheet:paper".
+ */
+export function applyPaper(canvas: StaticCanvas, paper: Paper) {
+  const page = findByName(canvas, PAGE_NAME);
+  if (!page) return;
+
+  const { left, top } = getPageBounds(page);
+  const { width, height } = paperPx(paper);
+  page.set({
+    originX: "left",
+    originY: "top",
+    left,
+    top,
+    width,
+    height,
+    scaleX: 1,
+    scaleY: 1,
+  });
+  page.paper = paper;
+  page.setCoords();
+
+  const pdf = findByName(canvas, PDF_NAME);
+  if (pdf) {
+    const was = getPageBounds(pdf);
+    const oldScale = pdf.scaleX || 1;
+    const fit = fitInto(pdf.width, pdf.height, { left, top, width, height });
+    pdf.set({
+      originX: "left",
+      originY: "top",
+      left: fit.left,
+      top: fit.top,
+      scaleX: fit.scale,
+      scaleY: fit.scale,
+    });
+    pdf.setCoords();
+
+    const k = fit.scale / oldScale;
+    const move = (p: { x: number; y: number }) =>
+      new Point(fit.left + (p.x - was.left) * k, fit.top + (p.y - was.top) * k);
+
+    canvas.getObjects().forEach((obj: any) => {
+      if (isPageObject(obj) || isTitleBlock(obj)) return;
+      if (isCableRun(obj) || isLeader(obj)) {
+        setWorldPoints(obj, getWorldPoints(obj).map(move));
+      } else {
+        obj.setPositionByOrigin(move(obj.getCenterPoint()), "center", "center");
+        obj.setCoords();
+      }
+    });
+
+    const cal = getCalibration(canvas);
+    if (cal) setCalibration(canvas, { ...cal, mmPerPx: cal.mmPerPx / k });
+  }
+
+  refreshCableRuns(canvas);
+  // labels and leader tails keep their printed distance from what they're on
+  syncSymbolLabels(canvas);
+  syncLeaders(canvas);
+  canvas.fire("sheet:paper" as any, { paper } as any);
+  canvas.requestRenderAll();
+}
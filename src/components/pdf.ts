@@ -0,0 +1,67 @@
+import * as pdfjsLib from "pdfjs-dist";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { hashBytes } from "./docStore";
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = `${process.env.PUBLIC_URL}/pdf.worker.js`;
+
+export type PdfSource = {
+  doc: PDFDocumentProxy;
+  fileName: string;
+  /** Content hash, recorded on underlays placed from this PDF */
+  hash: string;
+};
+
+// Original bytes of PDFs opened this session by content hash, so exports
+// can embed the underlay page itself instead of its rendered bitmap
+const openedPdfBytes = new Map<string, Uint8Array>();
+
+export const getOpenedPdfBytes = (hash: string) => openedPdfBytes.get(hash);
+
+/** Make a PDF kept with a saved document available to exports again */
+export const rememberPdfBytes = (hash: string, data: Uint8Array) =>
+  openedPdfBytes.set(hash, data);
+
+/** Drop the PDFs of the previous document; called whenever one is opened */
+export const forgetOpenedPdfs = () => openedPdfBytes.clear();
+
+export async function openPdf(file: File): Promise<PdfSource> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const hash = await hashBytes(data);
+  openedPdfBytes.set(hash, data);
+  // pdf.js takes ownership of the buffer it is given
+  const doc = await pdfjsLib.getDocument({ data: data.slice() }).promise;
+  return { doc, fileName: file.name, hash };
+}
+
+/**
+ * Render one page (1-based) to a PNG data URL.
+ * `scale` is the pdf.js viewport scale; the underlay picks one from the
+ * sheet's paper and DPI, thumbnails pass `maxWidth` instead so every page
+ * comes out the same width.
+ */
+export async function renderPdfPage(
+  doc: PDFDocumentProxy,
+  pageNumber: number,
+  opts: { scale?: number; maxWidth?: number } = {}
+): Promise<string> {
+  const page = await doc.getPage(pageNumber);
+
+  let scale = opts.scale ?? 2;
+  if (opts.maxWidth) {
+    const base = page.getViewport({ scale: 1 });
+    scale = opts.maxWidth / (base.width || 1);
+  }
+
+  const viewport = page.getViewport({ scale });
+  const pdfCanvas = document.createElement("canvas");
+  const ctx = pdfCanvas.getContext("2d");
+  if (!ctx) throw new Error("No PDF canvas context");
+
+  pdfCanvas.width = viewport.width;
+  pdfCanvas.height = viewport.height;
+  await page
+    .render({ canvasContext: ctx, viewport, canvas: pdfCanvas } as any)
+    .promise;
+
+  return pdfCanvas.toDataURL("image/png");
+}
@@ -0,0 +1,53 @@
+import { Rect } from "fabric";
+import { createSheet, Sheet } from "./document";
+import { createRevision, ensureSymbolUids, nextRevisionCode, revisionRows } from "./revisions";
+import { sheetOf } from "./testCanvas";
+
+const issued = (...codes: string[]) => codes.map((code) => createRevision([], code, "Issue"));
+
+test("revision codes follow on from the latest issue", () => {
+  expect(nextRevisionCode([])).toBe("A");
+  expect(nextRevisionCode(issued("A"))).toBe("B");
+  expect(nextRevisionCode(issued("A", "Z"))).toBe("AA");
+  expect(nextRevisionCode(issued("az"))).toBe("BA");
+  expect(nextRevisionCode(issued("P1"))).toBe("P2");
+  expect(nextRevisionCode(issued("C09"))).toBe("C10");
+  expect(nextRevisionCode(issued("T-"))).toBe("T-1");
+});
+
+test("the revision table lists code, description and date", () => {
+  const rev = createRevision([], " B ", " Sockets added ", "2024-05-01");
+  expect(revisionRows([rev])).toEqual([
+    { code: "B", description: "Sockets added", date: "2024-05-01" },
+  ]);
+});
+
+test("symbols without a uid get one on the canvas and in stored sheets", () => {
+  const live: any = new Rect({ width: 10, height: 10 });
+  live.symbolId = "downlight";
+  const shape = new Rect({ width: 10, height: 10 });
+  const canvas = sheetOf(live, shape);
+
+  const stored: Sheet = {
+    ...createSheet("First"),
+    fabricJson: {
+      objects: [
+        { type: "Rect", name: "A3_PAGE" },
+        { type: "Rect", symbolId: "socket" },
+        { type: "Rect", symbolId: "switch", uid: "kept" },
+      ],
+    },
+  };
+  const untouched = createSheet("Empty");
+
+  const [first, empty] = ensureSymbolUids(canvas, [stored, untouched]);
+
+  expect(live.uid).toBeTruthy();
+  expect((shape as any).uid).toBeUndefined();
+  const [page, socket, sw] = first.fabricJson.objects;
+  expect(page.uid).toBeUndefined();
+  expect(socket.uid).toBeTruthy();
+  expect(sw.uid).toBe("kept");
+  expect(stored.fabricJson.objects[1].uid).toBeUndefined();
+  expect(empty).toBe(untouched);
+});
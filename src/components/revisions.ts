@@ -0,0 +1,92 @@
+import { StaticCanvas } from "fabric";
+import { makeId, Sheet } from "./document";
+import { isPageObject } from "./page";
+import { symbolIdOf } from "./symbols";
+import { RevisionRow } from "./titleBlock";
+
+/**
+ * Issued revisions of a document ("Rev A", "Rev B"…). Each keeps the
+ * drawing as it was issued, so any two can be compared later.
+ */
+export type Revision = {
+  id: string;
+  /** As printed, e.g. "A", "B", "P2" */
+  code: string;
+  description: string;
+  /** yyyy-mm-dd */
+  date: string;
+  /** Every sheet as issued */
+  sheets: Sheet[];
+};
+
+/** Stands for the drawing as it is now when choosing what to compare */
+export const CURRENT_DRAWING = "current";
+
+/** yyyy-mm-dd */
+export const today = () => new Date().toISOString().slice(0, 10);
+
+/** A → B, Z → AA, AZ → BA */
+const nextLetters = (code: string) => {
+  let carried = "";
+  let i = code.length - 1;
+  while (i >= 0 && code[i] === "Z") {
+    carried += "A";
+    i--;
+  }
+  return i < 0
+    ? `A${carried}`
+    : code.slice(0, i) + String.fromCharCode(code.charCodeAt(i) + 1) + carried;
+};
+
+/**
+ * Code following the latest revision: A → B, Z → AA, and for numbered
+ * schemes P1 → P2, C09 → C10. "A" for the first.
+ */
+export function nextRevisionCode(revisions: Revision[]): string {
+  const last = revisions[revisions.length - 1]?.code.trim().toUpperCase();
+  if (!last) return "A";
+
+  const numbered = /^(.*?)(\d+)$/.exec(last);
+  if (numbered) {
+    const [, prefix, digits] = numbered;
+    return prefix + String(Number(digits) + 1).padStart(digits.length, "0");
+  }
+  return /^[A-Z]+$/.test(last) ? nextLetters(last) : `${last}1`;
+}
+
+export function createRevision(
+  sheets: Sheet[],
+  code: string,
+  description: string,
+  date: string = today()
+): Revision {
+  return { id: makeId(), code: code.trim(), description: description.trim(), date, sheets };
+}
+
+export const revisionRows = (revisions: Revision[]): RevisionRow[] =>
+  revisions.map(({ code, description, date }) => ({ code, description, date }));
+
+const needsUid = (obj: any) => !!obj && !obj.uid && !isPageObject(obj) && !!symbolIdOf(obj);
+
+/**
+ * Symbols are matched between revisions by uid; give the ones placed
+ * before uids existed one, on the live canvas and in stored sheets.
+ * Returns the sheets unchanged when nothing needed one.
+ */
+export function ensureSymbolUids(canvas: StaticCanvas, sheets: Sheet[]): Sheet[] {
+  canvas.getObjects().forEach((o: any) => {
+    if (needsUid(o)) o.uid = makeId();
+  });
+
+  return sheets.map((sheet) => {
+    const objects: any[] | undefined = sheet.fabricJson?.objects;
+    if (!objects?.some(needsUid)) return sheet;
+    return {
+      ...sheet,
+      fabricJson: {
+        ...sheet.fabricJson,
+        objects: objects.map((o) => (needsUid(o) ? { ...o, uid: makeId() } : o)),
+      },
+    };
+  });
+}
@@ -0,0 +1,47 @@
+import { buildSchedule, scheduleToCsv } from "./schedule";
+import { PAGE_NAME } from "./page";
+
+const sources = [
+  {
+    sheet: "Ground floor",
+    objects: [
+      { name: PAGE_NAME },
+      { symbolId: "socket-twin", room: "Kitchen", circuit: "3" },
+      { symbolId: "socket-twin", room: "Kitchen", circuit: "3" },
+      { symbolId: "downlight", room: "Kitchen" },
+    ],
+  },
+  {
+    sheet: "First floor",
+    objects: [
+      { symbolId: "socket-twin", room: "Bed 1", circuit: "4" },
+      { type: "Image", src: "http://localhost/images/fork1.png" },
+    ],
+  },
+];
+
+test("groups by symbol, room and circuit in catalogue order", () => {
+  const rows = buildSchedule(sources);
+  expect(rows.map((r) => [r.symbolId, r.room, r.circuit, r.quantity])).toEqual([
+    ["socket-single", "", "", 1],
+    ["socket-twin", "Bed 1", "4", 1],
+    ["socket-twin", "Kitchen", "3", 2],
+    ["downlight", "Kitchen", "", 1],
+  ]);
+  expect(rows[0].sheets).toEqual(["First floor"]);
+});
+
+test("CSV has a BOM, CRLF rows, totals and escaped cells", () => {
+  const rows = buildSchedule([
+    { sheet: "A", objects: [{ symbolId: "downlight", room: '=HYPERLINK("x")' }] },
+  ]);
+  const csv = scheduleToCsv(rows);
+
+  expect(csv.startsWith("\uFEFFCategory,Symbol")).toBe(true);
+  const lines = csv.split("\r\n");
+  expect(lines[1]).toBe(
+    `Lighting,Downlight,Recessed LED downlight,"'=HYPERLINK(""x"")",,A,1`
+  );
+  expect(lines).toContain("Totals");
+  expect(lines).toContain(",Downlight,,,,,1");
+});
@@ -0,0 +1,114 @@
+import { Circuit, circuitLabel } from "./circuits";
+import { isPageObject } from "./page";
+import { allSymbols, getSymbol, SYMBOL_CATEGORIES, symbolIdOf } from "./symbols";
+
+/** Objects of one sheet: live Fabric objects or the `objects` array of its JSON */
+export type ScheduleSource = { sheet: string; objects: any[] };
+
+export type ScheduleRow = {
+  symbolId: string;
+  category: string;
+  name: string;
+  description: string;
+  room: string;
+  circuit: string;
+  sheets: string[];
+  quantity: number;
+};
+
+export type ScheduleTotal = { symbolId: string; name: string; quantity: number };
+
+const tag = (v: unknown) => (typeof v === "string" ? v.trim() : v == null ? "" : String(v));
+
+/**
+ * Quantity table: one row per symbol type / room / circuit combination,
+ * in catalogue order, then by room and circuit. Circuit ids are shown as
+ * the board's circuit labels.
+ */
+export function buildSchedule(sources: ScheduleSource[], circuits: Circuit[] = []): ScheduleRow[] {
+  const rows = new Map<string, ScheduleRow>();
+  const circuitName = (id: string) => {
+    const c = circuits.find((x) => x.id === id);
+    return c ? circuitLabel(c) : id;
+  };
+
+  sources.forEach(({ sheet, objects }) => {
+    objects.forEach((obj) => {
+      if (isPageObject(obj)) return;
+      const symbol = getSymbol(symbolIdOf(obj));
+      if (!symbol) return;
+
+      const room = tag(obj.room);
+      const circuit = circuitName(tag(obj.circuit));
+      const key = [symbol.id, room, circuit].join("\u0000");
+
+      let row = rows.get(key);
+      if (!row) {
+        row = {
+          symbolId: symbol.id,
+          category:
+            SYMBOL_CATEGORIES.find((c) => c.id === symbol.category)?.label ?? symbol.category,
+          name: symbol.name,
+          description: symbol.description,
+          room,
+          circuit,
+          sheets: [],
+          quantity: 0,
+        };
+        rows.set(key, row);
+      }
+      row.quantity += 1;
+      if (!row.sheets.includes(sheet)) row.sheets.push(sheet);
+    });
+  });
+
+  const catalogue = allSymbols();
+  const order = (id: string) => catalogue.findIndex((s) => s.id === id);
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      order(a.symbolId) - order(b.symbolId) ||
+      a.room.localeCompare(b.room) ||
+      a.circuit.localeCompare(b.circuit, undefined, { numeric: true })
+  );
+}
+
+export function scheduleTotals(rows: ScheduleRow[]): ScheduleTotal[] {
+  const totals: ScheduleTotal[] = [];
+  rows.forEach((row) => {
+    const t = totals.find((x) => x.symbolId === row.symbolId);
+    if (t) t.quantity += row.quantity;
+    else totals.push({ symbolId: row.symbolId, name: row.name, quantity: row.quantity });
+  });
+  return totals;
+}
+
+const csvCell = (value: string | number) => {
+  let s = String(value);
+  // stop spreadsheet apps treating user text as a formula
+  if (/^[=+\-@]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+/**
+ * CSV that Excel opens cleanly: UTF-8 BOM, CRLF line ends, quoted cells.
+ * Detail rows first, then totals per symbol type.
+ */
+export function scheduleToCsv(rows: ScheduleRow[]): string {
+  const lines: (string | number)[][] = [
+    ["Category", "Symbol", "Description", "Room", "Circuit", "Sheets", "Quantity"],
+    ...rows.map((r) => [
+      r.category,
+      r.name,
+      r.description,
+      r.room,
+      r.circuit,
+      r.sheets.join("; "),
+      r.quantity,
+    ]),
+    [],
+    ["Totals"],
+    ...scheduleTotals(rows).map((t) => ["", t.name, "", "", "", "", t.quantity]),
+  ];
+
+  return "\uFEFF" + lines.map((line) => line.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,115 @@
+import { DOC_VERSION } from "./document";
+import { DEFAULT_LAYERS } from "./layers";
+import { migrateDoc, parseDoc } from "./schema";
+
+const v1 = (extra: object) => ({
+  version: 1,
+  name: "Old",
+  savedAt: "2024-01-01T00:00:00.000Z",
+  ...extra,
+});
+
+test("legacy single-sheet docs open as one sheet", () => {
+  const fabricJson = { objects: [] };
+  const doc = migrateDoc(
+    v1({ fabricJson, underlay: { fileName: "plan.pdf", page: 2, pageCount: 3 } })
+  );
+
+  expect(doc.version).toBe(DOC_VERSION);
+  expect(doc.sheets).toHaveLength(1);
+  expect(doc.sheets[0].name).toBe("Sheet 1");
+  expect(doc.sheets[0].fabricJson).toBe(fabricJson);
+  expect(doc.sheets[0].underlay?.page).toBe(2);
+  expect(doc.circuits).toEqual([]);
+  expect(doc.layers).toEqual(DEFAULT_LAYERS);
+  expect(doc.revisions).toEqual([]);
+  expect(doc.revisionTable).toBe(false);
+  expect((doc as any).fabricJson).toBeUndefined();
+});
+
+test("multi-sheet docs keep their sheets", () => {
+  const read = parseDoc(
+    v1({
+      sheets: [
+        { id: "a", name: "Ground floor", fabricJson: null },
+        { id: "b", name: "First floor", fabricJson: { objects: [{ type: "Rect" }] } },
+      ],
+    })
+  );
+
+  expect(read.ok && read.doc.sheets.map((s) => s.name)).toEqual(["Ground floor", "First floor"]);
+});
+
+test("files without content are rejected", () => {
+  expect(parseDoc(v1({ sheets: [] })).ok).toBe(false);
+  expect(parseDoc({ sheets: [{ id: "a" }] })).toEqual({
+    ok: false,
+    problems: ["the format version is missing"],
+  });
+  expect(parseDoc("[]").ok).toBe(false);
+});
+
+test("problems name what is wrong and where", () => {
+  const read = parseDoc(
+    v1({
+      sheets: [
+        { id: "a", name: "Ground", fabricJson: { objects: [{ type: "Rect" }, { type: "Bogus" }] } },
+        { id: "a", name: "First", fabricJson: { objects: "none" } },
+      ],
+      circuits: [{ id: "c", number: "1", description: "", colour: "#000", type: "ring" }],
+      layers: [
+        { id: "general", name: "General", visible: true, locked: false, print: true, opacity: 2 },
+      ],
+    })
+  );
+
+  expect(read.ok).toBe(false);
+  expect(!read.ok && read.problems).toEqual([
+    'sheet 1 ("Ground"): object 2 has unknown type "Bogus"',
+    'sheet 2 ("First") repeats the id "a"',
+    'sheet 2 ("First"): objects must be a list',
+    'circuit 1: unknown protective device "undefined"',
+    "circuit 1: rating must be a positive number",
+    "layer 1: opacity must be between 0 and 1",
+    "the underlay must be the bottom layer",
+  ]);
+});
+
+test("the title block logo must be embedded in the file", () => {
+  const doc = migrateDoc(v1({ fabricJson: { objects: [] } }));
+  const withLogo = (logo: string) =>
+    parseDoc({ ...doc, titleBlock: { ...doc.titleBlock, logo } });
+
+  expect(withLogo("data:image/png;base64,iVBORw0KGgo=").ok).toBe(true);
+  const read = withLogo("https://example.com/logo.png");
+  expect(!read.ok && read.problems).toEqual(["title block: logo must be an image data URL"]);
+});
+
+test("issued revisions are checked like sheets", () => {
+  const read = parseDoc({
+    ...migrateDoc(v1({ fabricJson: { objects: [] } })),
+    revisions: [
+      {
+        id: "r1",
+        code: "A",
+        description: "First issue",
+        date: "2024-02-01",
+        sheets: [{ id: "s", name: "Ground", fabricJson: { objects: [{ type: "Bogus" }] } }],
+      },
+      { id: "r2", code: "B", date: "2024-03-01", sheets: [] },
+    ],
+    revisionTable: "yes",
+  });
+
+  expect(!read.ok && read.problems).toEqual([
+    'revision A, sheet 1 ("Ground"): object 1 has unknown type "Bogus"',
+    "revision 2: description must be text",
+    "revision table setting must be true or false",
+  ]);
+});
+
+test("files from a newer version are refused", () => {
+  const read = parseDoc({ ...v1({}), version: DOC_VERSION + 1 });
+  expect(read.ok).toBe(false);
+  expect(!read.ok && read.newer).toBe(true);
+});
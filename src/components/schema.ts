@@ -0,0 +1,270 @@
+import { classRegistry } from "fabric";
+import { CIRCUIT_TYPES, PROTECTIVE_DEVICES } from "./circuits";
+import { DOC_VERSION, makeId, SavedDoc, Sheet, UnderlayRef } from "./document";
+import { DEFAULT_LAYERS, GENERAL_LAYER, UNDERLAY_LAYER } from "./layers";
+import { emptyTitleBlock } from "./titleBlock";
+
+/**
+ * Document file format. Every change to the shape of `SavedDoc` bumps
+ * DOC_VERSION and adds a step to MIGRATIONS, so files from any earlier
+ * version open as the current one. Files are validated after upgrading,
+ * before anything reaches the canvas.
+ */
+
+/** Format 1: early files hold a single canvas rather than sheets */
+export type DocV1 = {
+  version: 1;
+  name: string;
+  savedAt: string;
+  sheets?: Sheet[];
+  circuits?: unknown[];
+  titleBlock?: unknown;
+  layers?: unknown[];
+  fabricJson?: any;
+  underlay?: UnderlayRef;
+};
+
+export type ParsedDoc =
+  | { ok: true; doc: SavedDoc }
+  /** `newer` when the file comes from a later version of the app */
+  | { ok: false; problems: string[]; newer?: boolean };
+
+// ---- Migrations ----
+
+/** v1 → v2: single-canvas files become one sheet; document lists are always present */
+function fromV1(doc: DocV1): any {
+  const { fabricJson, underlay, ...rest } = doc;
+  return {
+    ...rest,
+    sheets:
+      Array.isArray(doc.sheets) && doc.sheets.length > 0
+        ? doc.sheets
+        : [{ id: makeId(), name: "Sheet 1", fabricJson, underlay }],
+    circuits: doc.circuits ?? [],
+    titleBlock: doc.titleBlock ?? emptyTitleBlock(),
+    layers: doc.layers ?? DEFAULT_LAYERS,
+  };
+}
+
+/** v2 → v3: documents carry their issued revisions */
+const fromV2 = (doc: any) => ({ ...doc, revisions: [], revisionTable: false });
+
+/** MIGRATIONS[n] turns a format n document into format n + 1 */
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  1: fromV1,
+  2: fromV2,
+};
+
+/**
+ * Bring a document of any known format up to DOC_VERSION. Stored documents
+ * go through this on load; files from outside go through `parseDoc`.
+ */
+export function migrateDoc(doc: any): SavedDoc {
+  let current = doc;
+  for (let v = current.version; v < DOC_VERSION; v++) {
+    current = { ...MIGRATIONS[v](current), version: v + 1 };
+  }
+  return current;
+}
+
+// ---- Validation ----
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isString = (v: unknown): v is string => typeof v === "string";
+
+const isWhole = (v: unknown, min: number) => Number.isInteger(v) && (v as number) >= min;
+
+function checkObjects(objects: unknown, where: string, problems: string[]) {
+  if (!Array.isArray(objects)) {
+    problems.push(`${where}: objects must be a list`);
+    return;
+  }
+  objects.forEach((o, i) => {
+    if (!isObject(o) || !isString(o.type)) {
+      problems.push(`${where}: object ${i + 1} has no type`);
+    } else if (!classRegistry.has(o.type)) {
+      problems.push(`${where}: object ${i + 1} has unknown type "${o.type}"`);
+    } else if (o.objects !== undefined) {
+      checkObjects(o.objects, `${where}, object ${i + 1}`, problems);
+    }
+  });
+}
+
+function checkSheet(
+  sheet: unknown,
+  i: number,
+  ids: Set<string>,
+  problems: string[],
+  within = ""
+) {
+  const where = `${within}sheet ${i + 1}`;
+  if (!isObject(sheet)) {
+    problems.push(`${where} is not a sheet`);
+    return;
+  }
+  const label = isString(sheet.name) ? `${where} ("${sheet.name}")` : where;
+
+  if (!isString(sheet.id) || !sheet.id) problems.push(`${label} has no id`);
+  else if (ids.has(sheet.id)) problems.push(`${label} repeats the id "${sheet.id}"`);
+  else ids.add(sheet.id);
+  if (!isString(sheet.name)) problems.push(`${label} has no name`);
+
+  if (sheet.fabricJson === undefined) {
+    problems.push(`${label} has no canvas content`);
+  } else if (sheet.fabricJson !== null) {
+    if (!isObject(sheet.fabricJson)) problems.push(`${label}: canvas content is not an object`);
+    else checkObjects(sheet.fabricJson.objects, label, problems);
+  }
+
+  const u = sheet.underlay;
+  if (u === undefined) return;
+  if (
+    !isObject(u) ||
+    !isString(u.fileName) ||
+    !isWhole(u.page, 1) ||
+    !isWhole(u.pageCount, u.page) ||
+    (u.pdfAsset !== undefined && !isString(u.pdfAsset))
+  ) {
+    problems.push(`${label}: underlay details are invalid`);
+  }
+}
+
+function checkCircuit(c: unknown, i: number, problems: string[]) {
+  const where = `circuit ${i + 1}`;
+  if (!isObject(c)) {
+    problems.push(`${where} is not a circuit`);
+    return;
+  }
+  (["id", "number", "description", "colour"] as const).forEach((key) => {
+    if (!isString(c[key])) problems.push(`${where}: ${key} must be text`);
+  });
+  if (!CIRCUIT_TYPES.some((t) => t.id === c.type)) {
+    problems.push(`${where}: unknown circuit type "${c.type}"`);
+  }
+  if (!PROTECTIVE_DEVICES.some((d) => d.id === c.device)) {
+    problems.push(`${where}: unknown protective device "${c.device}"`);
+  }
+  if (typeof c.ratingA !== "number" || !(c.ratingA > 0)) {
+    problems.push(`${where}: rating must be a positive number`);
+  }
+}
+
+function checkLayers(layers: unknown, problems: string[]) {
+  if (!Array.isArray(layers)) {
+    problems.push("layers must be a list");
+    return;
+  }
+  const ids = new Set<string>();
+  layers.forEach((l, i) => {
+    const where = `layer ${i + 1}`;
+    if (!isObject(l) || !isString(l.id) || !isString(l.name)) {
+      problems.push(`${where} needs an id and a name`);
+      return;
+    }
+    if (ids.has(l.id)) problems.push(`${where} repeats the id "${l.id}"`);
+    ids.add(l.id);
+    (["visible", "locked", "print"] as const).forEach((key) => {
+      if (typeof l[key] !== "boolean") problems.push(`${where}: ${key} must be true or false`);
+    });
+    if (typeof l.opacity !== "number" || l.opacity < 0 || l.opacity > 1) {
+      problems.push(`${where}: opacity must be between 0 and 1`);
+    }
+  });
+  if (layers[0]?.id !== UNDERLAY_LAYER) problems.push("the underlay must be the bottom layer");
+  if (!ids.has(GENERAL_LAYER)) problems.push("the General layer is missing");
+}
+
+function checkRevisions(revisions: unknown, problems: string[]) {
+  if (!Array.isArray(revisions)) {
+    problems.push("revisions must be a list");
+    return;
+  }
+  revisions.forEach((r, i) => {
+    const where = `revision ${i + 1}`;
+    if (!isObject(r)) {
+      problems.push(`${where} is not a revision`);
+      return;
+    }
+    (["id", "code", "description", "date"] as const).forEach((key) => {
+      if (!isString(r[key])) problems.push(`${where}: ${key} must be text`);
+    });
+    if (!Array.isArray(r.sheets)) {
+      problems.push(`${where}: sheets must be a list`);
+      return;
+    }
+    const ids = new Set<string>();
+    r.sheets.forEach((s: unknown, j: number) =>
+      checkSheet(s, j, ids, problems, `revision ${isString(r.code) ? r.code : i + 1}, `)
+    );
+  });
+}
+
+/** Everything wrong with a current-format document; empty when it's fine */
+export function validateDoc(doc: any): string[] {
+  const problems: string[] = [];
+  if (!isString(doc.name)) problems.push("name must be text");
+  if (!isString(doc.savedAt) || Number.isNaN(Date.parse(doc.savedAt))) {
+    problems.push("save date is missing or invalid");
+  }
+
+  if (!Array.isArray(doc.sheets) || doc.sheets.length === 0) {
+    problems.push("there are no sheets");
+  } else {
+    const ids = new Set<string>();
+    doc.sheets.forEach((s: unknown, i: number) => checkSheet(s, i, ids, problems));
+  }
+
+  if (!Array.isArray(doc.circuits)) problems.push("circuits must be a list");
+  else doc.circuits.forEach((c: unknown, i: number) => checkCircuit(c, i, problems));
+
+  if (!isObject(doc.titleBlock)) {
+    problems.push("title block is missing");
+  } else {
+    Object.keys(emptyTitleBlock()).forEach((key) => {
+      if (!isString(doc.titleBlock[key])) problems.push(`title block: ${key} must be text`);
+    });
+    const { logo } = doc.titleBlock;
+    if (logo !== undefined && !(isString(logo) && logo.startsWith("data:image/"))) {
+      problems.push("title block: logo must be an image data URL");
+    }
+  }
+
+  checkLayers(doc.layers, problems);
+  checkRevisions(doc.revisions, problems);
+  if (typeof doc.revisionTable !== "boolean") {
+    problems.push("revision table setting must be true or false");
+  }
+  return problems;
+}
+
+/**
+ * Read a document from outside the app (an imported file): check its
+ * version, upgrade it and validate the result.
+ */
+export function parseDoc(value: unknown): ParsedDoc {
+  if (!isObject(value)) return { ok: false, problems: ["it isn't a document"] };
+
+  const { version } = value;
+  if (!isWhole(version, 1)) {
+    return { ok: false, problems: ["the format version is missing"] };
+  }
+  if (version > DOC_VERSION) {
+    return {
+      ok: false,
+      newer: true,
+      problems: [`it uses format ${version}; this version of the app reads up to ${DOC_VERSION}`],
+    };
+  }
+
+  let doc: SavedDoc;
+  try {
+    doc = migrateDoc(value);
+  } catch (e) {
+    console.error(e);
+    return { ok: false, problems: [`it couldn't be upgraded from format ${version}`] };
+  }
+  const problems = validateDoc(doc);
+  return problems.length > 0 ? { ok: false, problems } : { ok: true, doc };
+}
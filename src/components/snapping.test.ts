@@ -0,0 +1,39 @@
+import { alignToBoxes, DEFAULT_GRID, gridPitchPx, snapToGrid } from "./snapping";
+import { mmToPx } from "./page";
+
+test("grid pitch is real mm once calibrated", () => {
+  expect(gridPitchPx(DEFAULT_GRID, null)).toBeCloseTo(mmToPx(5));
+  expect(gridPitchPx(DEFAULT_GRID, { mmPerPx: 10, method: "scale", scale: 50 })).toBe(50);
+});
+
+test("values snap to the nearest grid line from the origin", () => {
+  expect(snapToGrid(26, 10)).toBe(30);
+  expect(snapToGrid(24, 10)).toBe(20);
+  expect(snapToGrid(26, 10, 3)).toBe(23);
+});
+
+test("boxes line up by edge or centre within the tolerance", () => {
+  const other = { left: 100, top: 0, width: 20, height: 20 };
+  // centre 113 vs 110, top 204 is far from anything
+  const { dx, dy, guides } = alignToBoxes(
+    { left: 103, top: 204, width: 20, height: 20 },
+    [other],
+    5
+  );
+
+  expect(dx).toBe(-3);
+  expect(dy).toBeNull();
+  expect(guides).toHaveLength(3);
+  expect(guides[0]).toEqual({ axis: "x", at: 100, from: 0, to: 224 });
+});
+
+test("nothing snaps outside the tolerance", () => {
+  const { dx, dy, guides } = alignToBoxes(
+    { left: 200, top: 200, width: 10, height: 10 },
+    [{ left: 0, top: 0, width: 10, height: 10 }],
+    5
+  );
+  expect(dx).toBeNull();
+  expect(dy).toBeNull();
+  expect(guides).toEqual([]);
+});
@@ -0,0 +1,221 @@
+import { FabricObject, StaticCanvas, TMat2D } from "fabric";
+import { isLeader, isSymbolLabel } from "./annotations";
+import { Calibration, mmToWorldPx } from "./calibration";
+import { isCableRun } from "./cables";
+import { getPageBounds, isPageObject, mmToPx, PAGE_NAME } from "./page";
+import { isTitleBlock } from "./titleBlock";
+
+/** Grid and snapping preferences; editor-wide, not saved with the document */
+export type GridSettings = {
+  visible: boolean;
+  /** Snap dragged and dropped symbols to the grid */
+  snap: boolean;
+  /** Snap to the edges and centres of other symbols */
+  objectSnap: boolean;
+  /** Grid pitch on uncalibrated sheets, in printed mm */
+  paperMm: number;
+  /** Grid pitch on calibrated sheets, in real mm */
+  realMm: number;
+};
+
+export const DEFAULT_GRID: GridSettings = {
+  visible: false,
+  snap: true,
+  objectSnap: true,
+  paperMm: 5,
+  realMm: 500,
+};
+
+/** Grid pitch in world px: real mm on a calibrated sheet, paper mm otherwise */
+export function gridPitchPx(grid: GridSettings, cal: Calibration | null): number {
+  const pitch = cal ? mmToWorldPx(grid.realMm, cal) : mmToPx(grid.paperMm);
+  return pitch > 0 && Number.isFinite(pitch) ? pitch : mmToPx(DEFAULT_GRID.paperMm);
+}
+
+/** Nearest grid line to `value` for a grid starting at `origin` */
+export const snapToGrid = (value: number, pitch: number, origin = 0) =>
+  origin + Math.round((value - origin) / pitch) * pitch;
+
+type Box = { left: number; top: number; width: number; height: number };
+
+/** Alignment line shown while dragging: vertical for "x", horizontal for "y" */
+export type Guide = { axis: "x" | "y"; at: number; from: number; to: number };
+
+const xLines = (b: Box) => [b.left, b.left + b.width / 2, b.left + b.width];
+const yLines = (b: Box) => [b.top, b.top + b.height / 2, b.top + b.height];
+
+/** Smallest shift (within `tolerance`) that puts one of `mine` on one of `theirs` */
+function nearestShift(
+  mine: number[],
+  theirs: number[][],
+  tolerance: number
+): number | null {
+  let best: number | null = null;
+  theirs.forEach((lines) =>
+    lines.forEach((t) =>
+      mine.forEach((m) => {
+        const d = t - m;
+        if (Math.abs(d) <= tolerance && (best === null || Math.abs(d) < Math.abs(best))) {
+          best = d;
+        }
+      })
+    )
+  );
+  return best;
+}
+
+/**
+ * Shift that lines up an edge or the centre of `box` with those of `others`,
+ * per axis (null where nothing is within `tolerance`), and the guides to draw
+ * for the aligned position.
+ */
+export function alignToBoxes(box: Box, others: Box[], tolerance: number) {
+  const dx = nearestShift(xLines(box), others.map(xLines), tolerance);
+  const dy = nearestShift(yLines(box), others.map(yLines), tolerance);
+
+  const moved = { ...box, left: box.left + (dx ?? 0), top: box.top + (dy ?? 0) };
+  const guides: Guide[] = [];
+  const near = (a: number, b: number) => Math.abs(a - b) < 0.5;
+
+  if (dx !== null) {
+    xLines(moved).forEach((x) => {
+      const hits = others.filter((o) => xLines(o).some((ox) => near(ox, x)));
+      if (hits.length === 0) return;
+      const spans = [moved, ...hits];
+      guides.push({
+        axis: "x",
+        at: x,
+        from: Math.min(...spans.map((b) => b.top)),
+        to: Math.max(...spans.map((b) => b.top + b.height)),
+      });
+    });
+  }
+  if (dy !== null) {
+    yLines(moved).forEach((y) => {
+      const hits = others.filter((o) => yLines(o).some((oy) => near(oy, y)));
+      if (hits.length === 0) return;
+      const spans = [moved, ...hits];
+      guides.push({
+        axis: "y",
+        at: y,
+        from: Math.min(...spans.map((b) => b.left)),
+        to: Math.max(...spans.map((b) => b.left + b.width)),
+      });
+    });
+  }
+
+  return { dx, dy, guides };
+}
+
+/** Objects a dragged symbol can line up with */
+const isSnapCandidate = (obj: any) =>
+  !!obj &&
+  obj.visible !== false &&
+  !obj.excludeFromExport &&
+  !isPageObject(obj) &&
+  !isTitleBlock(obj) &&
+  !isCableRun(obj) &&
+  !isLeader(obj) &&
+  !isSymbolLabel(obj);
+
+export type SnapOptions = {
+  grid: GridSettings;
+  pitch: number;
+  /** World px within which object snapping kicks in */
+  tolerance: number;
+};
+
+/**
+ * Snap a dragged object (or active selection) in place: to other objects
+ * first, then to the grid on any axis that didn't line up. Returns the
+ * guides to draw.
+ */
+export function snapMovingObject(
+  canvas: StaticCanvas,
+  target: FabricObject,
+  { grid, pitch, tolerance }: SnapOptions
+): Guide[] {
+  target.setCoords();
+  const moving = new Set<FabricObject>([target, ...((target as any).getObjects?.() ?? [])]);
+
+  let align: ReturnType<typeof alignToBoxes> = { dx: null, dy: null, guides: [] };
+  if (grid.objectSnap) {
+    const others = canvas
+      .getObjects()
+      .filter((o) => !moving.has(o) && isSnapCandidate(o))
+      .map((o) => o.getBoundingRect());
+    align = alignToBoxes(target.getBoundingRect(), others, tolerance);
+  }
+
+  let { dx, dy } = align;
+  if (grid.snap) {
+    const page: any = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+    const origin = page ? getPageBounds(page) : { left: 0, top: 0 };
+    const left = target.left ?? 0;
+    const top = target.top ?? 0;
+    if (dx === null) dx = snapToGrid(left, pitch, origin.left) - left;
+    if (dy === null) dy = snapToGrid(top, pitch, origin.top) - top;
+  }
+
+  if (dx || dy) {
+    target.set({ left: (target.left ?? 0) + (dx ?? 0), top: (target.top ?? 0) + (dy ?? 0) });
+    target.setCoords();
+  }
+  return align.guides;
+}
+
+const GRID_COLOUR = "rgba(61, 90, 128, 0.18)";
+const GUIDE_COLOUR = "#e5398b";
+// Grid lines closer than this on screen are thinned out
+const MIN_GRID_SCREEN_PX = 8;
+
+/** Draw the grid over the page; only ever called for the on-screen canvas. */
+export function drawGrid(
+  ctx: CanvasRenderingContext2D,
+  vpt: TMat2D,
+  page: Box,
+  pitch: number
+) {
+  const zoom = vpt[0];
+  let step = pitch;
+  while (step * zoom < MIN_GRID_SCREEN_PX) step *= 2;
+
+  ctx.save();
+  ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+  ctx.strokeStyle = GRID_COLOUR;
+  ctx.lineWidth = 1 / zoom;
+  ctx.beginPath();
+  for (let x = page.left; x <= page.left + page.width; x += step) {
+    ctx.moveTo(x, page.top);
+    ctx.lineTo(x, page.top + page.height);
+  }
+  for (let y = page.top; y <= page.top + page.height; y += step) {
+    ctx.moveTo(page.left, y);
+    ctx.lineTo(page.left + page.width, y);
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+export function drawGuides(ctx: CanvasRenderingContext2D, vpt: TMat2D, guides: Guide[]) {
+  if (guides.length === 0) return;
+  const zoom = vpt[0];
+
+  ctx.save();
+  ctx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5]);
+  ctx.strokeStyle = GUIDE_COLOUR;
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([4 / zoom, 3 / zoom]);
+  ctx.beginPath();
+  guides.forEach((g) => {
+    if (g.axis === "x") {
+      ctx.moveTo(g.at, g.from);
+      ctx.lineTo(g.at, g.to);
+    } else {
+      ctx.moveTo(g.from, g.at);
+      ctx.lineTo(g.to, g.at);
+    }
+  });
+  ctx.stroke();
+  ctx.restore();
+}
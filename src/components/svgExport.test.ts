@@ -0,0 +1,63 @@
+import { createPageRect, getPageBounds } from "./page";
+import { inlineImages, pageToSvg } from "./svgExport";
+import { sheetOf } from "./testCanvas";
+
+test("linked images are embedded, data URLs are left alone", async () => {
+  const svg =
+    '<image xlink:href="/images/fork1.png"></image>' +
+    '<image xlink:href="data:image/png;base64,AAAA"></image>' +
+    '<image xlink:href="/missing.png"></image>';
+  const fetched: string[] = [];
+  const out = await inlineImages(svg, async (url) => {
+    fetched.push(url);
+    if (url === "/missing.png") throw new Error("404");
+    return "data:image/png;base64,BBBB";
+  });
+
+  expect(fetched).toEqual(["/images/fork1.png", "/missing.png"]);
+  expect(out).toBe(
+    '<image xlink:href="data:image/png;base64,BBBB"></image>' +
+      '<image xlink:href="data:image/png;base64,AAAA"></image>' +
+      '<image xlink:href="/missing.png"></image>'
+  );
+});
+
+test("the page region is exported at paper size without hidden objects", async () => {
+  const page = createPageRect({ size: "A4", orientation: "portrait", dpi: 150 });
+  const shown: any = { visible: true };
+  const hidden: any = { visible: false };
+  let during: any = null;
+  // toSVG records what it would draw
+  const canvas: any = Object.assign(sheetOf(page, shown, hidden), {
+    backgroundColor: "#e9e9e9",
+    toSVG: (options: any) => {
+      during = {
+        options,
+        background: canvas.backgroundColor,
+        outline: page.stroke,
+        excluded: [shown.excludeFromExport, hidden.excludeFromExport],
+      };
+      return "<svg></svg>";
+    },
+  });
+
+  expect(await pageToSvg(canvas)).toBe("<svg></svg>");
+  const { left, top, width, height } = getPageBounds(page);
+  expect(during.options).toEqual({
+    viewBox: { x: left, y: top, width, height },
+    width: "210mm",
+    height: "297mm",
+  });
+  expect(during.background).toBe("");
+  expect(during.outline).toBeNull();
+  expect(during.excluded).toEqual([undefined, true]);
+
+  // the canvas is put back as it was
+  expect(canvas.backgroundColor).toBe("#e9e9e9");
+  expect(page.stroke).toBe("#c6c6c6");
+  expect(hidden.excludeFromExport).toBeUndefined();
+});
+
+test("sheets without a page have nothing to export", async () => {
+  expect(await pageToSvg(sheetOf())).toBeNull();
+});
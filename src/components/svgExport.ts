@@ -0,0 +1,89 @@
+import { StaticCanvas } from "fabric";
+import { getPageBounds, getPagePaper, PAGE_NAME, paperMm } from "./page";
+
+/**
+ * SVG export of a sheet's page region. The file is sized in mm so it prints
+ * at scale; symbols and linework stay vectors, and bitmaps (the underlay,
+ * PNG symbols) are embedded so the file stands on its own.
+ */
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function fetchDataUrl(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Couldn't fetch ${url} (${response.status})`);
+  return blobToDataUrl(await response.blob());
+}
+
+const HREF = /xlink:href="([^"]*)"/g;
+
+/** Replace image links that point outside the file with data URLs */
+export async function inlineImages(
+  svg: string,
+  toDataUrl: (url: string) => Promise<string> = fetchDataUrl
+): Promise<string> {
+  const urls = new Set<string>();
+  svg.replace(HREF, (match, url: string) => {
+    if (url && !url.startsWith("data:") && !url.startsWith("#")) urls.add(url);
+    return match;
+  });
+
+  const inlined = new Map<string, string>();
+  for (const url of Array.from(urls)) {
+    try {
+      inlined.set(url, await toDataUrl(url.replace(/&amp;/g, "&")));
+    } catch (err) {
+      console.warn("Leaving a linked image in the SVG:", url, err);
+    }
+  }
+  return svg.replace(HREF, (match, url: string) =>
+    inlined.has(url) ? `xlink:href="${inlined.get(url)}"` : match
+  );
+}
+
+/**
+ * The page as an SVG document, or null when the sheet has no page rect.
+ * Hidden objects are left out and the paper is plain white, as in the PDF.
+ */
+export async function pageToSvg(canvas: StaticCanvas): Promise<string | null> {
+  const page: any = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+  if (!page) return null;
+
+  const { left, top, width, height } = getPageBounds(page);
+  const mm = paperMm(getPagePaper(page));
+
+  const excluded = new Map<any, boolean>();
+  canvas.getObjects().forEach((obj: any) => {
+    if (obj.visible) return;
+    excluded.set(obj, obj.excludeFromExport);
+    obj.excludeFromExport = true;
+  });
+  // the grey around the page and its outline are only on-screen
+  const background = canvas.backgroundColor;
+  const outline = page.stroke;
+  canvas.backgroundColor = "";
+  page.stroke = null;
+
+  let svg: string;
+  try {
+    svg = canvas.toSVG({
+      viewBox: { x: left, y: top, width, height },
+      width: `${mm.width}mm`,
+      height: `${mm.height}mm`,
+    });
+  } finally {
+    canvas.backgroundColor = background;
+    page.stroke = outline;
+    excluded.forEach((value, obj) => {
+      obj.excludeFromExport = value;
+    });
+  }
+  return inlineImages(svg);
+}
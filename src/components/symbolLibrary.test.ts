@@ -0,0 +1,76 @@
+import {
+  checkSymbolFile,
+  createUserSymbol,
+  isUserSymbol,
+  libraryFile,
+  mergeSymbols,
+  parseSymbolLibrary,
+} from "./symbolLibrary";
+import { getSymbol, setUserSymbols, SYMBOLS } from "./symbols";
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+
+const evCharger = () =>
+  createUserSymbol({
+    name: " EV charger ",
+    category: "power",
+    description: "7 kW wall charger",
+    src: PNG,
+    sizeMm: 9,
+    anchor: { x: 0.5, y: 1 },
+  });
+
+afterEach(() => setUserSymbols([]));
+
+test("uploaded symbols join the catalogue", () => {
+  const symbol = evCharger();
+  expect(isUserSymbol(symbol)).toBe(true);
+  expect(symbol.name).toBe("EV charger");
+  expect(SYMBOLS.some(isUserSymbol)).toBe(false);
+
+  expect(getSymbol(symbol.id)).toBeUndefined();
+  setUserSymbols([symbol]);
+  expect(getSymbol(symbol.id)).toBe(symbol);
+});
+
+test("only small PNG and SVG files are accepted", () => {
+  expect(checkSymbolFile({ type: "image/svg+xml", size: 2000 })).toBeNull();
+  expect(checkSymbolFile({ type: "image/jpeg", size: 2000 })).toMatch(/PNG or SVG/);
+  expect(checkSymbolFile({ type: "image/png", size: 1024 * 1024 })).toMatch(/256 KB/);
+});
+
+test("a library file reads back as the same symbols", () => {
+  const symbols = [evCharger(), { ...evCharger(), name: "CCTV", category: "fire-security" as const }];
+  const read = parseSymbolLibrary(JSON.parse(JSON.stringify(libraryFile(symbols))));
+  expect(read).toEqual({ ok: true, symbols });
+});
+
+test("library files with broken symbols are refused", () => {
+  const good = evCharger();
+  const read = parseSymbolLibrary({
+    ...libraryFile([good]),
+    symbols: [
+      good,
+      { ...good, name: "Copy" },
+      { ...good, id: "socket-single", src: "/images/fork1.png", sizeMm: 0, category: "hvac" },
+    ],
+  });
+
+  expect(!read.ok && read.problems).toEqual([
+    `symbol 2 ("Copy") repeats the id "${good.id}"`,
+    'symbol 3 ("EV charger") has no library id',
+    'symbol 3 ("EV charger"): unknown category "hvac"',
+    'symbol 3 ("EV charger"): image must be an embedded PNG or SVG',
+    'symbol 3 ("EV charger"): size must be a positive number of mm',
+  ]);
+  expect(parseSymbolLibrary({ symbols: [] })).toEqual({
+    ok: false,
+    problems: ["it isn't a symbol library"],
+  });
+});
+
+test("importing replaces symbols with the same id and adds the rest", () => {
+  const [a, b, c] = [evCharger(), evCharger(), evCharger()];
+  const renamed = { ...b, name: "Renamed" };
+  expect(mergeSymbols([a, b], [renamed, c])).toEqual([a, renamed, c]);
+});
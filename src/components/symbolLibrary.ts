@@ -0,0 +1,150 @@
+import { makeId } from "./document";
+import { SYMBOL_CATEGORIES, SymbolAnchor, SymbolCategory, SymbolDef } from "./symbols";
+
+/**
+ * The user's own symbols: uploaded PNG or SVG images kept in browser
+ * storage next to saved documents, and shared between machines as a
+ * library file. They join the catalogue through `setUserSymbols`.
+ */
+
+export const USER_SYMBOL_PREFIX = "user-";
+
+export const isUserSymbol = (symbol: SymbolDef) => symbol.id.startsWith(USER_SYMBOL_PREFIX);
+
+export const SYMBOL_FILE_TYPES = ["image/png", "image/svg+xml"];
+
+// symbols are embedded in every document that uses them
+export const MAX_SYMBOL_BYTES = 256 * 1024;
+
+export const ANCHOR_PRESETS: { id: string; label: string; anchor: SymbolAnchor }[] = [
+  { id: "centre", label: "Centre", anchor: { x: 0.5, y: 0.5 } },
+  { id: "bottom", label: "Bottom middle (on a wall)", anchor: { x: 0.5, y: 1 } },
+  { id: "top", label: "Top middle", anchor: { x: 0.5, y: 0 } },
+  { id: "left", label: "Left middle", anchor: { x: 0, y: 0.5 } },
+  { id: "right", label: "Right middle", anchor: { x: 1, y: 0.5 } },
+];
+
+export type SymbolDraft = {
+  name: string;
+  category: SymbolCategory;
+  description: string;
+  src: string;
+  sizeMm: number;
+  anchor: SymbolAnchor;
+};
+
+export function createUserSymbol(draft: SymbolDraft): SymbolDef {
+  return {
+    ...draft,
+    id: USER_SYMBOL_PREFIX + makeId(),
+    name: draft.name.trim(),
+    description: draft.description.trim(),
+  };
+}
+
+/** Problem with an uploaded image, or null when it can be used */
+export function checkSymbolFile(file: { type: string; size: number }): string | null {
+  if (!SYMBOL_FILE_TYPES.includes(file.type)) return "Symbols must be PNG or SVG images.";
+  if (file.size > MAX_SYMBOL_BYTES) return "Symbol images must be under 256 KB.";
+  return null;
+}
+
+/** Library entries with these ids replaced and the rest added at the end */
+export function mergeSymbols(library: SymbolDef[], incoming: SymbolDef[]): SymbolDef[] {
+  const byId = new Map(incoming.map((s) => [s.id, s]));
+  const kept = library.map((s) => byId.get(s.id) ?? s);
+  const known = new Set(library.map((s) => s.id));
+  return [...kept, ...incoming.filter((s) => !known.has(s.id))];
+}
+
+// ---- Library file ----
+
+const LIBRARY_KIND = "rjded-symbol-library";
+const LIBRARY_VERSION = 1;
+
+export type SymbolLibraryFile = {
+  kind: typeof LIBRARY_KIND;
+  version: typeof LIBRARY_VERSION;
+  exportedAt: string;
+  symbols: SymbolDef[];
+};
+
+export type ParsedLibrary =
+  | { ok: true; symbols: SymbolDef[] }
+  | { ok: false; problems: string[] };
+
+export const libraryFile = (symbols: SymbolDef[]): SymbolLibraryFile => ({
+  kind: LIBRARY_KIND,
+  version: LIBRARY_VERSION,
+  exportedAt: new Date().toISOString(),
+  symbols,
+});
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const isFraction = (v: unknown) => typeof v === "number" && v >= 0 && v <= 1;
+
+function checkSymbol(s: unknown, i: number, ids: Set<string>, problems: string[]) {
+  const where = `symbol ${i + 1}`;
+  if (!isObject(s)) {
+    problems.push(`${where} is not a symbol`);
+    return;
+  }
+  const label = typeof s.name === "string" && s.name ? `${where} ("${s.name}")` : where;
+
+  if (typeof s.id !== "string" || !s.id.startsWith(USER_SYMBOL_PREFIX)) {
+    problems.push(`${label} has no library id`);
+  } else if (ids.has(s.id)) {
+    problems.push(`${label} repeats the id "${s.id}"`);
+  } else {
+    ids.add(s.id);
+  }
+  if (typeof s.name !== "string" || !s.name.trim()) problems.push(`${label} has no name`);
+  if (typeof s.description !== "string") problems.push(`${label}: description must be text`);
+  if (!SYMBOL_CATEGORIES.some((c) => c.id === s.category)) {
+    problems.push(`${label}: unknown category "${s.category}"`);
+  }
+  if (
+    typeof s.src !== "string" ||
+    !SYMBOL_FILE_TYPES.some((type) => s.src.startsWith(`data:${type}`))
+  ) {
+    problems.push(`${label}: image must be an embedded PNG or SVG`);
+  }
+  if (typeof s.sizeMm !== "number" || !(s.sizeMm > 0)) {
+    problems.push(`${label}: size must be a positive number of mm`);
+  }
+  if (!isObject(s.anchor) || !isFraction(s.anchor.x) || !isFraction(s.anchor.y)) {
+    problems.push(`${label}: anchor must lie within the symbol`);
+  }
+}
+
+/** Read a library file exported from this app */
+export function parseSymbolLibrary(value: unknown): ParsedLibrary {
+  if (!isObject(value) || value.kind !== LIBRARY_KIND) {
+    return { ok: false, problems: ["it isn't a symbol library"] };
+  }
+  if (value.version !== LIBRARY_VERSION) {
+    return { ok: false, problems: [`library format ${value.version} isn't supported`] };
+  }
+  if (!Array.isArray(value.symbols)) return { ok: false, problems: ["symbols must be a list"] };
+
+  const problems: string[] = [];
+  const ids = new Set<string>();
+  value.symbols.forEach((s: unknown, i: number) => checkSymbol(s, i, ids, problems));
+  if (problems.length > 0) return { ok: false, problems };
+
+  // only the catalogue fields are kept
+  const symbols = value.symbols.map(
+    ({ id, name, category, description, src, sizeMm, anchor }: SymbolDef): SymbolDef => ({
+      id,
+      name,
+      category,
+      description,
+      src,
+      sizeMm,
+      anchor: { x: anchor.x, y: anchor.y },
+    })
+  );
+  return { ok: true, symbols };
+}
@@ -0,0 +1,15 @@
+import { isSvgSource } from "./symbolObjects";
+import { SYMBOLS } from "./symbols";
+
+test("SVG sources are recognised by extension or data URL type", () => {
+  expect(isSvgSource("/images/symbols/downlight.svg")).toBe(true);
+  expect(isSvgSource("/images/symbols/downlight.SVG?v=2")).toBe(true);
+  expect(isSvgSource("data:image/svg+xml;base64,PHN2Zz4=")).toBe(true);
+  expect(isSvgSource("data:image/svg+xml,%3Csvg%3E")).toBe(true);
+  expect(isSvgSource("/images/bobble.png")).toBe(false);
+  expect(isSvgSource("data:image/png;base64,iVBORw0KGgo=")).toBe(false);
+});
+
+test("built-in symbols are drawn as vectors", () => {
+  SYMBOLS.forEach((s) => expect(isSvgSource(s.src)).toBe(true));
+});
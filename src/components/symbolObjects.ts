@@ -0,0 +1,62 @@
+import { FabricImage, FabricObject, Group, loadSVGFromURL, Rect } from "fabric";
+
+/**
+ * Symbol artwork as Fabric objects. SVG symbols load as vector groups, so
+ * they stay sharp at any zoom and go into exports as paths; anything else
+ * (PNG) loads as an image.
+ */
+
+export const isSvgSource = (src: string) =>
+  /^data:image\/svg\+xml[;,]/i.test(src) || /\.svg([?#]|$)/i.test(src);
+
+async function loadSvg(src: string): Promise<FabricObject> {
+  const { objects, options } = await loadSVGFromURL(src);
+  const shapes = objects.filter((o): o is FabricObject => !!o);
+  if (shapes.length === 0) throw new Error(`No shapes in ${src}`);
+
+  // an empty frame keeps the SVG's own box, so size and anchor mean what
+  // they do for the same file shown as an image
+  const { width, height } = options;
+  const frame =
+    width > 0 && height > 0
+      ? [
+          new Rect({
+            originX: "left",
+            originY: "top",
+            left: 0,
+            top: 0,
+            width,
+            height,
+            fill: "",
+            stroke: null,
+            strokeWidth: 0,
+          }),
+        ]
+      : [];
+  return new Group([...frame, ...shapes]);
+}
+
+async function loadArtwork(src: string): Promise<FabricObject> {
+  if (isSvgSource(src)) {
+    try {
+      return await loadSvg(src);
+    } catch (err) {
+      console.warn("Placing a bitmap copy of", src, err);
+    }
+  }
+  return FabricImage.fromURL(src, { crossOrigin: "anonymous" });
+}
+
+// each source is fetched and parsed once; placements get clones
+const templates = new Map<string, Promise<FabricObject>>();
+
+/** A new object showing the artwork at `src`, at its natural size */
+export function createSymbolObject(src: string): Promise<FabricObject> {
+  let template = templates.get(src);
+  if (!template) {
+    template = loadArtwork(src);
+    templates.set(src, template);
+    template.catch(() => templates.delete(src));
+  }
+  return template.then((t) => t.clone());
+}
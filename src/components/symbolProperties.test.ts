@@ -0,0 +1,52 @@
+import { Rect, StaticCanvas, util as fabricUtil } from "fabric";
+import { EXTRA_PROPS } from "./document";
+import {
+  cleanProperty,
+  getSymbolProperties,
+  mountingHeightText,
+  setSymbolProperties,
+} from "./symbolProperties";
+
+test("blank values clear a property and heights are whole millimetres", () => {
+  expect(cleanProperty("rating", "  13A ")).toBe("13A");
+  expect(cleanProperty("rating", "   ")).toBeUndefined();
+  expect(cleanProperty("mountingHeightMm", "450.4")).toBe(450);
+  expect(cleanProperty("mountingHeightMm", "")).toBeUndefined();
+  expect(cleanProperty("mountingHeightMm", -10)).toBeUndefined();
+});
+
+test("setting properties updates the symbol and notifies the canvas", () => {
+  const fire = jest.fn();
+  const canvas = { fire } as unknown as StaticCanvas;
+  const symbol: any = { symbolId: "socket-twin", rating: "13A" };
+
+  setSymbolProperties(canvas, symbol, { mountingHeightMm: "450" as any, rating: "" });
+
+  expect(getSymbolProperties(symbol)).toEqual({ mountingHeightMm: 450 });
+  expect(mountingHeightText(getSymbolProperties(symbol))).toBe("@ 450mm AFL");
+  expect(fire).toHaveBeenCalledWith("symbol:changed", { target: symbol });
+});
+
+test("properties survive serialisation", async () => {
+  const symbol = Object.assign(new Rect({ width: 10, height: 10 }), {
+    symbolId: "socket-twin",
+    mountingHeightMm: 1100,
+    ipRating: "IP66",
+    manufacturer: "MK",
+    productCode: "K2747WHI",
+    room: "Garage",
+    notes: "Above worktop",
+  });
+
+  const json = symbol.toObject(EXTRA_PROPS as any[]);
+  const [restored] = await fabricUtil.enlivenObjects([JSON.parse(JSON.stringify(json))]);
+
+  expect(getSymbolProperties(restored)).toEqual({
+    mountingHeightMm: 1100,
+    ipRating: "IP66",
+    manufacturer: "MK",
+    productCode: "K2747WHI",
+    room: "Garage",
+    notes: "Above worktop",
+  });
+});
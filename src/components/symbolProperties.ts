@@ -0,0 +1,70 @@
+import { StaticCanvas } from "fabric";
+
+/**
+ * Installation details kept on each placed symbol. They are plain props on
+ * the Fabric object (listed in EXTRA_PROPS), like `room` and `circuit`, so
+ * they travel through save/load and JSON import/export.
+ */
+export type SymbolProperties = {
+  /** Height to the centre of the accessory, above finished floor */
+  mountingHeightMm?: number;
+  /** e.g. "13A", "2x 13A", "10W" */
+  rating?: string;
+  ipRating?: string;
+  manufacturer?: string;
+  productCode?: string;
+  room?: string;
+  notes?: string;
+};
+
+export const SYMBOL_PROPERTY_KEYS: (keyof SymbolProperties)[] = [
+  "mountingHeightMm",
+  "rating",
+  "ipRating",
+  "manufacturer",
+  "productCode",
+  "room",
+  "notes",
+];
+
+export const IP_RATINGS = ["IP20", "IP44", "IP54", "IP55", "IP65", "IP66", "IP67", "IP68"];
+
+export function getSymbolProperties(obj: any): SymbolProperties {
+  const props: SymbolProperties = {};
+  SYMBOL_PROPERTY_KEYS.forEach((key) => {
+    if (obj?.[key] !== undefined && obj[key] !== "") (props as any)[key] = obj[key];
+  });
+  return props;
+}
+
+/**
+ * Blank strings and non-numeric heights clear a property rather than
+ * storing an empty value.
+ */
+export function cleanProperty<K extends keyof SymbolProperties>(
+  key: K,
+  value: unknown
+): SymbolProperties[K] | undefined {
+  if (key === "mountingHeightMm") {
+    const n = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+    return (Number.isFinite(n) && n >= 0 ? Math.round(n) : undefined) as SymbolProperties[K];
+  }
+  const text = String(value ?? "").trim();
+  return (text || undefined) as SymbolProperties[K];
+}
+
+/** Update some properties of a symbol; listeners refresh labels and schedules on the event. */
+export function setSymbolProperties(
+  canvas: StaticCanvas,
+  obj: any,
+  patch: Partial<SymbolProperties>
+) {
+  (Object.keys(patch) as (keyof SymbolProperties)[]).forEach((key) => {
+    obj[key] = cleanProperty(key, patch[key]);
+  });
+  canvas.fire("symbol:changed" as any, { target: obj } as any);
+}
+
+/** "@ 450mm AFL" for labels, empty without a height */
+export const mountingHeightText = (props: SymbolProperties) =>
+  props.mountingHeightMm !== undefined ? `@ ${props.mountingHeightMm}mm AFL` : "";
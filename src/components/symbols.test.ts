@@ -0,0 +1,19 @@
+import { getSymbol, groupSymbols, matchesSymbol, SYMBOLS } from "./symbols";
+
+test("symbol ids are unique", () => {
+  const ids = SYMBOLS.map((s) => s.id);
+  expect(new Set(ids).size).toBe(ids.length);
+});
+
+test("search matches name, description and category", () => {
+  const twin = getSymbol("socket-twin")!;
+  expect(matchesSymbol(twin, "twin")).toBe(true);
+  expect(matchesSymbol(twin, "13a")).toBe(true);
+  expect(matchesSymbol(twin, "power")).toBe(true);
+  expect(matchesSymbol(twin, "downlight")).toBe(false);
+});
+
+test("groups follow category order and skip empty categories", () => {
+  const groups = groupSymbols(SYMBOLS.filter((s) => s.category !== "lighting"));
+  expect(groups.map((g) => g.id)).toEqual(["power", "switching"]);
+});
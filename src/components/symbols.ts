@@ -0,0 +1,154 @@
+/**
+ * Symbol catalogue: every symbol that can be placed on a sheet, the ones
+ * shipped with the app followed by the user's own library (./symbolLibrary).
+ *
+ * Placed objects carry `symbolId` so exports, legends and schedules can tell
+ * what an icon means without looking at its image URL.
+ */
+
+export type SymbolCategory =
+  | "power"
+  | "lighting"
+  | "switching"
+  | "data"
+  | "fire-security";
+
+/**
+ * Insertion point as a fraction of the symbol's box: {x: 0.5, y: 0.5} is the
+ * centre, {x: 0.5, y: 1} the bottom middle (the wall side of a socket).
+ */
+export type SymbolAnchor = { x: number; y: number };
+
+export type SymbolDef = {
+  id: string;
+  name: string;
+  category: SymbolCategory;
+  description: string;
+  /** Image URL, SVG where possible; a data URL for symbols from the user's library */
+  src: string;
+  /** PNG the symbol was drawn with before it had vector artwork */
+  bitmap?: string;
+  /** Printed width on the sheet, in mm */
+  sizeMm: number;
+  anchor: SymbolAnchor;
+};
+
+export const SYMBOL_CATEGORIES: { id: SymbolCategory; label: string }[] = [
+  { id: "power", label: "Power" },
+  { id: "lighting", label: "Lighting" },
+  { id: "switching", label: "Switching" },
+  { id: "data", label: "Data" },
+  { id: "fire-security", label: "Fire / security" },
+];
+
+const CENTRE: SymbolAnchor = { x: 0.5, y: 0.5 };
+const WALL: SymbolAnchor = { x: 0.5, y: 1 };
+
+export const SYMBOLS: SymbolDef[] = [
+  {
+    id: "socket-single",
+    name: "Single socket",
+    category: "power",
+    description: "13A single switched socket outlet",
+    src: "/images/symbols/socket-single.svg",
+    bitmap: "/images/fork1.png",
+    sizeMm: 7,
+    anchor: WALL,
+  },
+  {
+    id: "socket-twin",
+    name: "Twin socket",
+    category: "power",
+    description: "13A twin switched socket outlet",
+    src: "/images/symbols/socket-twin.svg",
+    bitmap: "/images/fork2.png",
+    sizeMm: 8,
+    anchor: WALL,
+  },
+  {
+    id: "fused-spur",
+    name: "Fused spur",
+    category: "power",
+    description: "Fused connection unit (FCU) for fixed appliances",
+    src: "/images/symbols/fused-spur.svg",
+    bitmap: "/images/fork-bobble.png",
+    sizeMm: 7,
+    anchor: WALL,
+  },
+  {
+    id: "downlight",
+    name: "Downlight",
+    category: "lighting",
+    description: "Recessed LED downlight",
+    src: "/images/symbols/downlight.svg",
+    bitmap: "/images/bobble.png",
+    sizeMm: 5,
+    anchor: CENTRE,
+  },
+  {
+    id: "ceiling-light",
+    name: "Ceiling light",
+    category: "lighting",
+    description: "Ceiling light point / pendant",
+    src: "/images/symbols/ceiling-light.svg",
+    bitmap: "/images/bobble-legs.png",
+    sizeMm: 7,
+    anchor: CENTRE,
+  },
+  {
+    id: "switch-1way",
+    name: "One-way switch",
+    category: "switching",
+    description: "Single-pole one-way light switch",
+    src: "/images/symbols/switch-1way.svg",
+    bitmap: "/images/ampage.png",
+    sizeMm: 6,
+    anchor: CENTRE,
+  },
+];
+
+let userSymbols: SymbolDef[] = [];
+
+/** Replace the user's library symbols in the catalogue */
+export function setUserSymbols(symbols: SymbolDef[]) {
+  userSymbols = symbols;
+}
+
+/** Built-in symbols followed by the user's library */
+export const allSymbols = (): SymbolDef[] => [...SYMBOLS, ...userSymbols];
+
+export function getSymbol(id: string | undefined | null): SymbolDef | undefined {
+  if (!id) return undefined;
+  return allSymbols().find((s) => s.id === id);
+}
+
+/**
+ * Catalogue id of a placed object, either a live Fabric object or its saved
+ * JSON. Falls back to matching the image URL for icons placed before objects
+ * carried `symbolId`, which were always bitmaps.
+ */
+export function symbolIdOf(obj: any): string | undefined {
+  if (obj?.symbolId) return obj.symbolId;
+  if (String(obj?.type).toLowerCase() !== "image") return undefined;
+  const src: string =
+    (typeof obj.getSrc === "function" ? obj.getSrc() : obj.src) || "";
+  return SYMBOLS.find((s) => src.endsWith(s.src) || (!!s.bitmap && src.endsWith(s.bitmap)))?.id;
+}
+
+/** Case-insensitive match on name, description and category label. */
+export function matchesSymbol(symbol: SymbolDef, query: string): boolean {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  const category = SYMBOL_CATEGORIES.find((c) => c.id === symbol.category)?.label ?? "";
+  return [symbol.name, symbol.description, category].some((t) =>
+    t.toLowerCase().includes(q)
+  );
+}
+
+/** Catalogue grouped by category, in category order, skipping empty groups. */
+export function groupSymbols(symbols: SymbolDef[]) {
+  return SYMBOL_CATEGORIES.map((c) => ({
+    ...c,
+    symbols: symbols.filter((s) => s.category === c.id),
+  })).filter((g) => g.symbols.length > 0);
+}
@@ -0,0 +1,17 @@
+import { FabricObject, StaticCanvas } from "fabric";
+
+/**
+ * Stand-in for a sheet's canvas in tests, as jsdom has no 2d context for a
+ * real one. It holds `objects` in stacking order and answers the calls the
+ * sheet helpers make; tests needing more assign it onto the result.
+ */
+export const sheetOf = (...objects: FabricObject[]) =>
+  ({
+    getObjects: () => [...objects],
+    moveObjectTo: (obj: FabricObject, index: number) => {
+      objects.splice(objects.indexOf(obj), 1);
+      objects.splice(index, 0, obj);
+    },
+    fire: () => {},
+    requestRenderAll: () => {},
+  }) as unknown as StaticCanvas;
@@ -0,0 +1,38 @@
+import {
+  emptyTitleBlock,
+  MAX_REVISION_ROWS,
+  resolveTitleBlock,
+  revisionTableHeightMm,
+  revisionTableRows,
+} from "./titleBlock";
+
+test("blank title and scale come from the sheet", () => {
+  const fields = { ...emptyTitleBlock(), project: "  Smith extension " };
+  // 1:50 on the original A1 drawing, shrunk onto A3 at half size
+  const values = resolveTitleBlock(fields, "Ground floor", (25.4 / 150) * 100);
+
+  expect(values.project).toBe("Smith extension");
+  expect(values.drawingTitle).toBe("Ground floor");
+  expect(values.scale).toBe("1:100 @ A3");
+});
+
+test("typed values win over the defaults", () => {
+  const fields = { ...emptyTitleBlock(), drawingTitle: "Power layout", scale: "NTS" };
+  const values = resolveTitleBlock(fields, "Sheet 1", 20);
+
+  expect(values.drawingTitle).toBe("Power layout");
+  expect(values.scale).toBe("NTS");
+});
+
+test("the printed scale names the sheet's paper", () => {
+  const values = resolveTitleBlock(emptyTitleBlock(), "Sheet 1", (25.4 / 150) * 50, "A1");
+  expect(values.scale).toBe("1:50 @ A1");
+});
+
+test("the revision table lists the latest revisions only", () => {
+  const rows = "ABCDEFGHIJ".split("").map((code) => ({ code, description: "", date: "" }));
+
+  expect(revisionTableHeightMm([])).toBe(0);
+  expect(revisionTableRows(rows).map((r) => r.code)).toEqual("CDEFGHIJ".split(""));
+  expect(revisionTableHeightMm(rows)).toBe(5 + 6 * MAX_REVISION_ROWS);
+});
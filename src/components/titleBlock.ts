@@ -0,0 +1,311 @@
+import {
+  FabricImage,
+  FabricObject,
+  FabricText,
+  Group,
+  Rect,
+  StaticCanvas,
+  util as fabricUtil,
+} from "fabric";
+import { getCalibration } from "./calibration";
+import { fitText, refillGroup } from "./legend";
+import {
+  DPI,
+  getPageBounds,
+  getPagePaper,
+  MM_PER_INCH,
+  mmToPx,
+  PAGE_NAME,
+  PaperSize,
+} from "./page";
+
+export const TITLE_BLOCK_NAME = "TITLE_BLOCK";
+
+export const isTitleBlock = (obj: any) => obj?.name === TITLE_BLOCK_NAME;
+
+/** Title block values; one set per document, shown on every sheet */
+export type TitleBlockFields = {
+  company: string;
+  project: string;
+  address: string;
+  client: string;
+  /** Blank uses the sheet name */
+  drawingTitle: string;
+  drawingNumber: string;
+  revision: string;
+  /** Blank uses the sheet's calibration, as printed on the sheet's paper */
+  scale: string;
+  drawnBy: string;
+  checkedBy: string;
+  date: string;
+  /** Company logo as a data URL */
+  logo?: string;
+};
+
+export const DEFAULT_COMPANY = "RJ Dorey Electrical Designs";
+
+export function emptyTitleBlock(): TitleBlockFields {
+  return {
+    company: DEFAULT_COMPANY,
+    project: "",
+    address: "",
+    client: "",
+    drawingTitle: "",
+    drawingNumber: "",
+    revision: "",
+    scale: "",
+    drawnBy: "",
+    checkedBy: "",
+    date: new Date().toISOString().slice(0, 10),
+  };
+}
+
+type CellKey = Exclude<keyof TitleBlockFields, "company" | "logo">;
+
+/** Cell grid in printed mm, from the block's top-left corner */
+const CELLS: { key: CellKey; label: string; x: number; y: number; w: number; h: number }[] = [
+  { key: "project", label: "Project", x: 0, y: 16, w: 100, h: 10 },
+  { key: "client", label: "Client", x: 100, y: 16, w: 80, h: 10 },
+  { key: "address", label: "Address", x: 0, y: 26, w: 180, h: 10 },
+  { key: "drawingTitle", label: "Drawing title", x: 0, y: 36, w: 180, h: 12 },
+  { key: "drawingNumber", label: "Drawing no.", x: 0, y: 48, w: 80, h: 10 },
+  { key: "revision", label: "Rev", x: 80, y: 48, w: 40, h: 10 },
+  { key: "scale", label: "Scale", x: 120, y: 48, w: 60, h: 10 },
+  { key: "drawnBy", label: "Drawn", x: 0, y: 58, w: 60, h: 10 },
+  { key: "checkedBy", label: "Checked", x: 60, y: 58, w: 60, h: 10 },
+  { key: "date", label: "Date", x: 120, y: 58, w: 60, h: 10 },
+];
+
+const BLOCK_W_MM = 180;
+const BLOCK_H_MM = 68;
+const HEADER_H_MM = 16;
+const LOGO_W_MM = 34;
+const MARGIN_MM = 10;
+
+const PAD = mmToPx(1.5);
+const LABEL_FONT = mmToPx(1.8);
+const VALUE_FONT = mmToPx(3);
+const TITLE_FONT = mmToPx(4.2);
+
+const topLeft = { originX: "left" as const, originY: "top" as const };
+
+/** One line of the revision table printed above the title block */
+export type RevisionRow = { code: string; description: string; date: string };
+
+const REVISION_COLS: { key: keyof RevisionRow; label: string; w: number }[] = [
+  { key: "code", label: "Rev", w: 20 },
+  { key: "description", label: "Description", w: 125 },
+  { key: "date", label: "Date", w: 35 },
+];
+const REVISION_HEADER_H_MM = 5;
+const REVISION_ROW_H_MM = 6;
+/** Older revisions drop off the table beyond this */
+export const MAX_REVISION_ROWS = 8;
+
+/** Rows the table shows: the latest few, oldest at the top */
+export const revisionTableRows = (rows: RevisionRow[]) => rows.slice(-MAX_REVISION_ROWS);
+
+export const revisionTableHeightMm = (rows: RevisionRow[]) =>
+  rows.length > 0
+    ? REVISION_HEADER_H_MM + revisionTableRows(rows).length * REVISION_ROW_H_MM
+    : 0;
+
+/** Field values as printed on one sheet, with the blanks filled in */
+export function resolveTitleBlock(
+  fields: TitleBlockFields,
+  sheetName: string,
+  mmPerPx?: number,
+  paperSize: PaperSize = "A3"
+): Record<CellKey, string> {
+  const values = {} as Record<CellKey, string>;
+  CELLS.forEach(({ key }) => {
+    values[key] = fields[key].trim();
+  });
+  if (!values.drawingTitle) values.drawingTitle = sheetName;
+  // the underlay may have been shrunk onto the paper, so work from the calibration
+  if (!values.scale && mmPerPx) {
+    values.scale = `1:${Math.round(mmPerPx / (MM_PER_INCH / DPI))} @ ${paperSize}`;
+  }
+  return values;
+}
+
+const text = (value: string, left: number, top: number, fontSize: number, opts = {}) =>
+  new FabricText(value, {
+    ...topLeft,
+    left,
+    top,
+    fontSize,
+    fontFamily: "Arial",
+    fill: "#111111",
+    ...opts,
+  });
+
+const box = (left: number, top: number, width: number, height: number) =>
+  new Rect({ ...topLeft, left, top, width, height, fill: "", stroke: "#111111", strokeWidth: 1 });
+
+/** Block contents laid out from (0,0), in sheet pixels. */
+async function buildTitleBlockItems(
+  fields: TitleBlockFields,
+  values: Record<CellKey, string>
+): Promise<FabricObject[]> {
+  const W = mmToPx(BLOCK_W_MM);
+  const H = mmToPx(BLOCK_H_MM);
+  const headerH = mmToPx(HEADER_H_MM);
+  const logoW = mmToPx(LOGO_W_MM);
+
+  const items: FabricObject[] = [
+    new Rect({
+      ...topLeft,
+      left: 0,
+      top: 0,
+      width: W,
+      height: H,
+      fill: "#ffffff",
+      stroke: "#111111",
+      strokeWidth: 2,
+    }),
+    box(0, 0, logoW, headerH),
+  ];
+
+  if (fields.logo) {
+    try {
+      const el = await fabricUtil.loadImage(fields.logo);
+      const logo = new FabricImage(el, { originX: "center", originY: "center" });
+      logo.scale(
+        Math.min(
+          (logoW - PAD * 2) / (logo.width || 1),
+          (headerH - PAD * 2) / (logo.height || 1)
+        )
+      );
+      logo.set({ left: logoW / 2, top: headerH / 2 });
+      items.push(logo);
+    } catch (err) {
+      console.error(err);
+    }
+  }
+
+  const company = text(fields.company.trim(), logoW + PAD * 2, 0, TITLE_FONT, {
+    fontWeight: "bold",
+  });
+  fitText(company, W - logoW - PAD * 4);
+  company.set({ top: (headerH - (company.height ?? TITLE_FONT)) / 2 });
+  items.push(company);
+
+  CELLS.forEach(({ key, label, x, y, w, h }) => {
+    const left = mmToPx(x);
+    const top = mmToPx(y);
+    const width = mmToPx(w);
+    const height = mmToPx(h);
+    items.push(box(left, top, width, height));
+    items.push(
+      text(label.toUpperCase(), left + PAD, top + PAD * 0.6, LABEL_FONT, { fill: "#666666" })
+    );
+
+    const fontSize = key === "drawingTitle" ? TITLE_FONT : VALUE_FONT;
+    const value = text(values[key], left + PAD, top + height - PAD * 0.6 - fontSize, fontSize, {
+      fontWeight: key === "drawingTitle" || key === "drawingNumber" ? "bold" : "normal",
+    });
+    fitText(value, width - PAD * 2);
+    items.push(value);
+  });
+
+  return items;
+}
+
+/** Revision table laid out from (0,0), as wide as the title block */
+function buildRevisionTable(rows: RevisionRow[]): FabricObject[] {
+  const items: FabricObject[] = [];
+  const headerH = mmToPx(REVISION_HEADER_H_MM);
+  const rowH = mmToPx(REVISION_ROW_H_MM);
+  const shown = revisionTableRows(rows);
+
+  items.push(
+    new Rect({
+      ...topLeft,
+      left: 0,
+      top: 0,
+      width: mmToPx(BLOCK_W_MM),
+      height: mmToPx(revisionTableHeightMm(rows)),
+      fill: "#ffffff",
+      stroke: "#111111",
+      strokeWidth: 2,
+    })
+  );
+
+  let x = 0;
+  REVISION_COLS.forEach(({ key, label, w }) => {
+    const left = mmToPx(x);
+    const width = mmToPx(w);
+    items.push(box(left, 0, width, headerH));
+    items.push(
+      text(label.toUpperCase(), left + PAD, (headerH - LABEL_FONT) / 2, LABEL_FONT, {
+        fill: "#666666",
+      })
+    );
+    shown.forEach((row, i) => {
+      const top = headerH + i * rowH;
+      items.push(box(left, top, width, rowH));
+      const value = text(row[key].trim(), left + PAD, top + (rowH - VALUE_FONT) / 2, VALUE_FONT, {
+        fontWeight: key === "code" ? "bold" : "normal",
+      });
+      fitText(value, width - PAD * 2);
+      items.push(value);
+    });
+    x += w;
+  });
+
+  return items;
+}
+
+/**
+ * Put the title block in the bottom-right corner of the page, creating it
+ * on sheets that don't have one yet, with the revision table on top when
+ * there are `revisions` to list. Not part of undo history: it is driven
+ * entirely by the document's title block fields and revisions.
+ */
+export async function syncTitleBlock(
+  canvas: StaticCanvas,
+  fields: TitleBlockFields,
+  sheetName: string,
+  revisions: RevisionRow[] = []
+) {
+  const page: any = canvas.getObjects().find((o: any) => o?.name === PAGE_NAME);
+  if (!page) return;
+
+  const values = resolveTitleBlock(
+    fields,
+    sheetName,
+    getCalibration(canvas)?.mmPerPx,
+    getPagePaper(page).size
+  );
+  const tableH = mmToPx(revisionTableHeightMm(revisions));
+  const blockItems = await buildTitleBlockItems(fields, values);
+  blockItems.forEach((item) => item.set({ top: item.top + tableH }));
+  const items = [...(revisions.length > 0 ? buildRevisionTable(revisions) : []), ...blockItems];
+
+  const bounds = getPageBounds(page);
+  const margin = mmToPx(MARGIN_MM);
+  const left = bounds.left + bounds.width - margin - mmToPx(BLOCK_W_MM);
+  const top = bounds.top + bounds.height - margin - mmToPx(BLOCK_H_MM) - tableH;
+
+  // looked up after the await so overlapping syncs don't add two blocks
+  const existing = canvas.getObjects().find(isTitleBlock) as Group | undefined;
+  if (existing) {
+    refillGroup(canvas, existing, items);
+    existing.set({ left, top });
+    existing.setCoords();
+  } else {
+    const block = new Group(items, {
+      ...topLeft,
+      subTargetCheck: false,
+      interactive: false,
+      selectable: false,
+      evented: false,
+    }) as any;
+    block.set({ left, top });
+    block.setCoords();
+    block.name = TITLE_BLOCK_NAME;
+    canvas.add(block);
+  }
+  canvas.requestRenderAll();
+}
@@ -0,0 +1,44 @@
+import { Rect } from "fabric";
+import { PDFDocument, StandardFonts } from "pdf-lib";
+import { createPageRect } from "./page";
+import { sheetOf } from "./testCanvas";
+import { createVectorPdf, standardFontFor, toPaint } from "./vectorPdf";
+
+test("colours map to pdf paints", () => {
+  expect(toPaint("#ff0000")).toMatchObject({ color: { red: 1, green: 0, blue: 0 }, alpha: 1 });
+  expect(toPaint("rgba(0,0,255,0.5)")?.alpha).toBe(0.5);
+  expect(toPaint("")).toBeNull();
+  expect(toPaint("transparent")).toBeNull();
+  expect(toPaint(undefined)).toBeNull();
+});
+
+test("fonts map to the nearest standard face", () => {
+  expect(standardFontFor({ fontFamily: "Arial" })).toBe(StandardFonts.Helvetica);
+  expect(standardFontFor({ fontFamily: "Arial", fontWeight: "bold" })).toBe(
+    StandardFonts.HelveticaBold
+  );
+  expect(standardFontFor({ fontFamily: "Times New Roman", fontStyle: "italic" })).toBe(
+    StandardFonts.TimesRomanItalic
+  );
+  expect(standardFontFor({ fontFamily: "Courier New", fontWeight: 700 })).toBe(
+    StandardFonts.CourierBold
+  );
+});
+
+test("each sheet becomes one A3 page", async () => {
+  const canvas = sheetOf(
+    createPageRect(),
+    new Rect({ left: 100, top: 100, width: 50, height: 20, fill: "red" })
+  );
+
+  const pdf = await createVectorPdf("Test");
+  await pdf.addSheet({ canvas });
+  await pdf.addSheet({ canvas: sheetOf() }); // no page: skipped
+  const bytes = await pdf.save();
+
+  const doc = await PDFDocument.load(bytes!);
+  expect(doc.getPageCount()).toBe(1);
+  const { width, height } = doc.getPage(0).getSize();
+  expect(width).toBeCloseTo(1190.55, 0);
+  expect(height).toBeCloseTo(841.89, 0);
+});
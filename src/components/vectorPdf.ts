@@ -0,0 +1,423 @@
+import { Color, FabricObject, Group, StaticCanvas } from "fabric";
+import {
+  concatTransformationMatrix,
+  LineCapStyle,
+  PDFDocument,
+  PDFEmbeddedPage,
+  PDFFont,
+  PDFImage,
+  PDFPage,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  RGB,
+  StandardFonts,
+} from "pdf-lib";
+import { isLeader, textLinesOf } from "./annotations";
+import { CABLE_LABEL_FONT, isCableRun } from "./cables";
+import { DPI, getPageBounds, PAGE_NAME, PDF_NAME } from "./page";
+
+/**
+ * Vector PDF export. Each sheet's Fabric objects are written as PDF paths,
+ * text and images, and the underlay is embedded from its source PDF when
+ * the original bytes are still around, so plan linework stays sharp.
+ */
+
+/** PDF points per sheet pixel (every paper size is laid out at DPI) */
+export const PT_PER_PX = 72 / DPI;
+
+export type VectorSheet = {
+  canvas: StaticCanvas;
+  /** Bytes of the underlay's source PDF; without them the underlay bitmap is used */
+  underlayPdf?: Uint8Array;
+};
+
+type Ctx = {
+  doc: PDFDocument;
+  page: PDFPage;
+  fonts: Map<string, PDFFont>;
+  images: Map<string, PDFImage>;
+  underlayPdf?: Uint8Array;
+};
+
+type Paint = { color: RGB; alpha: number } | null;
+
+/** Fabric colour string to a pdf-lib colour; null for none / transparent */
+export function toPaint(value: unknown): Paint {
+  if (typeof value !== "string" || !value || value === "transparent") return null;
+  const [r, g, b, a] = new Color(value).getSource();
+  if (a === 0) return null;
+  return { color: rgb(r / 255, g / 255, b / 255), alpha: a };
+}
+
+// Regular, bold, italic, bold italic
+const FONT_FACES = {
+  sans: [
+    StandardFonts.Helvetica,
+    StandardFonts.HelveticaBold,
+    StandardFonts.HelveticaOblique,
+    StandardFonts.HelveticaBoldOblique,
+  ],
+  serif: [
+    StandardFonts.TimesRoman,
+    StandardFonts.TimesRomanBold,
+    StandardFonts.TimesRomanItalic,
+    StandardFonts.TimesRomanBoldItalic,
+  ],
+  mono: [
+    StandardFonts.Courier,
+    StandardFonts.CourierBold,
+    StandardFonts.CourierOblique,
+    StandardFonts.CourierBoldOblique,
+  ],
+};
+
+/** Standard PDF font closest to a Fabric text object's font */
+export function standardFontFor(obj: any): StandardFonts {
+  const family = String(obj.fontFamily ?? "").toLowerCase();
+  const bold = obj.fontWeight === "bold" || Number(obj.fontWeight) >= 600;
+  const italic = obj.fontStyle === "italic" || obj.fontStyle === "oblique";
+
+  const faces = /courier|mono/.test(family)
+    ? FONT_FACES.mono
+    : /times|georgia|(^|[^-])serif/.test(family)
+      ? FONT_FACES.serif
+      : FONT_FACES.sans;
+  return faces[(bold ? 1 : 0) + (italic ? 2 : 0)];
+}
+
+async function getFont(ctx: Ctx, name: StandardFonts) {
+  let font = ctx.fonts.get(name);
+  if (!font) {
+    font = await ctx.doc.embedFont(name);
+    ctx.fonts.set(name, font);
+  }
+  return font;
+}
+
+/** Standard fonts only cover WinAnsi; swap anything else for "?" */
+function encodable(font: PDFFont, text: string) {
+  return Array.from(text)
+    .map((ch) => {
+      try {
+        font.encodeText(ch);
+        return ch;
+      } catch {
+        return "?";
+      }
+    })
+    .join("");
+}
+
+const lineCap = (cap: string | undefined) =>
+  cap === "round"
+    ? LineCapStyle.Round
+    : cap === "square"
+      ? LineCapStyle.Projecting
+      : LineCapStyle.Butt;
+
+/** Fill/stroke options shared by pdf-lib's rectangle, ellipse and path calls */
+function paintOptions(obj: any, opacity: number) {
+  const fill = toPaint(obj.fill);
+  const stroke = obj.strokeWidth > 0 ? toPaint(obj.stroke) : null;
+  return {
+    color: fill?.color,
+    opacity: opacity * (fill?.alpha ?? 1),
+    borderColor: stroke?.color,
+    borderOpacity: opacity * (stroke?.alpha ?? 1),
+    borderWidth: stroke ? obj.strokeWidth : 0,
+    borderDashArray: stroke && obj.strokeDashArray?.length ? obj.strokeDashArray : undefined,
+  };
+}
+
+async function imageBytes(src: string, el: any): Promise<{ bytes: ArrayBuffer; png: boolean }> {
+  try {
+    const bytes = await (await fetch(src)).arrayBuffer();
+    const head = new Uint8Array(bytes.slice(0, 4));
+    if (head[0] === 0x89 && head[1] === 0x50) return { bytes, png: true };
+    if (head[0] === 0xff && head[1] === 0xd8) return { bytes, png: false };
+  } catch (err) {
+    console.warn("Falling back to a bitmap copy of", src, err);
+  }
+
+  // anything else (SVG, WebP…) goes in as a PNG of the loaded element
+  const canvas = document.createElement("canvas");
+  canvas.width = el.naturalWidth || el.width || 1;
+  canvas.height = el.naturalHeight || el.height || 1;
+  canvas.getContext("2d")?.drawImage(el, 0, 0, canvas.width, canvas.height);
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+  if (!blob) throw new Error(`Couldn't rasterise ${src}`);
+  return { bytes: await blob.arrayBuffer(), png: true };
+}
+
+async function getImage(ctx: Ctx, obj: any) {
+  const src: string = obj.getSrc();
+  let image = ctx.images.get(src);
+  if (!image) {
+    const { bytes, png } = await imageBytes(src, obj.getElement());
+    image = png ? await ctx.doc.embedPng(bytes) : await ctx.doc.embedJpg(bytes);
+    ctx.images.set(src, image);
+  }
+  return image;
+}
+
+/** The underlay's source page as a vector XObject, or null to use the bitmap */
+async function embedUnderlay(ctx: Ctx, obj: any): Promise<PDFEmbeddedPage | null> {
+  if (!ctx.underlayPdf || !obj.sourcePage) return null;
+  try {
+    const source = await PDFDocument.load(ctx.underlayPdf, { ignoreEncryption: true });
+    const page = source.getPage(obj.sourcePage - 1);
+    // the bitmap was rendered upright by pdf.js; rotated pages keep using it
+    if (page.getRotation().angle % 360 !== 0) return null;
+    const crop = page.getCropBox();
+    return await ctx.doc.embedPage(page, {
+      left: crop.x,
+      bottom: crop.y,
+      right: crop.x + crop.width,
+      top: crop.y + crop.height,
+    });
+  } catch (err) {
+    console.warn("Couldn't embed the underlay PDF page; using its bitmap", err);
+    return null;
+  }
+}
+
+/** Circuit tint: a soft halo rather than a true blur */
+function drawHalo(ctx: Ctx, obj: any, opacity: number) {
+  const halo = toPaint(obj.shadow?.color);
+  if (!halo) return;
+  const grow = obj.shadow.blur ?? 0;
+  ctx.page.drawEllipse({
+    x: 0,
+    y: 0,
+    xScale: (obj.width ?? 0) / 2 + grow,
+    yScale: (obj.height ?? 0) / 2 + grow,
+    color: halo.color,
+    opacity: opacity * halo.alpha * 0.45,
+  });
+}
+
+/**
+ * Draw one object in its own coordinates. The current transform maps the
+ * object's centre to the origin with y pointing UP, so Fabric's local
+ * (x, y) is drawn at (x, -y).
+ */
+async function drawShape(ctx: Ctx, obj: any, opacity: number) {
+  const { page } = ctx;
+  const w = obj.width ?? 0;
+  const h = obj.height ?? 0;
+  const type = String(obj.type).toLowerCase();
+
+  drawHalo(ctx, obj, opacity);
+
+  if (type === "rect") {
+    page.drawRectangle({ x: -w / 2, y: -h / 2, width: w, height: h, ...paintOptions(obj, opacity) });
+    return;
+  }
+
+  if (type === "circle") {
+    page.drawCircle({ x: 0, y: 0, size: obj.radius, ...paintOptions(obj, opacity) });
+    return;
+  }
+
+  if (type === "ellipse") {
+    page.drawEllipse({ x: 0, y: 0, xScale: obj.rx, yScale: obj.ry, ...paintOptions(obj, opacity) });
+    return;
+  }
+
+  if (type === "line") {
+    const stroke = toPaint(obj.stroke);
+    if (!stroke) return;
+    const p = obj.calcLinePoints();
+    page.drawLine({
+      start: { x: p.x1, y: -p.y1 },
+      end: { x: p.x2, y: -p.y2 },
+      thickness: obj.strokeWidth,
+      color: stroke.color,
+      opacity: opacity * stroke.alpha,
+      dashArray: obj.strokeDashArray?.length ? obj.strokeDashArray : undefined,
+      lineCap: lineCap(obj.strokeLineCap),
+    });
+    return;
+  }
+
+  if (
+    type === "path" ||
+    type === "polyline" ||
+    type === "polygon" ||
+    isCableRun(obj) ||
+    isLeader(obj)
+  ) {
+    const d =
+      type === "path"
+        ? (obj.path as any[]).map((seg) => seg.join(" ")).join(" ")
+        : (obj.points as { x: number; y: number }[])
+            .map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`)
+            .join(" ") + (type === "polygon" ? " Z" : "");
+    // drawSvgPath flips y back to SVG's y-down, then shift by the path offset
+    page.drawSvgPath(d, {
+      x: -obj.pathOffset.x,
+      y: obj.pathOffset.y,
+      ...paintOptions(obj, opacity),
+      borderLineCap: lineCap(obj.strokeLineCap),
+    });
+    if (isCableRun(obj)) await drawCableLabel(ctx, obj, opacity);
+    if (isLeader(obj)) drawArrowHead(ctx, obj, opacity);
+    return;
+  }
+
+  if (typeof obj.text === "string" && obj._textLines) {
+    await drawText(ctx, obj, opacity);
+    return;
+  }
+
+  if (type === "image") {
+    if (obj.name === PDF_NAME) {
+      const embedded = await embedUnderlay(ctx, obj);
+      if (embedded) {
+        page.drawPage(embedded, { x: -w / 2, y: -h / 2, width: w, height: h, opacity });
+        return;
+      }
+    }
+    const image = await getImage(ctx, obj);
+    page.drawImage(image, { x: -w / 2, y: -h / 2, width: w, height: h, opacity });
+  }
+}
+
+async function drawText(ctx: Ctx, obj: any, opacity: number) {
+  const fill = toPaint(obj.fill) ?? { color: rgb(0, 0, 0), alpha: 1 };
+  const font = await getFont(ctx, standardFontFor(obj));
+
+  textLinesOf(obj).forEach(({ text, x, y }) => {
+    const line = encodable(font, text);
+    if (!line.trim()) return;
+    ctx.page.drawText(line, {
+      x,
+      y: -y,
+      size: obj.fontSize,
+      font,
+      color: fill.color,
+      opacity: opacity * fill.alpha,
+    });
+  });
+}
+
+function drawArrowHead(ctx: Ctx, leader: any, opacity: number) {
+  const head: { x: number; y: number }[] | null = leader.arrowHead();
+  const stroke = toPaint(leader.stroke);
+  if (!head || !stroke) return;
+  const d = head.map((p, i) => `${i === 0 ? "M" : "L"} ${p.x} ${p.y}`).join(" ") + " Z";
+  ctx.page.drawSvgPath(d, { x: 0, y: 0, color: stroke.color, opacity: opacity * stroke.alpha });
+}
+
+async function drawCableLabel(ctx: Ctx, run: any, opacity: number) {
+  const at = run.labelPlacement();
+  const stroke = toPaint(run.stroke);
+  if (!at || !stroke) return;
+
+  const font = await getFont(ctx, StandardFonts.Helvetica);
+  const label = encodable(font, run.lengthLabel);
+  const size = CABLE_LABEL_FONT;
+  const w = font.widthOfTextAtSize(label, size);
+
+  const { page } = ctx;
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(
+      Math.cos(-at.angle),
+      Math.sin(-at.angle),
+      -Math.sin(-at.angle),
+      Math.cos(-at.angle),
+      at.x,
+      -at.y
+    )
+  );
+  page.drawRectangle({
+    x: -w / 2 - 2,
+    y: 2,
+    width: w + 4,
+    height: size + 2,
+    color: rgb(1, 1, 1),
+    opacity: opacity * 0.85,
+  });
+  page.drawText(label, {
+    x: -w / 2,
+    // Fabric pins the text's bottom (descender) 3px off the line
+    y: 3 + size * 0.21,
+    size,
+    font,
+    color: stroke.color,
+    opacity: opacity * stroke.alpha,
+  });
+  page.pushOperators(popGraphicsState());
+}
+
+async function drawObject(ctx: Ctx, obj: FabricObject, parentOpacity = 1) {
+  const o: any = obj;
+  if (!o.visible || o.excludeFromExport) return;
+  const opacity = parentOpacity * (o.opacity ?? 1);
+
+  if (obj instanceof Group) {
+    // vector symbols are groups; their tint goes round the whole symbol
+    if (o.shadow) await inObjectSpace(ctx, obj, () => drawHalo(ctx, o, opacity));
+    // children's matrices already include the group's
+    for (const child of obj.getObjects()) await drawObject(ctx, child, opacity);
+    return;
+  }
+
+  await inObjectSpace(ctx, obj, () => drawShape(ctx, o, opacity));
+}
+
+/** Run `draw` with the transform set up as drawShape expects for `obj` */
+async function inObjectSpace(ctx: Ctx, obj: FabricObject, draw: () => unknown) {
+  const [a, b, c, d, e, f] = obj.calcTransformMatrix();
+  ctx.page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(a, b, c, d, e, f),
+    concatTransformationMatrix(1, 0, 0, -1, 0, 0)
+  );
+  try {
+    await draw();
+  } finally {
+    ctx.page.pushOperators(popGraphicsState());
+  }
+}
+
+export type VectorPdf = {
+  /** Append one page for a sheet; sheets without a page rect are skipped */
+  addSheet: (sheet: VectorSheet) => Promise<void>;
+  /** The finished file, or null when no page was added */
+  save: () => Promise<Uint8Array | null>;
+};
+
+/** A drawing set built one sheet at a time, so stored sheets can be loaded in turn. */
+export async function createVectorPdf(title?: string): Promise<VectorPdf> {
+  const doc = await PDFDocument.create();
+  if (title) doc.setTitle(title);
+  const fonts = new Map<string, PDFFont>();
+  const images = new Map<string, PDFImage>();
+
+  return {
+    async addSheet(sheet) {
+      const objects = sheet.canvas.getObjects();
+      const pageRect: any = objects.find((o: any) => o?.name === PAGE_NAME);
+      if (!pageRect) return;
+
+      const { left, top, width, height } = getPageBounds(pageRect);
+      const k = PT_PER_PX;
+      const page = doc.addPage([width * k, height * k]);
+      // sheet pixels (y down) to PDF points (y up)
+      page.pushOperators(concatTransformationMatrix(k, 0, 0, -k, -left * k, (top + height) * k));
+
+      const ctx: Ctx = { doc, page, fonts, images, underlayPdf: sheet.underlayPdf };
+      for (const obj of objects) {
+        // the paper itself is white; its grey outline is only an on-screen edge
+        if (obj === pageRect) continue;
+        await drawObject(ctx, obj);
+      }
+    },
+    async save() {
+      return doc.getPageCount() > 0 ? doc.save() : null;
+    },
+  };
+}